@@ -0,0 +1,113 @@
+/*
+ * caixa2bean - Convert Caixa bank statements to Beancount format
+ * Copyright (C) 2026  Kevin Curtet
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { ParsedExcelFile } from './types.js';
+import { AccountMapping, ConverterConfig } from './config.js';
+import { ConfigurationError } from './errors.js';
+import { StatementDate } from './dates.js';
+
+export interface ResolvedAccount {
+  account: string;
+  currency: string;
+  openDate?: string; // YYYY-MM-DD
+}
+
+// Shortest digit run accepted as an account number suffix (the 10-digit account)
+const MIN_ACCOUNT_DIGITS = 10;
+
+export class AccountResolver {
+  /**
+   * Picks the Beancount account for a statement. An explicit account name
+   * wins; otherwise the statement's account number (and branch code, when the
+   * mapping sets one) is looked up in converter.accounts. Without mappings the
+   * default account is used.
+   */
+  static resolve(
+    data: ParsedExcelFile,
+    config: ConverterConfig,
+    accountName?: string
+  ): ResolvedAccount {
+    if (accountName) {
+      return { account: accountName, currency: data.currency };
+    }
+
+    const mappings = config.accounts || [];
+    if (mappings.length === 0) {
+      return { account: config.defaultAccount, currency: data.currency };
+    }
+
+    const branchCode = data.transactions[0]?.branchCode;
+    const mapping = mappings.find(
+      (candidate) =>
+        this.sameAccountNumber(candidate.accountNumber, data.accountNumber) &&
+        (!candidate.branchCode || candidate.branchCode.trim() === branchCode?.trim())
+    );
+    if (!mapping) {
+      throw new ConfigurationError(
+        `Unknown account number ${data.accountNumber}` +
+          (branchCode ? ` (branch ${branchCode})` : '') +
+          '. Add it to converter.accounts or pass --account',
+        'config.json'
+      );
+    }
+
+    return this.fromMapping(mapping, data);
+  }
+
+  /**
+   * Compares account numbers by their digits, so CCC, IBAN and spaced forms of
+   * the same account match each other
+   */
+  static sameAccountNumber(a: string, b: string): boolean {
+    const digitsA = a.replace(/\D/g, '');
+    const digitsB = b.replace(/\D/g, '');
+    const [shorter, longer] =
+      digitsA.length <= digitsB.length ? [digitsA, digitsB] : [digitsB, digitsA];
+    return shorter.length >= MIN_ACCOUNT_DIGITS && longer.endsWith(shorter);
+  }
+
+  private static fromMapping(mapping: AccountMapping, data: ParsedExcelFile): ResolvedAccount {
+    if (mapping.currency && mapping.currency !== data.currency) {
+      throw new ConfigurationError(
+        `Account ${mapping.account} is configured in ${mapping.currency}, ` +
+          `but the statement for ${data.accountNumber} is in ${data.currency}`,
+        'config.json'
+      );
+    }
+    if (mapping.openDate && !/^\d{4}-\d{2}-\d{2}$/.test(mapping.openDate)) {
+      throw new ConfigurationError(
+        `Invalid openDate for account ${mapping.account}: ${mapping.openDate} (expected YYYY-MM-DD)`,
+        'config.json'
+      );
+    }
+    // The opening balance and the movements must not come before the open directive
+    const start = StatementDate.key(data.period.start);
+    if (mapping.openDate && start && mapping.openDate.replace(/-/g, '') > start) {
+      throw new ConfigurationError(
+        `openDate ${mapping.openDate} of account ${mapping.account} is after the statement start ${data.period.start}`,
+        'config.json'
+      );
+    }
+
+    return {
+      account: mapping.account,
+      currency: mapping.currency || data.currency,
+      openDate: mapping.openDate,
+    };
+  }
+}
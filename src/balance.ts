@@ -0,0 +1,118 @@
+/*
+ * caixa2bean - Convert Caixa bank statements to Beancount format
+ * Copyright (C) 2026  Kevin Curtet
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { ExcelTransaction, ParsedExcelFile } from './types.js';
+import { Money } from './money.js';
+
+export type BalanceBreakKind = 'duplicate' | 'gap' | 'closing';
+
+export interface BalanceBreak {
+  kind: BalanceBreakKind;
+  row?: number;
+  transaction?: ExcelTransaction;
+  expectedBalance: Money;
+  actualBalance: Money;
+  difference: Money;
+  message: string;
+}
+
+export interface BalanceCheckResult {
+  valid: boolean;
+  breaks: BalanceBreak[];
+}
+
+export class BalanceVerifier {
+  /**
+   * Walks the statement in chronological order and checks that every row's
+   * running balance equals the previous balance plus credit minus debit, and
+   * that the chain ends on the statement's closing balance.
+   */
+  static verify(data: ParsedExcelFile): BalanceCheckResult {
+    const breaks: BalanceBreak[] = [];
+    let previousBalance = data.openingBalance;
+    let previous: ExcelTransaction | null = null;
+
+    for (const txn of data.transactions) {
+      const expected = previousBalance.plus(this.amount(txn));
+      const actual = txn.balance;
+
+      if (!expected.equals(actual)) {
+        const kind = previous && this.isSameMovement(previous, txn) ? 'duplicate' : 'gap';
+        breaks.push(this.createBreak(kind, expected, actual, txn));
+      }
+
+      // Continue from the bank's balance so one break is reported only once
+      previousBalance = actual;
+      previous = txn;
+    }
+
+    if (!previousBalance.equals(data.closingBalance)) {
+      breaks.push(this.createBreak('closing', previousBalance, data.closingBalance));
+    }
+
+    return { valid: breaks.length === 0, breaks };
+  }
+
+  private static createBreak(
+    kind: BalanceBreakKind,
+    expectedBalance: Money,
+    actualBalance: Money,
+    txn?: ExcelTransaction
+  ): BalanceBreak {
+    const difference = actualBalance.minus(expectedBalance);
+    const location = txn?.sourceRow !== undefined ? `Row ${txn.sourceRow}` : 'Statement';
+
+    const reasons: Record<BalanceBreakKind, string> = {
+      duplicate: 'row repeats the previous movement, likely a duplicated row',
+      gap: 'missing rows or a mis-parsed amount',
+      closing: 'running balance does not end on the closing balance',
+    };
+
+    return {
+      kind,
+      row: txn?.sourceRow,
+      transaction: txn,
+      expectedBalance,
+      actualBalance,
+      difference,
+      message:
+        `${location}: expected balance ${expectedBalance.format()}, ` +
+        `got ${actualBalance.format()} (difference ${difference.format()}): ${reasons[kind]}`,
+    };
+  }
+
+  private static isSameMovement(a: ExcelTransaction, b: ExcelTransaction): boolean {
+    return (
+      a.transactionDate === b.transactionDate &&
+      this.sameAmount(a.creditAmount, b.creditAmount) &&
+      this.sameAmount(a.debitAmount, b.debitAmount) &&
+      a.balance.equals(b.balance) &&
+      a.referencia1 === b.referencia1 &&
+      a.referencia2 === b.referencia2 &&
+      a.conceptoComplementario1 === b.conceptoComplementario1
+    );
+  }
+
+  private static sameAmount(a: Money | null, b: Money | null): boolean {
+    return a === null || b === null ? a === b : a.equals(b);
+  }
+
+  private static amount(txn: ExcelTransaction): Money {
+    return (txn.creditAmount || Money.ZERO).minus(txn.debitAmount || Money.ZERO);
+  }
+}
@@ -0,0 +1,362 @@
+/*
+ * caixa2bean - Convert Caixa bank statements to Beancount format
+ * Copyright (C) 2026  Kevin Curtet
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import {
+  BeancountBalance,
+  BeancountCost,
+  BeancountPosting,
+  BeancountPrice,
+  BeancountTransaction,
+} from './types.js';
+import { Money } from './money.js';
+import { ParsingError, ValidationError } from './errors.js';
+
+/**
+ * Column at which amounts end. Numbers are right-aligned against it so that
+ * decimal points and currencies line up, like bean-format does.
+ */
+export interface BeancountLayout {
+  amountColumn: number;
+}
+
+export type BeancountEntry = BeancountTransaction | BeancountBalance;
+
+/**
+ * Beancount amount (number and currency) used as a metadata value
+ */
+export interface BeancountAmount {
+  amount: Money;
+  currency: string;
+}
+
+const POSTING_INDENT = '  ';
+const POSTING_METADATA_INDENT = '    ';
+const MIN_AMOUNT_GAP = 2;
+const METADATA_KEY = /^[a-z][a-zA-Z0-9_-]*$/;
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+export class BeancountWriter {
+  /**
+   * Renders entries separated by blank lines, sharing one amount column
+   */
+  static formatEntries(entries: BeancountEntry[]): string {
+    const layout = this.layoutFor(entries);
+    return entries.map((entry) => this.formatEntry(entry, layout)).join('\n\n');
+  }
+
+  static formatEntry(
+    entry: BeancountEntry,
+    layout: BeancountLayout = this.layoutFor([entry])
+  ): string {
+    return 'postings' in entry
+      ? this.formatTransaction(entry, layout)
+      : this.formatBalance(entry, layout);
+  }
+
+  /**
+   * Computes the amount column that fits every amount line of the entries
+   */
+  static layoutFor(entries: BeancountEntry[]): BeancountLayout {
+    let amountColumn = 0;
+    for (const entry of entries) {
+      for (const [prefix, amount] of this.amountLines(entry)) {
+        const width = prefix.length + MIN_AMOUNT_GAP + amount.format().length;
+        amountColumn = Math.max(amountColumn, width);
+      }
+    }
+    return { amountColumn };
+  }
+
+  static formatTransaction(
+    txn: BeancountTransaction,
+    layout: BeancountLayout = this.layoutFor([txn])
+  ): string {
+    const header = [txn.date, txn.flag];
+    if (txn.payee !== undefined) {
+      header.push(this.quote(txn.payee), this.quote(txn.narration));
+    } else if (txn.narration) {
+      header.push(this.quote(txn.narration));
+    }
+    header.push(...(txn.tags || []).map((tag) => `#${tag}`));
+    header.push(...(txn.links || []).map((link) => `^${link}`));
+
+    const lines = [header.join(' ')];
+    lines.push(...this.formatMetadata(txn.metadata, POSTING_INDENT));
+    for (const posting of txn.postings) {
+      lines.push(this.formatPosting(posting, layout));
+      lines.push(...this.formatMetadata(posting.metadata, POSTING_METADATA_INDENT));
+    }
+
+    return lines.join('\n');
+  }
+
+  static formatPosting(
+    posting: BeancountPosting,
+    layout: BeancountLayout = { amountColumn: 0 }
+  ): string {
+    let line = this.alignAmount(this.postingPrefix(posting), posting.amount, layout);
+    line += ` ${posting.currency}`;
+    if (posting.cost) {
+      line += ` ${this.formatCost(posting.cost)}`;
+    }
+    if (posting.price) {
+      line += ` @ ${this.formatAmount(posting.price)}`;
+    }
+    return line;
+  }
+
+  static formatBalance(
+    balance: BeancountBalance,
+    layout: BeancountLayout = { amountColumn: 0 }
+  ): string {
+    const line = this.alignAmount(this.balancePrefix(balance), balance.amount, layout);
+    return `${line} ${balance.currency}`;
+  }
+
+  static formatCost(cost: BeancountCost): string {
+    const parts = [this.formatAmount(cost)];
+    if (cost.date) parts.push(cost.date);
+    if (cost.label !== undefined) parts.push(this.quote(cost.label));
+    return `{${parts.join(', ')}}`;
+  }
+
+  /**
+   * Renders a metadata value by its type: strings are quoted, Money is a
+   * number, { amount, currency } an amount, booleans TRUE/FALSE and null an
+   * empty value. Date objects become YYYY-MM-DD dates.
+   */
+  static formatMetadataValue(value: unknown): string {
+    if (value === null || value === undefined) return '';
+    if (typeof value === 'string') return this.quote(value);
+    if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+    if (value instanceof Money) return value.toString();
+    if (typeof value === 'number' || typeof value === 'bigint') {
+      return Money.parseDecimal(value.toString()).toString();
+    }
+    if (value instanceof Date) return value.toISOString().slice(0, 10);
+    if (this.isAmount(value)) return this.formatAmount(value);
+    throw new ValidationError(`Unsupported metadata value: ${JSON.stringify(value)}`, 'metadata');
+  }
+
+  /**
+   * Quotes a string, escaping backslashes and double quotes
+   */
+  static quote(text: string): string {
+    return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+  }
+
+  private static formatMetadata(
+    metadata: Record<string, unknown> | undefined,
+    indent: string
+  ): string[] {
+    return Object.entries(metadata || {}).map(([key, value]) => {
+      if (!METADATA_KEY.test(key)) {
+        throw new ValidationError(`Invalid metadata key: ${key}`, 'metadata');
+      }
+      const rendered = this.formatMetadataValue(value);
+      return rendered ? `${indent}${key}: ${rendered}` : `${indent}${key}:`;
+    });
+  }
+
+  private static formatAmount(amount: BeancountAmount | BeancountPrice): string {
+    return `${amount.amount.format()} ${amount.currency}`;
+  }
+
+  private static alignAmount(prefix: string, amount: Money, layout: BeancountLayout): string {
+    const number = amount.format();
+    const gap = Math.max(MIN_AMOUNT_GAP, layout.amountColumn - prefix.length - number.length);
+    return `${prefix}${' '.repeat(gap)}${number}`;
+  }
+
+  private static amountLines(entry: BeancountEntry): [string, Money][] {
+    if ('postings' in entry) {
+      return entry.postings.map((posting) => [this.postingPrefix(posting), posting.amount]);
+    }
+    return [[this.balancePrefix(entry), entry.amount]];
+  }
+
+  private static postingPrefix(posting: BeancountPosting): string {
+    return `${POSTING_INDENT}${posting.flag ? `${posting.flag} ` : ''}${posting.account}`;
+  }
+
+  private static balancePrefix(balance: BeancountBalance): string {
+    return `${balance.date} balance ${balance.account}`;
+  }
+
+  private static isAmount(value: unknown): value is BeancountAmount {
+    return (
+      typeof value === 'object' &&
+      value !== null &&
+      (value as BeancountAmount).amount instanceof Money &&
+      typeof (value as BeancountAmount).currency === 'string'
+    );
+  }
+}
+
+export class BeancountReader {
+  /**
+   * Parses one transaction as written by BeancountWriter back into its
+   * structure. Metadata numbers come back as Money and dates as strings.
+   */
+  static parseTransaction(text: string): BeancountTransaction {
+    const lines = text.split(/\r?\n/).filter((line) => line.trim() && !/^\s*;/.test(line));
+    if (lines.length === 0) {
+      throw new ParsingError('Empty transaction');
+    }
+
+    const txn = this.parseHeader(lines[0]);
+    let posting: BeancountPosting | null = null;
+
+    for (let i = 1; i < lines.length; i++) {
+      const line = lines[i];
+      const metadata = line.match(/^(\s+)([a-z][a-zA-Z0-9_-]*):\s*(.*)$/);
+      if (metadata) {
+        const target = posting && metadata[1].length > POSTING_INDENT.length ? posting : txn;
+        target.metadata = {
+          ...target.metadata,
+          [metadata[2]]: this.parseMetadataValue(metadata[3], i + 1),
+        };
+        continue;
+      }
+
+      posting = this.parsePosting(line, i + 1);
+      txn.postings.push(posting);
+    }
+
+    return txn;
+  }
+
+  static parseMetadataValue(text: string, row?: number): unknown {
+    const value = text.trim();
+    if (value === '') return null;
+    if (value.startsWith('"')) {
+      const [parsed, rest] = this.readString(value, row);
+      if (rest.trim()) throw new ParsingError(`Unexpected text after string: ${rest}`, row);
+      return parsed;
+    }
+    if (value === 'TRUE' || value === 'FALSE') return value === 'TRUE';
+    if (DATE.test(value)) return value;
+
+    const amount = value.match(/^(\S+)\s+([A-Z][A-Z0-9'._-]*)$/);
+    if (amount) {
+      return { amount: this.parseNumber(amount[1], row), currency: amount[2] };
+    }
+    return this.parseNumber(value, row);
+  }
+
+  private static parseHeader(line: string): BeancountTransaction {
+    const start = line.match(/^(\d{4}-\d{2}-\d{2})\s+([*!])(.*)$/);
+    if (!start) {
+      throw new ParsingError(`Invalid transaction header: ${line}`, 1);
+    }
+
+    const strings: string[] = [];
+    const tags: string[] = [];
+    const links: string[] = [];
+    let rest = start[3].trim();
+
+    while (rest) {
+      if (rest.startsWith('"')) {
+        const [value, remaining] = this.readString(rest, 1);
+        strings.push(value);
+        rest = remaining.trim();
+        continue;
+      }
+      const token = rest.match(/^(\S+)\s*/)!;
+      if (token[1].startsWith('#')) tags.push(token[1].slice(1));
+      else if (token[1].startsWith('^')) links.push(token[1].slice(1));
+      else throw new ParsingError(`Unexpected token in transaction header: ${token[1]}`, 1);
+      rest = rest.slice(token[0].length);
+    }
+
+    if (strings.length > 2) {
+      throw new ParsingError('Transaction header has more than payee and narration', 1);
+    }
+
+    return {
+      date: start[1],
+      flag: start[2] as '*' | '!',
+      ...(strings.length === 2 ? { payee: strings[0] } : {}),
+      narration: strings[strings.length - 1] ?? '',
+      postings: [],
+      ...(tags.length > 0 ? { tags } : {}),
+      ...(links.length > 0 ? { links } : {}),
+    };
+  }
+
+  private static parsePosting(line: string, row: number): BeancountPosting {
+    const match = line.match(
+      /^\s+(?:([*!])\s+)?(\S+)\s+(\S+)\s+([A-Z][A-Z0-9'._-]*)(?:\s+\{([^}]*)\})?(?:\s+@\s+(\S+)\s+(\S+))?\s*$/
+    );
+    if (!match) {
+      throw new ParsingError(`Invalid posting: ${line.trim()}`, row);
+    }
+
+    const posting: BeancountPosting = {
+      account: match[2],
+      amount: this.parseNumber(match[3], row),
+      currency: match[4],
+    };
+    if (match[1]) posting.flag = match[1] as '*' | '!';
+    if (match[5] !== undefined) posting.cost = this.parseCost(match[5], row);
+    if (match[6] !== undefined) {
+      posting.price = { amount: this.parseNumber(match[6], row), currency: match[7] };
+    }
+    return posting;
+  }
+
+  private static parseCost(text: string, row: number): BeancountCost {
+    const match = text
+      .trim()
+      .match(/^(\S+)\s+([A-Z][A-Z0-9'._-]*)(?:\s*,\s*(\d{4}-\d{2}-\d{2}))?(?:\s*,\s*(".*"))?$/);
+    if (!match) {
+      throw new ParsingError(`Invalid cost: {${text}}`, row);
+    }
+
+    const cost: BeancountCost = { amount: this.parseNumber(match[1], row), currency: match[2] };
+    if (match[3]) cost.date = match[3];
+    if (match[4]) cost.label = this.readString(match[4], row)[0];
+    return cost;
+  }
+
+  /**
+   * Reads a quoted string at the start of text, returning it unescaped along
+   * with the remaining text
+   */
+  private static readString(text: string, row?: number): [string, string] {
+    let value = '';
+    for (let i = 1; i < text.length; i++) {
+      const char = text[i];
+      if (char === '\\' && i + 1 < text.length) {
+        value += text[++i];
+      } else if (char === '"') {
+        return [value, text.slice(i + 1)];
+      } else {
+        value += char;
+      }
+    }
+    throw new ParsingError(`Unterminated string: ${text}`, row);
+  }
+
+  private static parseNumber(text: string, row?: number): Money {
+    if (!/^[+-]?\d+(\.\d+)?$/.test(text)) {
+      throw new ParsingError(`Invalid number: ${text}`, row);
+    }
+    return Money.parseDecimal(text);
+  }
+}
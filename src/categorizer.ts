@@ -0,0 +1,179 @@
+/*
+ * caixa2bean - Convert Caixa bank statements to Beancount format
+ * Copyright (C) 2026  Kevin Curtet
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import fs from 'fs';
+import { ConfigurationError } from './errors.js';
+import { Ledger } from './ledger.js';
+
+export const DEFAULT_MODEL_PATH = 'categorizer.json';
+export const DEFAULT_CONFIDENCE_THRESHOLD = 0.8;
+
+export interface TrainingExample {
+  text: string;
+  account: string;
+}
+
+export interface Prediction {
+  account: string;
+  confidence: number; // Posterior probability of the account, 0 to 1
+}
+
+interface AccountStats {
+  documents: number;
+  tokens: Record<string, number>;
+  total: number; // Sum of the token counts
+}
+
+/**
+ * Persisted form of a trained categorizer
+ */
+export interface CategorizerModel {
+  version: 1;
+  documents: number;
+  accounts: Record<string, AccountStats>;
+}
+
+/**
+ * Multinomial naive Bayes over description tokens, learned from transactions
+ * already categorized by hand
+ */
+export class Categorizer {
+  private readonly vocabulary: number;
+
+  private constructor(private readonly model: CategorizerModel) {
+    const tokens = new Set<string>();
+    for (const stats of Object.values(model.accounts)) {
+      for (const token of Object.keys(stats.tokens)) tokens.add(token);
+    }
+    this.vocabulary = tokens.size;
+  }
+
+  static train(examples: TrainingExample[]): Categorizer {
+    const model: CategorizerModel = { version: 1, documents: 0, accounts: {} };
+    for (const { text, account } of examples) {
+      const tokens = this.tokenize(text);
+      if (tokens.length === 0) continue;
+
+      const stats = (model.accounts[account] ??= { documents: 0, tokens: {}, total: 0 });
+      stats.documents++;
+      for (const token of tokens) {
+        stats.tokens[token] = this.count(stats, token) + 1;
+        stats.total++;
+      }
+      model.documents++;
+    }
+    return new Categorizer(model);
+  }
+
+  /**
+   * Extracts training examples from a ledger: every transaction posting to
+   * one of the source accounts and exactly one other account teaches that
+   * its payee and narration belong to the other account. Split transactions
+   * are ambiguous and skipped, and so are those flagged ! or left on the
+   * unknown account, which were never categorized for sure.
+   */
+  static examplesFromLedger(
+    text: string,
+    sourceAccounts: string[],
+    unknownAccount: string = 'Expenses:Unknown'
+  ): TrainingExample[] {
+    const sources = new Set(sourceAccounts);
+    const examples: TrainingExample[] = [];
+    for (const txn of Ledger.transactions(text)) {
+      if (txn.flag === '!' || !txn.accounts.some((account) => sources.has(account))) continue;
+      const others = new Set(txn.accounts.filter((account) => !sources.has(account)));
+      if (others.size !== 1) continue;
+      const [account] = others;
+      if (account === unknownAccount) continue;
+      examples.push({ text: [txn.payee, txn.narration].filter(Boolean).join(' '), account });
+    }
+    return examples;
+  }
+
+  static load(filePath: string): Categorizer {
+    let model: CategorizerModel;
+    try {
+      model = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch (error) {
+      throw new ConfigurationError(
+        `Failed to load categorizer model: ${error instanceof Error ? error.message : error}`,
+        filePath
+      );
+    }
+    if (model?.version !== 1 || typeof model.accounts !== 'object' || model.accounts === null) {
+      throw new ConfigurationError(
+        'Unsupported categorizer model, retrain it with caixa2bean train',
+        filePath
+      );
+    }
+    return new Categorizer(model);
+  }
+
+  save(filePath: string): void {
+    fs.writeFileSync(filePath, `${JSON.stringify(this.model, null, 2)}\n`, 'utf8');
+  }
+
+  get documents(): number {
+    return this.model.documents;
+  }
+
+  get accounts(): string[] {
+    return Object.keys(this.model.accounts);
+  }
+
+  /**
+   * Returns the most probable account for a description, or null when none
+   * of its words was seen during training
+   */
+  predict(text: string): Prediction | null {
+    const tokens = Categorizer.tokenize(text).filter((token) =>
+      Object.values(this.model.accounts).some((stats) => Categorizer.count(stats, token) > 0)
+    );
+    if (tokens.length === 0) return null;
+
+    const scores = Object.entries(this.model.accounts).map(([account, stats]) => {
+      let score = Math.log(stats.documents / this.model.documents);
+      for (const token of tokens) {
+        score += Math.log((Categorizer.count(stats, token) + 1) / (stats.total + this.vocabulary));
+      }
+      return { account, score };
+    });
+
+    // Normalize the log scores into probabilities without overflowing
+    const best = scores.reduce((top, entry) => (entry.score > top.score ? entry : top));
+    const total = scores.reduce((sum, entry) => sum + Math.exp(entry.score - best.score), 0);
+    return { account: best.account, confidence: 1 / total };
+  }
+
+  // Token counts are plain objects, so guard against inherited keys like "constructor"
+  private static count(stats: AccountStats, token: string): number {
+    return Object.prototype.hasOwnProperty.call(stats.tokens, token) ? stats.tokens[token] : 0;
+  }
+
+  /**
+   * Lowercased words without accents; numbers carry no meaning here
+   */
+  static tokenize(text: string): string[] {
+    return text
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter((token) => token.length > 1 && !/^\d+$/.test(token));
+  }
+}
@@ -21,84 +21,736 @@
 import { Command } from 'commander';
 import * as fs from 'fs';
 import * as path from 'path';
-import { ExcelParser } from './parser.js';
+import * as readline from 'readline/promises';
+import { StatementParser, SUPPORTED_EXTENSIONS } from './statement.js';
+import { CsvDelimiter, CsvEncoding } from './csv.js';
 import { BeancountConverter } from './converter.js';
 import { PathValidator } from './validation.js';
-import { FileNotFoundError, InvalidFileFormatError, ValidationError } from './errors.js';
+import { AppConfig, ConfigManager, ConverterConfig } from './config.js';
+import { BalanceVerifier } from './balance.js';
+import { StatementMerger } from './merge.js';
+import { ExcelTransaction, ParsedExcelFile } from './types.js';
+import { Money } from './money.js';
+import { Ledger, LedgerIndex } from './ledger.js';
+import { RuleMatch, RuleSet } from './rules.js';
+import { Categorizer, DEFAULT_MODEL_PATH } from './categorizer.js';
+import { LedgerReview, ReviewPrompt, ReviewSession } from './review.js';
+import { RuleSuggester } from './suggest.js';
+import { DEFAULT_FIXTURES_PATH, RuleFixtures } from './fixtures.js';
+import { ConsolidationReview } from './decisions.js';
+import { Logger } from './logger.js';
+import {
+  BalanceIntegrityError,
+  ConfigurationError,
+  FileNotFoundError,
+  InvalidFileFormatError,
+  ParsingError,
+  ValidationError,
+} from './errors.js';
+
+interface ConvertOptions {
+  account?: string;
+  strict?: boolean;
+  encoding?: CsvEncoding;
+  delimiter?: CsvDelimiter;
+  ledger?: string;
+  append?: boolean;
+  explain?: boolean;
+  review?: string;
+}
+
+interface BatchOptions extends ConvertOptions {
+  output: string;
+}
+
+interface ApplyReviewOptions {
+  accept?: string[];
+  reject?: string[];
+}
+
+interface TrainOptions {
+  output?: string;
+  account?: string[];
+}
 
 const program = new Command();
 
+const logger: Logger = { warn: (message) => console.warn(message) };
+
 program
   .name('caixa2bean')
-  .description('Convert Caixa bank Excel statements to Beancount format')
+  .description('Convert Caixa bank Excel, CSV and Norma 43 statements to Beancount format')
   .version('1.0.0');
 
+/**
+ * Checks the options shared by every command that parses statements
+ */
+function validateParseOptions(options: ConvertOptions): void {
+  if (options.encoding && !['utf-8', 'latin1'].includes(options.encoding)) {
+    throw new ValidationError(
+      `Invalid encoding. Allowed: utf-8, latin1, got: ${options.encoding}`,
+      'encoding'
+    );
+  }
+  if (options.delimiter && ![';', ','].includes(options.delimiter)) {
+    throw new ValidationError(
+      `Invalid delimiter. Allowed: ; or ,, got: ${options.delimiter}`,
+      'delimiter'
+    );
+  }
+}
+
+/**
+ * Validates a statement path and makes sure the file exists
+ */
+function validateInputFile(input: string, baseDir: string = process.cwd()): void {
+  PathValidator.validateSafePath(input, baseDir);
+  PathValidator.validateFileExtension(input, SUPPORTED_EXTENSIONS);
+  if (!fs.existsSync(input)) {
+    throw new FileNotFoundError(input);
+  }
+}
+
+/**
+ * Expands directories into the statement files they contain, sorted by name.
+ * Paths must stay inside baseDir, the working directory unless a review
+ * file names the one its conversion ran in.
+ */
+function collectInputFiles(inputs: string[], baseDir: string = process.cwd()): string[] {
+  const files: string[] = [];
+  for (const input of inputs) {
+    PathValidator.validateSafePath(input, baseDir);
+    if (fs.existsSync(input) && fs.statSync(input).isDirectory()) {
+      const entries = fs
+        .readdirSync(input)
+        .filter((entry) => SUPPORTED_EXTENSIONS.includes(path.extname(entry).toLowerCase()))
+        .sort();
+      files.push(...entries.map((entry) => path.join(input, entry)));
+    } else {
+      validateInputFile(input, baseDir);
+      files.push(input);
+    }
+  }
+  return files;
+}
+
+/**
+ * Loads config.json from the working directory, completed from the defaults
+ */
+function loadConfig(): Promise<AppConfig> {
+  return ConfigManager.loadConfig(path.join(process.cwd(), 'config.json'), logger);
+}
+
+/**
+ * Categorizer model file of config.json, relative to the working directory
+ */
+function modelPath(config: ConverterConfig): string {
+  return path.resolve(process.cwd(), config.categorizer?.model || DEFAULT_MODEL_PATH);
+}
+
+/**
+ * Builds the converter from config.json, merchants.json and the trained
+ * categorizer model of the working directory
+ */
+async function loadConverter(config: AppConfig): Promise<BeancountConverter> {
+  const merchantsPath = path.join(process.cwd(), 'merchants.json');
+  const merchants = await BeancountConverter.loadMerchantConfig(merchantsPath, logger);
+  const model = modelPath(config.converter);
+  const categorizer = fs.existsSync(model) ? Categorizer.load(model) : null;
+  return BeancountConverter.compile({ config, merchants, merchantsPath, categorizer });
+}
+
+function parseStatement(
+  input: string,
+  options: ConvertOptions,
+  config: AppConfig
+): ParsedExcelFile {
+  console.log(`📄 Parsing ${input}...`);
+  return StatementParser.parseFile(input, {
+    encoding: options.encoding,
+    delimiter: options.delimiter,
+    columns: config.parser?.columns,
+    logger,
+  });
+}
+
+/**
+ * Loads the existing ledger whose transactions must not be emitted again:
+ * --ledger, or the output file itself when appending to it
+ */
+function loadExistingLedger(
+  output: string,
+  options: ConvertOptions,
+  baseDir: string = process.cwd()
+): LedgerIndex | undefined {
+  if (options.ledger) {
+    PathValidator.validateSafePath(options.ledger, baseDir);
+    PathValidator.validateFileExtension(options.ledger, ['.beancount']);
+    if (!fs.existsSync(options.ledger)) {
+      throw new FileNotFoundError(options.ledger);
+    }
+    return Ledger.readFile(options.ledger);
+  }
+  if (options.append && fs.existsSync(output)) {
+    return Ledger.readFile(output);
+  }
+  return undefined;
+}
+
+/**
+ * Verifies the running balance, converts and writes the ledger file, and
+ * updates the review file of the consolidation candidates of the inputs
+ */
+function writeLedger(
+  converter: BeancountConverter,
+  parsedData: ParsedExcelFile,
+  output: string,
+  options: ConvertOptions,
+  inputs: string[],
+  baseDir: string = process.cwd()
+): void {
+  if (parsedData.transactions.length === 0) {
+    throw new ValidationError('No transactions found in the input file', 'transactions');
+  }
+
+  // Verify the running balance before anything reaches the ledger
+  const balanceCheck = BalanceVerifier.verify(parsedData);
+  if (!balanceCheck.valid) {
+    console.warn(`⚠️  Running balance check found ${balanceCheck.breaks.length} break(s):`);
+    for (const balanceBreak of balanceCheck.breaks) {
+      console.warn(`   ${balanceBreak.message}`);
+    }
+    if (options.strict) {
+      throw new BalanceIntegrityError(
+        'Running balance check failed, no output written (--strict)',
+        balanceCheck.breaks.length
+      );
+    }
+  }
+
+  // Convert to Beancount
+  console.log(
+    `🔄 Converting ${parsedData.transactions.length} transactions to Beancount format...`
+  );
+  const existingLedger = loadExistingLedger(output, options, baseDir);
+  const reviewPath = options.review ?? ConsolidationReview.pathFor(output);
+  PathValidator.validateSafePath(reviewPath, baseDir);
+  const previousReview = fs.existsSync(reviewPath) ? ConsolidationReview.load(reviewPath) : null;
+  const { output: beancountOutput, reviewCandidates: pending } = converter.convert(
+    parsedData,
+    options.account,
+    existingLedger,
+    { explain: options.explain, decisions: ConsolidationReview.decisions(previousReview) }
+  );
+  const written = Ledger.parse(beancountOutput).importIds.size;
+
+  // Ensure output directory exists
+  const outputDir = path.dirname(output);
+  if (!fs.existsSync(outputDir)) {
+    fs.mkdirSync(outputDir, { recursive: true });
+  }
+
+  // Keep the decisions made so far and list the candidates still to review
+  if (pending.length > 0 || previousReview) {
+    const { account, encoding, delimiter, ledger, append, explain } = options;
+    const source = ConsolidationReview.storeSource(
+      { inputs, output, account, encoding, delimiter, ledger, append, explain },
+      reviewPath,
+      baseDir
+    );
+    ConsolidationReview.save(
+      reviewPath,
+      ConsolidationReview.update(previousReview, source, pending)
+    );
+  }
+  if (pending.length > 0) {
+    console.log(
+      `📝 ${pending.length} consolidation candidate(s) to review in ${reviewPath}, decide with apply-review`
+    );
+  }
+
+  // Write output file
+  if (existingLedger && written === 0) {
+    console.log('✅ No new transactions, the ledger is up to date');
+    return;
+  }
+  const appending = options.append && fs.existsSync(output);
+  if (appending) {
+    fs.appendFileSync(output, `\n${beancountOutput}\n`, 'utf8');
+  } else {
+    fs.writeFileSync(output, beancountOutput, 'utf8');
+  }
+  console.log(`✅ Successfully converted ${written} ${existingLedger ? 'new ' : ''}transactions`);
+  console.log(`💾 Output ${appending ? 'appended' : 'written'} to ${output}`);
+  console.log(`📊 Period: ${parsedData.period.start} to ${parsedData.period.end}`);
+  console.log(`💰 Opening balance: ${parsedData.openingBalance.format()} ${parsedData.currency}`);
+  console.log(`💰 Closing balance: ${parsedData.closingBalance.format()} ${parsedData.currency}`);
+}
+
+/**
+ * Prints, for every transaction, the rule that categorizes it and why each
+ * rule tried before it did not match
+ */
+function explainStatement(converter: BeancountConverter, parsedData: ParsedExcelFile): void {
+  const { transactions } = converter.consolidate(parsedData.transactions);
+  for (const txn of transactions) {
+    const amount = txn.debitAmount
+      ? `-${txn.debitAmount.format()}`
+      : `+${(txn.creditAmount ?? Money.ZERO).format()}`;
+    const description = [
+      txn.conceptoComplementario1,
+      txn.conceptoComplementario9,
+      txn.conceptoComplementario2,
+    ]
+      .filter(Boolean)
+      .join(' - ');
+    console.log(`\n${txn.transactionDate} ${amount} ${txn.currency} ${description}`);
+
+    const { match, checked, categorization } = converter.explain(txn);
+    for (const check of checked) {
+      const label = RuleSet.label(check.kind, check.index, check.rule);
+      console.log(`   ✗ ${label} ${check.rule.account}: ${check.reason}`);
+    }
+    const { detector, type, prediction } = categorization;
+    if (detector) {
+      console.log(`   → ${categorization.account} consolidated by the ${detector} detector`);
+      continue;
+    }
+    if (type) {
+      console.log(`   → ${categorization.account} by type ${type} (no rule matched)`);
+      continue;
+    }
+    if (prediction) {
+      const confidence = `confidence ${prediction.confidence.toFixed(2)}`;
+      const review = categorization.flag === '!' ? ', below the threshold: flagged !' : '';
+      console.log(`   → ${prediction.account} learned from the ledger (${confidence}${review})`);
+      continue;
+    }
+    if (!match) {
+      console.log('   → Expenses:Unknown (no rule matched)');
+      continue;
+    }
+    const label = RuleSet.label(match.kind, match.index, match.rule);
+    let reason: string;
+    if (match.kind === 'fallbacks') {
+      reason = `condition ${match.text}`;
+    } else if (match.score !== undefined && match.score < 1) {
+      const review = categorization.flag === '!' ? ', flagged !' : '';
+      reason = `fuzzy keyword "${match.matchedText}" in "${match.text}" (score ${match.score.toFixed(2)}${review})`;
+    } else {
+      const found = match.kind === 'rules' ? 'keyword' : 'regex match';
+      reason = `${found} "${match.matchedText}" in "${match.text}"`;
+    }
+    console.log(`   → ${match.account} via ${label}: ${reason}`);
+  }
+}
+
+/**
+ * Reads answers from the terminal, completing account names on Tab
+ */
+function terminalPrompt(accounts: string[]): ReviewPrompt & { close(): void } {
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+    completer: (line: string): [string[], string] => {
+      const typed = line.trim().toLowerCase();
+      const hits = accounts.filter((account) => account.toLowerCase().startsWith(typed));
+      return [hits.length > 0 ? hits : accounts, line];
+    },
+  });
+  // Iterating buffers lines, so piped answers are not lost between questions
+  const lines = rl[Symbol.asyncIterator]();
+  return {
+    ask: async (question) => {
+      rl.setPrompt(question);
+      rl.prompt();
+      const { value, done } = await lines.next();
+      return done ? null : value;
+    },
+    print: (text) => console.log(text),
+    close: () => rl.close(),
+  };
+}
+
+/**
+ * Groups the transactions no rule or learned category handles into
+ * suggested merchant rules, and lists the rules that never matched
+ */
+function suggestRules(converter: BeancountConverter, statements: ParsedExcelFile[]): void {
+  const seen = new Set<string>();
+  const unknown: ExcelTransaction[] = [];
+  const matches: RuleMatch[] = [];
+  let total = 0;
+
+  for (const statement of statements) {
+    const { transactions } = converter.consolidate(statement.transactions);
+    for (const txn of transactions) {
+      // Overlapping statements must not count a movement twice
+      const importId = Ledger.importId(txn);
+      if (seen.has(importId)) continue;
+      seen.add(importId);
+      total++;
+
+      const { account, match } = converter.categorize(txn);
+      if (match) matches.push(match);
+      if (account === 'Expenses:Unknown') unknown.push(txn);
+    }
+  }
+
+  const groups = RuleSuggester.group(unknown);
+  console.log(`\n🔎 ${unknown.length} of ${total} transactions fall through to Expenses:Unknown`);
+  for (const group of groups) {
+    console.log(
+      `   ${String(group.count).padStart(4)}  ${group.total.format().padStart(10)}  ${group.merchant}`
+    );
+  }
+  if (groups.length > 0) {
+    const currency = statements[0].currency;
+    const rules = groups.map((group) => RuleSuggester.toRule(group, currency));
+    console.log('\n📋 Suggested rules (replace the FIXME accounts):\n');
+    console.log(JSON.stringify(rules, null, 2));
+  }
+
+  const unused = RuleSuggester.unusedRules(converter.getMerchantRules(), matches);
+  if (unused.length > 0) {
+    console.log(`\n🪦 ${unused.length} rule(s) matched none of these transactions:`);
+    for (const { kind, index, rule } of unused) {
+      console.log(`   ${RuleSet.label(kind, index, rule)} → ${rule.account}`);
+    }
+  }
+}
+
+function reportError(error: unknown): never {
+  if (error instanceof ValidationError) {
+    console.error(`❌ Validation Error: ${error.message}`);
+    if (error.field) {
+      console.error(`   Field: ${error.field}`);
+    }
+  } else if (error instanceof FileNotFoundError) {
+    console.error(`❌ File Error: ${error.message}`);
+  } else if (error instanceof InvalidFileFormatError) {
+    console.error(`❌ Format Error: ${error.message}`);
+  } else if (error instanceof ParsingError) {
+    console.error(`❌ Parsing Error: ${error.message}`);
+    if (error.row !== undefined) {
+      console.error(`   Row: ${error.row}`);
+    }
+  } else if (error instanceof BalanceIntegrityError) {
+    console.error(`❌ Balance Error: ${error.message}`);
+  } else if (error instanceof ConfigurationError) {
+    console.error(`❌ Configuration Error: ${error.message}`);
+    if (error.configPath) {
+      console.error(`   Config: ${error.configPath}`);
+    }
+  } else {
+    console.error('❌ Unexpected Error:', error instanceof Error ? error.message : error);
+  }
+  process.exit(1);
+}
+
 program
   .command('convert')
-  .description('Convert Caixa Excel statement to Beancount')
-  .argument('<input>', 'Input Excel file path (.XLS)')
+  .description('Convert Caixa Excel, CSV or Norma 43 statement to Beancount')
+  .argument('<input>', 'Input statement file path (.XLS, .XLSX, .CSV or Norma 43 .N43)')
   .argument('<output>', 'Output Beancount file path (.beancount)')
-  .option('--account <name>', 'Beancount account name')
-  .action(async (input: string, output: string, options: { account?: string }) => {
+  .option('--account <name>', 'Beancount account name (overrides converter.accounts)')
+  .option(
+    '--encoding <encoding>',
+    'CSV/Norma 43 input encoding (utf-8 or latin1, detected by default)'
+  )
+  .option('--delimiter <char>', 'CSV field delimiter (; or ,, detected by default)')
+  .option('--strict', 'Refuse to write output when the running balance check fails')
+  .option('--ledger <file>', 'Existing Beancount ledger; transactions already in it are skipped')
+  .option('--append', 'Append new transactions to the output ledger instead of overwriting it')
+  .option('--explain', 'Record the rule that chose each account as transaction metadata')
+  .option('--review <file>', 'Consolidation review file (default: <output>.review.json)')
+  .action(async (input: string, output: string, options: ConvertOptions) => {
     try {
-      // Validate input file path
-      PathValidator.validateSafePath(input);
-      PathValidator.validateFileExtension(input, ['.xls', '.xlsx']);
-
-      // Check if input file exists
-      if (!fs.existsSync(input)) {
-        throw new FileNotFoundError(input);
-      }
+      validateInputFile(input);
+      validateParseOptions(options);
 
       // Validate output path and directory
       PathValidator.validateSafePath(output);
       PathValidator.validateOutputDirectory(output);
 
-      // Parse the Excel file
-      console.log(`📄 Parsing ${input}...`);
-      const parsedData = ExcelParser.parseFile(input);
+      const config = await loadConfig();
+      const converter = await loadConverter(config);
+      const parsedData = parseStatement(input, options, config);
+      writeLedger(converter, parsedData, output, options, [input]);
+    } catch (error) {
+      reportError(error);
+    }
+  });
 
-      if (parsedData.transactions.length === 0) {
-        throw new ValidationError('No transactions found in the input file', 'transactions');
+program
+  .command('batch')
+  .description('Merge several statements of one account into a single Beancount file')
+  .argument('<inputs...>', 'Statement files or directories containing them')
+  .requiredOption('-o, --output <file>', 'Output Beancount file path (.beancount)')
+  .option('--account <name>', 'Beancount account name (overrides converter.accounts)')
+  .option(
+    '--encoding <encoding>',
+    'CSV/Norma 43 input encoding (utf-8 or latin1, detected by default)'
+  )
+  .option('--delimiter <char>', 'CSV field delimiter (; or ,, detected by default)')
+  .option('--strict', 'Refuse to write output when the running balance check fails')
+  .option('--ledger <file>', 'Existing Beancount ledger; transactions already in it are skipped')
+  .option('--append', 'Append new transactions to the output ledger instead of overwriting it')
+  .option('--explain', 'Record the rule that chose each account as transaction metadata')
+  .option('--review <file>', 'Consolidation review file (default: <output>.review.json)')
+  .action(async (inputs: string[], options: BatchOptions) => {
+    try {
+      const files = collectInputFiles(inputs);
+      if (files.length === 0) {
+        throw new ValidationError('No statement files found in the given inputs', 'inputs');
       }
+      validateParseOptions(options);
+
+      // Validate output path and directory
+      PathValidator.validateSafePath(options.output);
+      PathValidator.validateOutputDirectory(options.output);
+
+      const config = await loadConfig();
+      const converter = await loadConverter(config);
+      const statements = files.map((file) => parseStatement(file, options, config));
 
-      // Convert to Beancount
+      const { statement, duplicates } = StatementMerger.merge(statements);
       console.log(
-        `🔄 Converting ${parsedData.transactions.length} transactions to Beancount format...`
+        `🔗 Merged ${files.length} statements, dropped ${duplicates.length} overlapping transaction(s)`
       );
-      const beancountOutput = await BeancountConverter.convert(parsedData, options.account);
+      writeLedger(converter, statement, options.output, options, inputs);
+    } catch (error) {
+      reportError(error);
+    }
+  });
+
+program
+  .command('apply-review')
+  .description('Record consolidation review decisions and convert again with them applied')
+  .argument('<review>', 'Review file written by convert or batch (.review.json)')
+  .option('--accept <ids...>', 'Candidates to consolidate')
+  .option('--reject <ids...>', 'Candidates to keep as separate transactions')
+  .action(async (reviewPath: string, options: ApplyReviewOptions) => {
+    try {
+      // The review file may be outside the working directory; it and the
+      // paths it names must stay inside the directory its conversion ran in
+      PathValidator.validateFileExtension(reviewPath, ['.json']);
+      if (!fs.existsSync(reviewPath)) {
+        throw new FileNotFoundError(reviewPath);
+      }
+      const review = ConsolidationReview.load(reviewPath);
+      const source = ConsolidationReview.resolveSource(review.source, reviewPath);
+      const { root } = source;
+      const reviewFile = path.resolve(reviewPath);
+      PathValidator.validateSafePath(reviewFile, root);
+      ConsolidationReview.decide(review, options.accept ?? [], 'accept');
+      ConsolidationReview.decide(review, options.reject ?? [], 'reject');
+      ConsolidationReview.save(reviewPath, review);
 
-      // Ensure output directory exists
-      const outputDir = path.dirname(output);
-      if (!fs.existsSync(outputDir)) {
-        fs.mkdirSync(outputDir, { recursive: true });
+      const decided = Object.keys(ConsolidationReview.decisions(review)).length;
+      console.log(`📝 ${decided} of ${review.candidates.length} candidate(s) decided`);
+      if (source.append) {
+        console.log(
+          'ℹ️  The output was appended to, so it is left as it is; the decisions apply from the next conversion'
+        );
+        return;
       }
 
-      // Write output file
-      fs.writeFileSync(output, beancountOutput, 'utf8');
-      console.log(`✅ Successfully converted ${parsedData.transactions.length} transactions`);
-      console.log(`💾 Output written to ${output}`);
-      console.log(`📊 Period: ${parsedData.period.start} to ${parsedData.period.end}`);
-      console.log(
-        `💰 Opening balance: ${parsedData.openingBalance.toFixed(2)} ${parsedData.currency}`
+      // Convert the same inputs again, now with the decisions
+      const convertOptions: ConvertOptions = {
+        account: source.account,
+        encoding: source.encoding,
+        delimiter: source.delimiter,
+        ledger: source.ledger,
+        explain: source.explain,
+        review: reviewFile,
+      };
+      const config = await loadConfig();
+      const converter = await loadConverter(config);
+      PathValidator.validateSafePath(source.output, root);
+      const statements = collectInputFiles(source.inputs, root).map((file) =>
+        parseStatement(file, convertOptions, config)
       );
+      const statement =
+        statements.length === 1 ? statements[0] : StatementMerger.merge(statements).statement;
+      writeLedger(converter, statement, source.output, convertOptions, source.inputs, root);
+    } catch (error) {
+      reportError(error);
+    }
+  });
+
+program
+  .command('train')
+  .description('Learn categories from the transactions of an existing Beancount ledger')
+  .argument('<ledger>', 'Existing Beancount ledger (.beancount)')
+  .option('-o, --output <file>', 'Model file (default: converter.categorizer.model)')
+  .option(
+    '--account <name...>',
+    'Bank accounts whose counterpart postings are learned (default: converter accounts)'
+  )
+  .action(async (ledger: string, options: TrainOptions) => {
+    try {
+      PathValidator.validateSafePath(ledger);
+      PathValidator.validateFileExtension(ledger, ['.beancount']);
+      if (!fs.existsSync(ledger)) {
+        throw new FileNotFoundError(ledger);
+      }
+
+      const { converter: config } = await loadConfig();
+      const output = options.output || config.categorizer?.model || DEFAULT_MODEL_PATH;
+      PathValidator.validateSafePath(output);
+      PathValidator.validateOutputDirectory(output);
+
+      const sources = options.account || [
+        config.defaultAccount,
+        ...(config.accounts ?? []).map((mapping) => mapping.account),
+      ];
+      const examples = Categorizer.examplesFromLedger(fs.readFileSync(ledger, 'utf8'), sources);
+      const categorizer = Categorizer.train(examples);
+      if (categorizer.documents === 0) {
+        throw new ValidationError(
+          `No categorized transactions on ${sources.join(', ')} found in the ledger`,
+          'ledger'
+        );
+      }
+
+      categorizer.save(output);
       console.log(
-        `💰 Closing balance: ${parsedData.closingBalance.toFixed(2)} ${parsedData.currency}`
+        `🧠 Learned ${categorizer.documents} transactions across ${categorizer.accounts.length} accounts`
+      );
+      console.log(`💾 Model written to ${output}`);
+    } catch (error) {
+      reportError(error);
+    }
+  });
+
+program
+  .command('review')
+  .description('Walk through unknown and low-confidence transactions of a ledger and fix them')
+  .argument('<ledger>', 'Beancount ledger written by convert (.beancount)')
+  .action(async (ledger: string) => {
+    try {
+      PathValidator.validateSafePath(ledger);
+      PathValidator.validateFileExtension(ledger, ['.beancount']);
+      if (!fs.existsSync(ledger)) {
+        throw new FileNotFoundError(ledger);
+      }
+
+      const { converter: config } = await loadConfig();
+      const text = fs.readFileSync(ledger, 'utf8');
+      const candidates = LedgerReview.candidates(text);
+      if (candidates.length === 0) {
+        console.log('✅ Nothing to review');
+        return;
+      }
+      console.log(`🔍 ${candidates.length} transaction(s) to review in ${ledger}`);
+
+      const model = modelPath(config);
+      const categorizer = fs.existsSync(model) ? Categorizer.load(model) : null;
+      const prompt = terminalPrompt(LedgerReview.knownAccounts(text));
+      const session = new ReviewSession(
+        prompt,
+        path.join(process.cwd(), 'merchants.json'),
+        categorizer
       );
+      try {
+        const summary = await session.run(text, candidates);
+        if (summary.changed > 0) {
+          fs.writeFileSync(ledger, summary.text, 'utf8');
+        }
+        console.log(
+          `\n✅ Recategorized ${summary.changed}, skipped ${summary.skipped}, added ${summary.rulesAdded.length} rule(s)`
+        );
+      } finally {
+        prompt.close();
+      }
+    } catch (error) {
+      reportError(error);
+    }
+  });
+
+const rules = program.command('rules').description('Maintain the merchant rules in merchants.json');
+
+rules
+  .command('suggest')
+  .description('Suggest rules for unmatched transactions and report rules that never match')
+  .argument('<statements...>', 'Statement files or directories containing them')
+  .option(
+    '--encoding <encoding>',
+    'CSV/Norma 43 input encoding (utf-8 or latin1, detected by default)'
+  )
+  .option('--delimiter <char>', 'CSV field delimiter (; or ,, detected by default)')
+  .action(async (inputs: string[], options: ConvertOptions) => {
+    try {
+      const files = collectInputFiles(inputs);
+      if (files.length === 0) {
+        throw new ValidationError('No statement files found in the given inputs', 'inputs');
+      }
+      validateParseOptions(options);
+
+      const config = await loadConfig();
+      const converter = await loadConverter(config);
+      const statements = files.map((file) => parseStatement(file, options, config));
+      suggestRules(converter, statements);
     } catch (error) {
-      if (error instanceof ValidationError) {
-        console.error(`❌ Validation Error: ${error.message}`);
-        if (error.field) {
-          console.error(`   Field: ${error.field}`);
+      reportError(error);
+    }
+  });
+
+rules
+  .command('test')
+  .description('Check merchants.json against sample transactions with their expected accounts')
+  .argument('[fixtures]', 'Fixtures file (JSON)', DEFAULT_FIXTURES_PATH)
+  .action(async (fixturesPath: string) => {
+    try {
+      PathValidator.validateSafePath(fixturesPath);
+      if (!fs.existsSync(fixturesPath)) {
+        throw new FileNotFoundError(fixturesPath);
+      }
+
+      const fixtures = RuleFixtures.load(fixturesPath);
+      const converter = await loadConverter(await loadConfig());
+      const results = RuleFixtures.run(fixtures, (txn) => converter.categorize(txn));
+      for (const { fixture, index, actual, flag, passed } of results) {
+        const label = `[${index}] ${fixture.description} ${Money.of(fixture.amount).format()}`;
+        const review = flag === '!' ? ' (flagged !)' : '';
+        if (passed) {
+          console.log(`   ✓ ${label} → ${actual}${review}`);
+        } else {
+          console.log(`   ✗ ${label} → ${actual}${review}, expected ${fixture.account}`);
         }
-      } else if (error instanceof FileNotFoundError) {
-        console.error(`❌ File Error: ${error.message}`);
-      } else if (error instanceof InvalidFileFormatError) {
-        console.error(`❌ Format Error: ${error.message}`);
-      } else {
-        console.error('❌ Unexpected Error:', error instanceof Error ? error.message : error);
       }
-      process.exit(1);
+
+      const failed = results.filter((result) => !result.passed).length;
+      if (failed > 0) {
+        console.error(`❌ ${failed} of ${results.length} fixtures failed`);
+        process.exit(1);
+      }
+      console.log(`✅ All ${results.length} fixtures passed`);
+    } catch (error) {
+      reportError(error);
+    }
+  });
+
+program
+  .command('explain')
+  .description('Show which merchant rule categorizes each transaction of a statement, and why')
+  .argument('<statement>', 'Input statement file path (.XLS, .XLSX, .CSV or Norma 43 .N43)')
+  .option(
+    '--encoding <encoding>',
+    'CSV/Norma 43 input encoding (utf-8 or latin1, detected by default)'
+  )
+  .option('--delimiter <char>', 'CSV field delimiter (; or ,, detected by default)')
+  .action(async (statement: string, options: ConvertOptions) => {
+    try {
+      validateInputFile(statement);
+      validateParseOptions(options);
+
+      const config = await loadConfig();
+      const converter = await loadConverter(config);
+      explainStatement(converter, parseStatement(statement, options, config));
+    } catch (error) {
+      reportError(error);
     }
   });
 
@@ -0,0 +1,120 @@
+/*
+ * caixa2bean - Convert Caixa bank statements to Beancount format
+ * Copyright (C) 2026  Kevin Curtet
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { ExcelTransaction } from './types.js';
+import { ConfigurationError } from './errors.js';
+
+/**
+ * Transaction type of each AEB concepto común code (Norma 43 appendix)
+ */
+export const CONCEPT_CODES: Record<string, { type: string; label: string }> = {
+  '01': { type: 'cash', label: 'Cheques, cash withdrawals at the counter' },
+  '02': { type: 'deposit', label: 'Deposits and cheques paid in' },
+  '03': { type: 'direct-debit', label: 'Direct debits, bills and standing orders' },
+  '04': { type: 'transfer', label: 'Transfers and internal moves' },
+  '05': { type: 'loan', label: 'Loan and credit repayments' },
+  '06': { type: 'bills', label: 'Bills of exchange remittances' },
+  '07': { type: 'securities', label: 'Subscriptions and exchanges' },
+  '08': { type: 'securities', label: 'Dividends and coupons' },
+  '09': { type: 'securities', label: 'Stock market operations' },
+  '10': { type: 'card', label: 'Fuel cheques' },
+  '11': { type: 'atm', label: 'ATM withdrawals' },
+  '12': { type: 'card', label: 'Credit and debit card payments' },
+  '13': { type: 'foreign', label: 'Foreign operations' },
+  '14': { type: 'return', label: 'Returns and unpaid items' },
+  '15': { type: 'payroll', label: 'Payroll and social security' },
+  '16': { type: 'tax', label: 'Stamp duty and brokerage' },
+  '17': { type: 'fee', label: 'Interest, fees, custody, expenses and taxes' },
+  '98': { type: 'correction', label: 'Cancellations and corrections' },
+  '99': { type: 'other', label: 'Miscellaneous' },
+};
+
+/**
+ * Accounts for types whose destination is clear without a merchant rule.
+ * A "type/direction" key applies to debits or credits only: a payroll debit
+ * is a social security charge, not salary, and a fee credit a reversal.
+ */
+export const DEFAULT_TYPE_ACCOUNTS: Record<string, string> = {
+  atm: 'Assets:Cash',
+  'fee/debit': 'Expenses:Bank:Fees',
+  'tax/debit': 'Expenses:Taxes',
+  'payroll/credit': 'Income:Salary',
+};
+
+/**
+ * Classifies transactions by their concepto común, or by the more specific
+ * concepto común/concepto propio pair, e.g. "12/040". Overrides from
+ * converter.conceptCodes take precedence over the built-in table.
+ */
+export class ConceptTable {
+  static readonly DEFAULT = new ConceptTable({});
+
+  private constructor(private readonly overrides: Record<string, string>) {}
+
+  static compile(overrides: Record<string, string> = {}, configPath?: string): ConceptTable {
+    for (const [code, type] of Object.entries(overrides)) {
+      if (!/^\d{1,2}(\/\d{1,3})?$/.test(code)) {
+        throw new ConfigurationError(
+          `Invalid concept code "${code}": expected a concepto común like "12" or "12/040"`,
+          configPath
+        );
+      }
+      if (typeof type !== 'string' || !/^[a-z][a-z0-9-]*$/.test(type)) {
+        throw new ConfigurationError(
+          `Invalid type for concept code "${code}": expected a lowercase name, got ${JSON.stringify(type)}`,
+          configPath
+        );
+      }
+    }
+
+    const normalized = Object.fromEntries(
+      Object.entries(overrides).map(([code, type]) => [this.code(code), type])
+    );
+    return new ConceptTable(normalized);
+  }
+
+  classify(txn: ExcelTransaction): string {
+    const comun = txn.conceptoComun.trim();
+    if (!comun) return 'other';
+    const common = ConceptTable.code(comun);
+    const own = ConceptTable.code(`${comun}/${txn.conceptoPropio.trim()}`);
+    return this.overrides[own] ?? this.overrides[common] ?? CONCEPT_CODES[common]?.type ?? 'other';
+  }
+
+  /**
+   * The account of the transaction's type in accounts, a key for its
+   * direction like "payroll/credit" taking precedence over a plain "payroll"
+   */
+  static accountFor(
+    accounts: Record<string, string>,
+    type: string,
+    txn: ExcelTransaction
+  ): string | undefined {
+    const direction = txn.creditAmount?.isPositive() ? 'credit' : 'debit';
+    return accounts[`${type}/${direction}`] ?? accounts[type];
+  }
+
+  /**
+   * Pads a code to its Norma 43 width: "2" is "02", "12/40" is "12/040"
+   */
+  private static code(code: string): string {
+    const [comun, propio] = code.split('/');
+    const padded = comun.padStart(2, '0');
+    return propio === undefined ? padded : `${padded}/${propio.padStart(3, '0')}`;
+  }
+}
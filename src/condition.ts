@@ -0,0 +1,587 @@
+/*
+ * caixa2bean - Convert Caixa bank statements to Beancount format
+ * Copyright (C) 2026  Kevin Curtet
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { ExcelTransaction } from './types.js';
+import { Money } from './money.js';
+import { ParsingError } from './errors.js';
+import { StatementDate } from './dates.js';
+
+export type ConditionPredicate = (txn: ExcelTransaction) => boolean;
+
+type Value =
+  | { type: 'money'; value: Money }
+  | { type: 'text'; value: string }
+  | { type: 'date'; value: string } // YYYYMMDD
+  | { type: 'weekday'; value: string }
+  | { type: 'bool'; value: boolean }
+  | { type: 'null' };
+
+type ValueType = Exclude<Value['type'], 'null'>;
+
+interface Field {
+  type: ValueType;
+  get: (txn: ExcelTransaction) => Value;
+}
+
+type Operand =
+  | { kind: 'field'; name: string; field: Field }
+  | { kind: 'literal'; value: Value; token?: Token };
+
+type ComparisonOperator = '=' | '!=' | '<' | '<=' | '>' | '>=';
+type TextOperator = 'CONTAINS' | 'STARTSWITH' | 'ENDSWITH';
+
+type Expression =
+  | { kind: 'and' | 'or'; left: Expression; right: Expression }
+  | { kind: 'not'; operand: Expression }
+  | { kind: 'compare'; operator: ComparisonOperator; left: Operand; right: Operand }
+  | { kind: 'text'; operator: TextOperator; left: Operand; right: Operand }
+  | { kind: 'matches'; left: Operand; pattern: RegExp }
+  | { kind: 'in'; left: Operand; values: Operand[] }
+  | { kind: 'between'; left: Operand; low: Operand; high: Operand }
+  | { kind: 'null'; left: Operand; negated: boolean }
+  | { kind: 'truthy'; operand: Operand };
+
+interface Token {
+  type: 'word' | 'string' | 'number' | 'operator' | '(' | ')' | ',' | 'end';
+  value: string;
+  position: number;
+}
+
+const KEYWORDS = [
+  'AND',
+  'OR',
+  'NOT',
+  'CONTAINS',
+  'MATCHES',
+  'STARTSWITH',
+  'ENDSWITH',
+  'IN',
+  'BETWEEN',
+  'IS',
+  'NULL',
+  'TRUE',
+  'FALSE',
+];
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const NULL: Value = { type: 'null' };
+
+const text = (value: string): Value => ({ type: 'text', value });
+const money = (value: Money | null): Value => (value ? { type: 'money', value } : NULL);
+const date = (value: string): Value => {
+  const key = StatementDate.key(value);
+  return key ? { type: 'date', value: key } : NULL;
+};
+const textField = (get: (txn: ExcelTransaction) => string): Field => ({
+  type: 'text',
+  get: (txn) => text(get(txn) || ''),
+});
+const moneyField = (get: (txn: ExcelTransaction) => Money | null): Field => ({
+  type: 'money',
+  get: (txn) => money(get(txn)),
+});
+const dateField = (get: (txn: ExcelTransaction) => string): Field => ({
+  type: 'date',
+  get: (txn) => date(get(txn)),
+});
+const datePart = (start: number, length: number) =>
+  moneyField((txn) => {
+    const key = StatementDate.key(txn.transactionDate);
+    return key ? Money.of(key.slice(start, start + length)) : null;
+  });
+
+const TEXT_FIELDS: (keyof ExcelTransaction)[] = [
+  'accountNumber',
+  'branchCode',
+  'currency',
+  'conceptoComun',
+  'conceptoPropio',
+  'referencia1',
+  'referencia2',
+  'conceptoComplementario1',
+  'conceptoComplementario2',
+  'conceptoComplementario3',
+  'conceptoComplementario4',
+  'conceptoComplementario5',
+  'conceptoComplementario6',
+  'conceptoComplementario7',
+  'conceptoComplementario8',
+  'conceptoComplementario9',
+  'conceptoComplementario10',
+];
+
+// Every ExcelTransaction field plus derived ones. amount is the unsigned
+// movement, signedAmount is credit minus debit.
+const FIELDS: Record<string, Field> = {
+  ...Object.fromEntries(TEXT_FIELDS.map((name) => [name, textField((txn) => txn[name] as string)])),
+  transactionDate: dateField((txn) => txn.transactionDate),
+  valueDate: dateField((txn) => txn.valueDate),
+  date: dateField((txn) => txn.transactionDate),
+  creditAmount: moneyField((txn) => txn.creditAmount),
+  debitAmount: moneyField((txn) => txn.debitAmount),
+  balance: moneyField((txn) => txn.balance),
+  amount: moneyField((txn) => txn.debitAmount || txn.creditAmount || Money.ZERO),
+  signedAmount: moneyField((txn) =>
+    (txn.creditAmount || Money.ZERO).minus(txn.debitAmount || Money.ZERO)
+  ),
+  description: textField((txn) =>
+    [txn.conceptoComplementario1, txn.conceptoComplementario9, txn.conceptoComplementario2]
+      .filter(Boolean)
+      .join(' ')
+  ),
+  direction: textField((txn) => (txn.creditAmount?.isPositive() ? 'credit' : 'debit')),
+  weekday: {
+    type: 'weekday',
+    get: (txn) => {
+      const key = StatementDate.key(txn.transactionDate);
+      if (!key) return NULL;
+      const day = new Date(Date.UTC(+key.slice(0, 4), +key.slice(4, 6) - 1, +key.slice(6, 8)));
+      return { type: 'weekday', value: WEEKDAYS[day.getUTCDay()] };
+    },
+  },
+  day: datePart(6, 2),
+  month: datePart(4, 2),
+  year: datePart(0, 4),
+};
+
+/**
+ * Compiles rule conditions such as
+ *
+ *   amount <= 2.00 AND description CONTAINS 'compra con tarjeta'
+ *   NOT (weekday IN ('saturday', 'sunday')) OR date BETWEEN '2025-12-01' AND '2025-12-31'
+ *
+ * Fields are any ExcelTransaction field plus amount, signedAmount,
+ * description, direction, date, weekday, day, month and year, and any
+ * extra text fields the caller derives. Text comparisons ignore case;
+ * MATCHES takes a case-insensitive regex.
+ */
+export class ConditionParser {
+  private tokens: Token[];
+  private index = 0;
+  private readonly fields: Record<string, Field>;
+  private readonly fieldNames: Map<string, string>;
+
+  private constructor(
+    private readonly source: string,
+    extraFields: Record<string, (txn: ExcelTransaction) => string>
+  ) {
+    this.tokens = ConditionParser.tokenize(source);
+    this.fields = { ...FIELDS };
+    for (const [name, get] of Object.entries(extraFields)) this.fields[name] = textField(get);
+    this.fieldNames = new Map(Object.keys(this.fields).map((name) => [name.toLowerCase(), name]));
+  }
+
+  /**
+   * Parses a condition into a predicate. Syntax errors throw ParsingError
+   * with the 1-based position of the offending token as column.
+   */
+  static compile(
+    source: string,
+    extraFields: Record<string, (txn: ExcelTransaction) => string> = {}
+  ): ConditionPredicate {
+    const parser = new ConditionParser(source, extraFields);
+    const expression = parser.parseOr();
+    parser.expect('end');
+    return (txn) => ConditionParser.evaluate(expression, txn);
+  }
+
+  private static tokenize(source: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < source.length) {
+      const char = source[i];
+      if (/\s/.test(char)) {
+        i++;
+        continue;
+      }
+
+      const rest = source.slice(i);
+      const operator = rest.match(/^(<=|>=|!=|<>|==|=|<|>)/);
+      const number = rest.match(/^-?\d+(\.\d+)?(?![\w.])/);
+      const word = rest.match(/^[A-Za-z_][A-Za-z0-9_]*/);
+
+      if (char === "'" || char === '"') {
+        let value = '';
+        let j = i + 1;
+        while (j < source.length && source[j] !== char) {
+          if (source[j] === '\\' && j + 1 < source.length) j++;
+          value += source[j++];
+        }
+        if (j >= source.length) {
+          throw new ParsingError(`Unterminated string at position ${i + 1}`, undefined, i + 1);
+        }
+        tokens.push({ type: 'string', value, position: i });
+        i = j + 1;
+      } else if (number) {
+        tokens.push({ type: 'number', value: number[0], position: i });
+        i += number[0].length;
+      } else if (operator) {
+        const value = operator[0] === '<>' ? '!=' : operator[0] === '==' ? '=' : operator[0];
+        tokens.push({ type: 'operator', value, position: i });
+        i += operator[0].length;
+      } else if (word) {
+        tokens.push({ type: 'word', value: word[0], position: i });
+        i += word[0].length;
+      } else if (char === '(' || char === ')' || char === ',') {
+        tokens.push({ type: char, value: char, position: i });
+        i++;
+      } else {
+        throw new ParsingError(
+          `Unexpected character '${char}' at position ${i + 1}`,
+          undefined,
+          i + 1
+        );
+      }
+    }
+
+    tokens.push({ type: 'end', value: '', position: source.length });
+    return tokens;
+  }
+
+  private parseOr(): Expression {
+    let left = this.parseAnd();
+    while (this.acceptKeyword('OR')) {
+      left = { kind: 'or', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): Expression {
+    let left = this.parseNot();
+    while (this.acceptKeyword('AND')) {
+      left = { kind: 'and', left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): Expression {
+    if (this.acceptKeyword('NOT')) {
+      return { kind: 'not', operand: this.parseNot() };
+    }
+    if (this.peek().type === '(') {
+      this.index++;
+      const expression = this.parseOr();
+      this.expect(')');
+      return expression;
+    }
+    return this.parsePredicate();
+  }
+
+  private parsePredicate(): Expression {
+    const left = this.parseOperand();
+    const token = this.peek();
+
+    if (token.type === 'operator') {
+      this.index++;
+      const right = this.parseOperand();
+      return {
+        kind: 'compare',
+        operator: token.value as ComparisonOperator,
+        left: this.coerce(left, right),
+        right: this.coerce(right, left),
+      };
+    }
+
+    const keyword = this.keyword(token);
+    const negated = keyword === 'NOT' && this.keyword(this.tokens[this.index + 1]) !== null;
+    if (negated) this.index++;
+    const operator = negated ? this.keyword(this.peek()) : keyword;
+
+    let expression: Expression;
+    switch (operator) {
+      case 'CONTAINS':
+      case 'STARTSWITH':
+      case 'ENDSWITH':
+        this.index++;
+        expression = { kind: 'text', operator, left, right: this.parseOperand() };
+        break;
+      case 'MATCHES': {
+        this.index++;
+        const patternToken = this.expect('string');
+        expression = { kind: 'matches', left, pattern: this.regex(patternToken) };
+        break;
+      }
+      case 'IN': {
+        this.index++;
+        this.expect('(');
+        const values = [this.coerce(this.parseOperand(), left)];
+        while (this.peek().type === ',') {
+          this.index++;
+          values.push(this.coerce(this.parseOperand(), left));
+        }
+        this.expect(')');
+        expression = { kind: 'in', left, values };
+        break;
+      }
+      case 'BETWEEN': {
+        this.index++;
+        const low = this.coerce(this.parseOperand(), left);
+        this.expectKeyword('AND');
+        const high = this.coerce(this.parseOperand(), left);
+        expression = { kind: 'between', left, low, high };
+        break;
+      }
+      case 'IS': {
+        if (negated) throw this.error(this.peek(), 'Unexpected IS after NOT');
+        this.index++;
+        const isNot = this.acceptKeyword('NOT');
+        this.expectKeyword('NULL');
+        return { kind: 'null', left, negated: isNot };
+      }
+      default:
+        if (negated) throw this.error(this.peek(), 'Expected an operator after NOT');
+        return { kind: 'truthy', operand: left };
+    }
+
+    return negated ? { kind: 'not', operand: expression } : expression;
+  }
+
+  private parseOperand(): Operand {
+    const token = this.peek();
+    this.index++;
+
+    switch (token.type) {
+      case 'string':
+        return { kind: 'literal', value: text(token.value), token };
+      case 'number':
+        return { kind: 'literal', value: money(Money.parse(token.value)), token };
+      case 'word': {
+        const keyword = this.keyword(token);
+        if (keyword === 'TRUE' || keyword === 'FALSE') {
+          return { kind: 'literal', value: { type: 'bool', value: keyword === 'TRUE' } };
+        }
+        if (keyword === 'NULL') {
+          return { kind: 'literal', value: NULL };
+        }
+        if (keyword) {
+          throw this.error(token, `Expected a field or value, found ${keyword}`);
+        }
+        const name = this.fieldNames.get(token.value.toLowerCase());
+        if (!name) {
+          throw this.error(token, `Unknown field '${token.value}'`);
+        }
+        return { kind: 'field', name, field: this.fields[name] };
+      }
+      default:
+        throw this.error(
+          token,
+          token.type === 'end' ? 'Unexpected end of condition' : `Unexpected '${token.value}'`
+        );
+    }
+  }
+
+  /**
+   * Converts a text literal compared with a date, amount or weekday field into
+   * that type, so that invalid literals fail when the rule is loaded
+   */
+  private coerce(operand: Operand, other: Operand): Operand {
+    if (operand.kind !== 'literal' || other.kind !== 'field') return operand;
+    if (operand.value.type !== 'text' && operand.value.type !== 'money') return operand;
+
+    const raw =
+      operand.value.type === 'text' ? operand.value.value : operand.value.value.toString();
+    const token = operand.token || this.peek();
+    switch (other.field.type) {
+      case 'date': {
+        const value = date(raw);
+        if (value.type === 'null') throw this.error(token, `Invalid date '${raw}'`);
+        return { kind: 'literal', value };
+      }
+      case 'money':
+        try {
+          return { kind: 'literal', value: money(Money.parse(raw)) };
+        } catch {
+          throw this.error(token, `Invalid amount '${raw}'`);
+        }
+      case 'weekday': {
+        const weekday = WEEKDAYS.find(
+          (day) => day === raw.toLowerCase() || day.slice(0, 3) === raw.toLowerCase()
+        );
+        if (!weekday) throw this.error(token, `Unknown weekday '${raw}'`);
+        return { kind: 'literal', value: { type: 'weekday', value: weekday } };
+      }
+      default:
+        return operand.value.type === 'money' ? { kind: 'literal', value: text(raw) } : operand;
+    }
+  }
+
+  private regex(token: Token): RegExp {
+    try {
+      return new RegExp(token.value, 'i');
+    } catch (error) {
+      throw this.error(
+        token,
+        `Invalid regular expression: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private keyword(token: Token | undefined): string | null {
+    const upper = token?.type === 'word' ? token.value.toUpperCase() : '';
+    return KEYWORDS.includes(upper) ? upper : null;
+  }
+
+  private acceptKeyword(keyword: string): boolean {
+    if (this.keyword(this.peek()) !== keyword) return false;
+    this.index++;
+    return true;
+  }
+
+  private expectKeyword(keyword: string): void {
+    if (!this.acceptKeyword(keyword)) {
+      throw this.error(this.peek(), `Expected ${keyword}`);
+    }
+  }
+
+  private expect(type: Token['type']): Token {
+    const token = this.peek();
+    if (token.type !== type) {
+      const expected =
+        type === 'end' ? 'end of condition' : type === 'string' ? 'a string' : `'${type}'`;
+      const found = token.type === 'end' ? 'end of condition' : `'${token.value}'`;
+      throw this.error(token, `Expected ${expected}, found ${found}`);
+    }
+    this.index++;
+    return token;
+  }
+
+  private error(token: Token, message: string): ParsingError {
+    return new ParsingError(
+      `${message} at position ${token.position + 1} in "${this.source}"`,
+      undefined,
+      token.position + 1
+    );
+  }
+
+  private static evaluate(expression: Expression, txn: ExcelTransaction): boolean {
+    switch (expression.kind) {
+      case 'and':
+        return this.evaluate(expression.left, txn) && this.evaluate(expression.right, txn);
+      case 'or':
+        return this.evaluate(expression.left, txn) || this.evaluate(expression.right, txn);
+      case 'not':
+        return !this.evaluate(expression.operand, txn);
+      case 'compare':
+        return this.compare(
+          expression.operator,
+          this.resolve(expression.left, txn),
+          this.resolve(expression.right, txn)
+        );
+      case 'text': {
+        const left = this.resolve(expression.left, txn);
+        const right = this.resolve(expression.right, txn);
+        if (left.type === 'null' || right.type === 'null') return false;
+        const haystack = this.asText(left).toLowerCase();
+        const needle = this.asText(right).toLowerCase();
+        if (expression.operator === 'CONTAINS') return haystack.includes(needle);
+        if (expression.operator === 'STARTSWITH') return haystack.startsWith(needle);
+        return haystack.endsWith(needle);
+      }
+      case 'matches': {
+        const left = this.resolve(expression.left, txn);
+        return left.type !== 'null' && expression.pattern.test(this.asText(left));
+      }
+      case 'in': {
+        const left = this.resolve(expression.left, txn);
+        return expression.values.some((value) => this.compare('=', left, this.resolve(value, txn)));
+      }
+      case 'between': {
+        const left = this.resolve(expression.left, txn);
+        return (
+          this.compare('>=', left, this.resolve(expression.low, txn)) &&
+          this.compare('<=', left, this.resolve(expression.high, txn))
+        );
+      }
+      case 'null':
+        return (this.resolve(expression.left, txn).type === 'null') !== expression.negated;
+      case 'truthy': {
+        const value = this.resolve(expression.operand, txn);
+        if (value.type === 'null') return false;
+        if (value.type === 'money') return !value.value.isZero();
+        if (value.type === 'bool') return value.value;
+        return value.value !== '';
+      }
+    }
+  }
+
+  private static resolve(operand: Operand, txn: ExcelTransaction): Value {
+    return operand.kind === 'field' ? operand.field.get(txn) : operand.value;
+  }
+
+  /**
+   * Compares two values; comparisons involving null are false
+   */
+  private static compare(operator: ComparisonOperator, left: Value, right: Value): boolean {
+    const order = this.order(left, right);
+    if (order === null) return false;
+    switch (operator) {
+      case '=':
+        return order === 0;
+      case '!=':
+        return order !== 0;
+      case '<':
+        return order < 0;
+      case '<=':
+        return order <= 0;
+      case '>':
+        return order > 0;
+      case '>=':
+        return order >= 0;
+    }
+  }
+
+  private static order(left: Value, right: Value): number | null {
+    if (left.type === 'null' || right.type === 'null') return null;
+
+    if (left.type === 'money' || right.type === 'money') {
+      const a = this.asMoney(left);
+      const b = this.asMoney(right);
+      return a && b ? a.compareTo(b) : null;
+    }
+    if (left.type === 'date' || right.type === 'date') {
+      const a = left.type === 'date' ? left.value : StatementDate.key(this.asText(left));
+      const b = right.type === 'date' ? right.value : StatementDate.key(this.asText(right));
+      return a && b ? a.localeCompare(b) : null;
+    }
+
+    const a = this.asText(left).toLowerCase();
+    const b = this.asText(right).toLowerCase();
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+
+  private static asMoney(value: Value): Money | null {
+    if (value.type === 'money') return value.value;
+    try {
+      return value.type === 'text' ? Money.parse(value.value) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private static asText(value: Exclude<Value, { type: 'null' }>): string {
+    if (value.type === 'money') return value.value.toString();
+    if (value.type === 'bool') return value.value ? 'true' : 'false';
+    return value.value;
+  }
+}
@@ -1,68 +1,138 @@
 import fs from 'fs/promises';
 import path from 'path';
+import { ColumnSchemaOverrides } from './types.js';
+import { Logger, SILENT_LOGGER } from './logger.js';
+import { ConfigurationError } from './errors.js';
 
 export interface ConsolidatorConfig {
   enabled: boolean;
-  requireRefund: boolean;
+  requireRefund: boolean; // Without it, holds never refunded are listed for review
   preAuthThreshold: number;
   purchaseMinAmount: number;
   purchaseMaxAmount: number;
-  timeWindowHours: number;
-  strictMode: boolean;
+  timeWindowHours: number; // How long before the refund the hold and charge may be
+  strictMode: boolean; // Hold, charge and refund must be on the same card
   manualReviewEnabled: boolean;
+  detectors?: DetectorConfig[]; // Patterns besides the built-in vending one
+}
+
+/**
+ * A hold-then-release pattern: a card hold, the real charge and the refund
+ * releasing the hold, consolidated into the real charge. Criteria are
+ * conditions in the fallback rule syntax.
+ */
+export interface DetectorConfig {
+  name: string; // A detector named like a built-in one replaces it
+  release: string; // The refund releasing the hold
+  purchase: string; // The real charge
+  hold?: string; // Extra criteria for the hold, which always equals the refund
+  merchant?: string; // Hold of a known merchant: consolidate without review
+  windowHours?: number; // Overrides timeWindowHours
+  requireRefund?: boolean; // Overrides requireRefund
+  strictMode?: boolean; // Overrides strictMode
+  account?: string; // Account of the consolidated charge, by merchant rules if unset
+  narration?: string; // Template with {hold}, {purchase}, {release} and {item}
+  items?: { maxAmount: number | string; name: string }[]; // {item} by charge amount
+}
+
+export interface AccountMapping {
+  accountNumber: string; // CCC or IBAN, spaces optional
+  branchCode?: string;
+  account: string;
+  currency?: string;
+  openDate?: string; // YYYY-MM-DD
+}
+
+export interface CategorizerConfig {
+  model?: string; // Trained model file, categorizer.json by default
+  threshold?: number; // Confidence below which a prediction is flagged !
+}
+
+export interface RefundConfig {
+  enabled?: boolean; // Link refunds to their purchases, true by default
+  condition?: string; // What a refund looks like, in the fallback condition syntax
+  windowDays?: number; // How long after the purchase the refund may come, 60 by default
+  minSimilarity?: number; // Least merchant similarity from 0 to 1, 0.8 by default
 }
 
 export interface ConverterConfig {
   defaultAccount: string;
   fallbackAccount: string;
+  accounts?: AccountMapping[];
+  categorizer?: CategorizerConfig;
+  fuzzyReviewScore?: number; // Fuzzy rule matches scoring below this are flagged !
+  conceptCodes?: Record<string, string>; // Concept code, e.g. "12" or "12/040", to type
+  typeAccounts?: Record<string, string>; // Default account of each transaction type
+  refunds?: RefundConfig;
+}
+
+export interface ParserConfig {
+  columns?: ColumnSchemaOverrides;
 }
 
 export interface AppConfig {
   consolidator: ConsolidatorConfig;
   converter: ConverterConfig;
+  parser?: ParserConfig;
 }
 
-export class ConfigManager {
-  private static config: AppConfig | null = null;
+/**
+ * What applies when there is no config.json
+ */
+export const DEFAULT_CONFIG: AppConfig = {
+  consolidator: {
+    enabled: true,
+    requireRefund: true,
+    preAuthThreshold: 2.5,
+    purchaseMinAmount: 0.5,
+    purchaseMaxAmount: 2.0,
+    timeWindowHours: 24,
+    strictMode: true,
+    manualReviewEnabled: true,
+  },
+  converter: {
+    defaultAccount: 'Assets:Bank:Caixa:Checking',
+    fallbackAccount: 'Expenses:Unknown',
+    accounts: [],
+  },
+  parser: {
+    columns: {},
+  },
+};
 
-  static async loadConfig(): Promise<AppConfig> {
-    if (this.config) return this.config;
+/**
+ * Settings given in code, each section completed from DEFAULT_CONFIG
+ */
+export type AppConfigOverrides = {
+  [Section in keyof AppConfig]?: Partial<AppConfig[Section]>;
+};
 
+export class ConfigManager {
+  /**
+   * Reads a config.json, each section completed from DEFAULT_CONFIG like
+   * resolve does, falling back to DEFAULT_CONFIG when it is missing
+   */
+  static async loadConfig(configPath: string, logger: Logger = SILENT_LOGGER): Promise<AppConfig> {
     try {
-      const configPath = path.join(process.cwd(), 'config.json');
       const configData = await fs.readFile(configPath, 'utf-8');
-      this.config = JSON.parse(configData);
-      return this.config!;
-    } catch {
-      // Fallback to default config
-      console.warn('config.json not found, using default configuration');
-      this.config = {
-        consolidator: {
-          enabled: true,
-          requireRefund: true,
-          preAuthThreshold: 2.5,
-          purchaseMinAmount: 0.5,
-          purchaseMaxAmount: 2.0,
-          timeWindowHours: 24,
-          strictMode: true,
-          manualReviewEnabled: true,
-        },
-        converter: {
-          defaultAccount: 'Assets:Bank:Caixa:Checking',
-          fallbackAccount: 'Expenses:Unknown',
-        },
-      };
-      return this.config;
+      return this.resolve(JSON.parse(configData));
+    } catch (error) {
+      if (error instanceof Error && 'code' in error && error.code === 'ENOENT') {
+        logger.warn(`${path.basename(configPath)} not found, using default configuration`);
+        return DEFAULT_CONFIG;
+      }
+      throw new ConfigurationError(
+        `Failed to load configuration: ${error instanceof Error ? error.message : error}`,
+        configPath
+      );
     }
   }
 
-  static async getConsolidatorConfig(): Promise<ConsolidatorConfig> {
-    const config = await this.loadConfig();
-    return config.consolidator;
-  }
-
-  static async getConverterConfig(): Promise<ConverterConfig> {
-    const config = await this.loadConfig();
-    return config.converter;
+  static resolve(overrides: AppConfigOverrides = {}): AppConfig {
+    return {
+      consolidator: { ...DEFAULT_CONFIG.consolidator, ...overrides.consolidator },
+      converter: { ...DEFAULT_CONFIG.converter, ...overrides.converter },
+      parser: { ...DEFAULT_CONFIG.parser, ...overrides.parser },
+    };
   }
 }
@@ -1,236 +1,433 @@
+import { createHash } from 'crypto';
 import { ExcelTransaction } from './types.js';
-import { ConfigManager, ConsolidatorConfig } from './config.js';
-
-interface ConsolidationCandidate {
+import { ConsolidatorConfig, DetectorConfig } from './config.js';
+import { Money } from './money.js';
+import { ConditionParser, ConditionPredicate } from './condition.js';
+import { ConfigurationError } from './errors.js';
+import { StatementDate } from './dates.js';
+
+export interface ConsolidationCandidate {
+  detector: string; // Name of the detector that found the pattern
   transactions: ExcelTransaction[];
+  consolidated: ExcelTransaction; // What replaces the transactions once accepted
   confidence: 'high' | 'medium' | 'low';
   reasoning: string;
-  suggestedAccount: string;
+  suggestedAccount?: string;
 }
 
-export class TransactionConsolidator {
-  private static config: ConsolidatorConfig | null = null;
-
-  static async consolidate(transactions: ExcelTransaction[]): Promise<ExcelTransaction[]> {
-    const config = await ConfigManager.getConsolidatorConfig();
-    if (!config.enabled) return transactions;
-
-    const processed = new Set<string>();
-    const consolidated: ExcelTransaction[] = [];
-    const manualReview: ConsolidationCandidate[] = [];
+/**
+ * The transactions of a statement after consolidation, and the candidates
+ * left for manual review
+ */
+export interface ConsolidationResult {
+  transactions: ExcelTransaction[];
+  reviewCandidates: ConsolidationCandidate[];
+}
 
-    // Sort by date and time
-    const sorted = transactions.sort((a, b) => {
-      const dateCompare = a.transactionDate.localeCompare(b.transactionDate);
-      if (dateCompare !== 0) return dateCompare;
-      // If same date, assume sequential order (could be improved with timestamps if available)
-      return 0;
-    });
+/**
+ * What the user decided about a candidate left for review
+ */
+export type ReviewDecision = 'accept' | 'reject';
+
+/**
+ * Recognizes one multi-transaction payment pattern. High confidence
+ * candidates are consolidated automatically, the rest left for review.
+ */
+export interface ConsolidationDetector {
+  readonly name: string;
+  /**
+   * Looks for the pattern ending at transactions[index], searching only
+   * the transactions before it
+   */
+  detect(transactions: ExcelTransaction[], index: number): ConsolidationCandidate | null;
+}
 
-    for (let i = 0; i < sorted.length; i++) {
-      if (processed.has(this.getTransactionId(sorted[i]))) continue;
-
-      const candidate = this.detectPreAuthPattern(sorted, i, config);
-      if (candidate) {
-        if (candidate.confidence === 'high') {
-          // Auto-consolidate high confidence patterns
-          const consolidatedTxn = this.createConsolidatedTransaction(candidate, config);
-          consolidated.push(consolidatedTxn);
-          candidate.transactions.forEach((txn) => processed.add(this.getTransactionId(txn)));
-        } else if (config.manualReviewEnabled) {
-          // Flag for manual review
-          manualReview.push(candidate);
-          // Still process individual transactions
-          consolidated.push(sorted[i]);
-        } else {
-          consolidated.push(sorted[i]);
-        }
-      } else {
-        consolidated.push(sorted[i]);
-      }
+/**
+ * The consolidator settings a detector falls back to
+ */
+export type DetectorDefaults = Pick<
+  ConsolidatorConfig,
+  'timeWindowHours' | 'requireRefund' | 'strictMode'
+>;
+
+/**
+ * Finds a hold, the real charge and the refund releasing the hold, all on
+ * the same card, as vending machines, fuel pumps, hotels and car rentals do.
+ * Statements only carry dates, so the window counts whole days: with 24
+ * hours the hold may be from the day before the refund.
+ */
+export class HoldReleaseDetector implements ConsolidationDetector {
+  private constructor(
+    readonly name: string,
+    private readonly config: DetectorConfig,
+    private readonly windowHours: number,
+    private readonly requireRefund: boolean,
+    private readonly strictMode: boolean,
+    private readonly release: ConditionPredicate,
+    private readonly purchase: ConditionPredicate,
+    private readonly hold: ConditionPredicate,
+    private readonly merchant: ConditionPredicate | null
+  ) {}
+
+  /**
+   * Validates a detector from config.json. Errors are plain messages for
+   * the caller to attach the detector's position to.
+   */
+  static compile(config: DetectorConfig, defaults: DetectorDefaults): HoldReleaseDetector {
+    if (typeof config !== 'object' || config === null) throw new Error('must be an object');
+    if (typeof config.name !== 'string' || !config.name) throw new Error('name must be set');
+    const windowHours = config.windowHours ?? defaults.timeWindowHours;
+    if (typeof windowHours !== 'number' || windowHours < 0) {
+      throw new Error(`windowHours must be a non-negative number, got ${windowHours}`);
+    }
+    const requireRefund = config.requireRefund ?? defaults.requireRefund;
+    const strictMode = config.strictMode ?? defaults.strictMode;
+    if (typeof requireRefund !== 'boolean' || typeof strictMode !== 'boolean') {
+      throw new Error('requireRefund and strictMode must be true or false');
+    }
+    for (const item of config.items ?? []) {
+      Money.of(item.maxAmount);
+      if (typeof item.name !== 'string') throw new Error('items need a name');
     }
 
-    // Add manual review comments to output (this will be handled in the converter)
-    this.manualReviewCandidates = manualReview;
-
-    return consolidated;
+    const condition = (key: 'release' | 'purchase' | 'hold' | 'merchant', source?: string) => {
+      if (source === undefined) return null;
+      if (typeof source !== 'string') throw new Error(`${key} must be a condition`);
+      try {
+        return ConditionParser.compile(source);
+      } catch (error) {
+        throw new Error(`${key}: ${error instanceof Error ? error.message : error}`);
+      }
+    };
+    const release = condition('release', config.release);
+    const purchase = condition('purchase', config.purchase);
+    if (!release || !purchase) throw new Error('release and purchase conditions are required');
+
+    return new HoldReleaseDetector(
+      config.name,
+      config,
+      windowHours,
+      requireRefund,
+      strictMode,
+      release,
+      purchase,
+      condition('hold', config.hold) ?? (() => true),
+      condition('merchant', config.merchant)
+    );
   }
 
-  private static manualReviewCandidates: ConsolidationCandidate[] = [];
-
-  static getManualReviewCandidates(): ConsolidationCandidate[] {
-    return this.manualReviewCandidates;
+  detect(transactions: ExcelTransaction[], index: number): ConsolidationCandidate | null {
+    const txn = transactions[index];
+    if (txn.creditAmount?.isPositive() && this.release(txn)) {
+      return this.detectReleased(transactions, index);
+    }
+    if (!this.requireRefund && txn.debitAmount && this.purchase(txn)) {
+      return this.detectUnreleased(transactions, index);
+    }
+    return null;
   }
 
-  private static detectPreAuthPattern(
+  private detectReleased(
     transactions: ExcelTransaction[],
-    startIndex: number,
-    config: ConsolidatorConfig
+    index: number
   ): ConsolidationCandidate | null {
-    const candidate = transactions[startIndex];
-
-    // Check if this is a refund (start from refunds and work backwards)
-    if (!this.isRefundCandidate(candidate)) return null;
-
-    // Look backwards for the actual purchase
-    const purchase = this.findPrecedingPurchase(transactions, startIndex, candidate, config);
+    const release = transactions[index];
+    const refund = release.creditAmount!;
+
+    const purchase = this.findBefore(
+      transactions,
+      index,
+      (txn) => !!txn.debitAmount && this.purchase(txn)
+    );
     if (!purchase) return null;
 
-    // Look backwards for the pre-auth charge
-    const preAuth = this.findPrecedingPreAuth(transactions, startIndex, candidate, purchase);
-    if (!preAuth) return null;
+    // The hold is released in full, so it is a charge of the refunded amount
+    const hold = this.findBefore(
+      transactions,
+      index,
+      (txn) => txn !== purchase && !!txn.debitAmount?.equals(refund) && this.hold(txn)
+    );
+    if (!hold) return null;
 
-    const patternTransactions = [preAuth, purchase, candidate];
+    // Outside strict mode the cards may differ, which makes the match less sure
+    const sameCard = [purchase, release].every((txn) => txn.referencia2 === hold.referencia2);
+    const known = !this.merchant || this.merchant(hold);
+    let confidence: ConsolidationCandidate['confidence'] = known ? 'high' : 'medium';
+    if (!sameCard) confidence = known ? 'medium' : 'low';
 
     return {
-      transactions: patternTransactions,
-      confidence: this.calculateConfidence(preAuth, purchase, candidate),
-      reasoning: this.generateReasoning(preAuth, purchase, candidate),
-      suggestedAccount: 'Expenses:Food:Snacks',
+      detector: this.name,
+      transactions: [hold, purchase, release],
+      consolidated: {
+        ...purchase,
+        conceptoComplementario1: this.narration(hold, purchase, release),
+        // The amount remains the actual purchase amount
+      },
+      confidence,
+      reasoning: [
+        `Pre-auth: ${describe(hold)} (${hold.debitAmount?.format()}€)`,
+        `Purchase: ${describe(purchase)} (${purchase.debitAmount?.format()}€)`,
+        `Refund: ${describe(release)} (${refund.format()}€)`,
+      ].join(', '),
+      suggestedAccount: this.config.account,
     };
   }
 
-  private static isRefundCandidate(txn: ExcelTransaction): boolean {
-    if (!txn.creditAmount || txn.creditAmount <= 0) return false;
-
-    const description = this.buildDescription(txn).toLowerCase();
-    return description.includes('devolucion') && description.includes('compra');
-  }
-
-  private static findPrecedingPurchase(
+  /**
+   * A hold followed by a smaller charge whose refund has not arrived. The
+   * held money is still missing, so this is only ever left for review.
+   */
+  private detectUnreleased(
     transactions: ExcelTransaction[],
-    refundIndex: number,
-    refund: ExcelTransaction,
-    config: ConsolidatorConfig
-  ): ExcelTransaction | null {
-    // Look backwards for a small purchase on the same date with same card
-    for (let i = refundIndex - 1; i >= 0 && i > refundIndex - 10; i--) {
-      const txn = transactions[i];
-      if (txn.transactionDate !== refund.transactionDate) break;
-      if (txn.referencia2 !== refund.referencia2) continue;
-
-      if (
-        txn.debitAmount &&
-        txn.debitAmount >= config.purchaseMinAmount &&
-        txn.debitAmount <= config.purchaseMaxAmount &&
-        this.buildDescription(txn).toLowerCase().includes('compra con tarjeta')
-      ) {
-        return txn;
-      }
-    }
-    return null;
+    index: number
+  ): ConsolidationCandidate | null {
+    const purchase = transactions[index];
+    const hold = this.findBefore(
+      transactions,
+      index,
+      (txn) => !!txn.debitAmount?.greaterThan(purchase.debitAmount!) && this.hold(txn)
+    );
+    if (!hold) return null;
+
+    return {
+      detector: this.name,
+      transactions: [hold, purchase],
+      consolidated: { ...purchase, conceptoComplementario1: this.narration(hold, purchase, null) },
+      confidence: 'low',
+      reasoning: [
+        `Pre-auth: ${describe(hold)} (${hold.debitAmount?.format()}€)`,
+        `Purchase: ${describe(purchase)} (${purchase.debitAmount?.format()}€)`,
+        'no refund yet',
+      ].join(', '),
+      suggestedAccount: this.config.account,
+    };
   }
 
-  private static findPrecedingPreAuth(
+  /**
+   * Nearest earlier transaction within the window before transactions[index],
+   * on the same card in strict mode
+   */
+  private findBefore(
     transactions: ExcelTransaction[],
-    refundIndex: number,
-    refund: ExcelTransaction,
-    _purchase: ExcelTransaction
+    index: number,
+    predicate: (txn: ExcelTransaction) => boolean
   ): ExcelTransaction | null {
-    // Look backwards for a charge matching the refund amount
-    for (let i = refundIndex - 1; i >= 0 && i > refundIndex - 15; i--) {
+    const anchor = transactions[index];
+    const anchorDay = StatementDate.dayNumber(anchor.transactionDate);
+    for (let i = index - 1; i >= 0; i--) {
       const txn = transactions[i];
-      if (txn.transactionDate !== refund.transactionDate) break;
-      if (txn.referencia2 !== refund.referencia2) continue;
-
-      if (txn.debitAmount === refund.creditAmount) {
-        // Found a charge matching the refund amount
-        return txn;
-      }
+      const hours = (anchorDay - StatementDate.dayNumber(txn.transactionDate)) * 24;
+      if (!(hours <= this.windowHours)) break;
+      if (hours < 0 || (this.strictMode && txn.referencia2 !== anchor.referencia2)) continue;
+      if (predicate(txn)) return txn;
     }
     return null;
   }
 
-  private static calculateConfidence(
-    preAuth: ExcelTransaction,
+  private narration(
+    hold: ExcelTransaction,
     purchase: ExcelTransaction,
-    refund: ExcelTransaction
-  ): 'high' | 'medium' | 'low' {
-    let score = 0;
-
-    // Pre-auth from known vending machine
-    if (
-      this.buildDescription(preAuth).toLowerCase().includes('vending') ||
-      this.buildDescription(preAuth).toLowerCase().includes('serunion')
-    ) {
-      score += 2;
-    }
+    release: ExcelTransaction | null
+  ): string {
+    const amount = purchase.debitAmount || Money.ZERO;
+    const item =
+      this.config.items?.find(({ maxAmount }) => amount.lessThanOrEqual(maxAmount))?.name ??
+      'Purchase';
+    const values: Record<string, string> = {
+      hold: describe(hold),
+      purchase: describe(purchase),
+      release: release ? describe(release) : '',
+      item,
+    };
+    return (this.config.narration ?? '{hold}').replace(
+      /\{(hold|purchase|release|item)\}/g,
+      (_, key: string) => values[key]
+    );
+  }
+}
 
-    // Refund present and matches pre-auth amount
-    if (refund && refund.creditAmount === preAuth.debitAmount) score += 2;
+function describe(txn: ExcelTransaction): string {
+  const parts = [
+    txn.conceptoComplementario1,
+    txn.conceptoComplementario9,
+    txn.conceptoComplementario2,
+  ].filter(Boolean);
 
-    // Purchase amount in expected range
-    if (purchase.debitAmount! >= 0.5 && purchase.debitAmount! <= 1.5) score += 1;
+  return parts.join(' - ').trim() || 'Transaction';
+}
 
-    // All transactions on same card
-    if (preAuth.referencia2 === purchase.referencia2 && purchase.referencia2 === refund.referencia2)
-      score += 1;
+export class TransactionConsolidator {
+  private readonly consolidations = new WeakMap<
+    ExcelTransaction,
+    { detector: string; account: string }
+  >();
+
+  private constructor(
+    private readonly config: ConsolidatorConfig,
+    private detectors: ConsolidationDetector[]
+  ) {}
+
+  /**
+   * Builds the detectors: the built-in ones, then those of
+   * consolidator.detectors, then the given ones, later ones replacing
+   * earlier ones of the same name
+   */
+  static compile(
+    config: ConsolidatorConfig,
+    registered: ConsolidationDetector[] = []
+  ): TransactionConsolidator {
+    const detectors = new Map<string, ConsolidationDetector>();
+
+    for (const builtin of this.builtinDetectors(config)) {
+      detectors.set(builtin.name, HoldReleaseDetector.compile(builtin, config));
+    }
+    (config.detectors ?? []).forEach((detectorConfig, index) => {
+      try {
+        const detector = HoldReleaseDetector.compile(detectorConfig, config);
+        detectors.set(detector.name, detector);
+      } catch (error) {
+        throw new ConfigurationError(
+          `Invalid consolidator.detectors[${index}] (${detectorConfig?.name}): ${error instanceof Error ? error.message : error}`,
+          'config.json'
+        );
+      }
+    });
+    for (const detector of registered) detectors.set(detector.name, detector);
 
-    if (score >= 5) return 'high';
-    if (score >= 3) return 'medium';
-    return 'low';
+    return new TransactionConsolidator(config, [...detectors.values()]);
   }
 
-  private static generateReasoning(
-    preAuth: ExcelTransaction,
-    purchase: ExcelTransaction,
-    refund: ExcelTransaction
-  ): string {
-    const parts = [
-      `Pre-auth: ${this.buildDescription(preAuth)} (${preAuth.debitAmount}€)`,
-      `Purchase: ${this.buildDescription(purchase)} (${purchase.debitAmount}€)`,
-      `Refund: ${this.buildDescription(refund)} (${refund.creditAmount}€)`,
-    ];
-
-    return parts.join(', ');
+  /**
+   * Adds a detector written in code. One named like a built-in or
+   * configured detector replaces it.
+   */
+  register(detector: ConsolidationDetector): void {
+    const replaced = this.detectors.some(({ name }) => name === detector.name);
+    this.detectors = replaced
+      ? this.detectors.map((existing) => (existing.name === detector.name ? detector : existing))
+      : [...this.detectors, detector];
   }
 
-  private static createConsolidatedTransaction(
-    candidate: ConsolidationCandidate,
-    config: ConsolidatorConfig
-  ): ExcelTransaction {
-    const purchase = candidate.transactions.find(
-      (t) => t.debitAmount && t.debitAmount < config.preAuthThreshold
-    )!;
-    const preAuth = candidate.transactions.find(
-      (t) => t.debitAmount && t.debitAmount >= config.preAuthThreshold
-    )!;
-
-    // Create consolidated transaction based on the purchase
-    return {
-      ...purchase,
-      conceptoComplementario1: this.generateConsolidatedDescription(preAuth, purchase),
-      // The amount remains the actual purchase amount
-    };
+  getDetectors(): ConsolidationDetector[] {
+    return this.detectors;
   }
 
-  private static generateConsolidatedDescription(
-    preAuth: ExcelTransaction,
-    purchase: ExcelTransaction
-  ): string {
-    const preAuthDesc = this.buildDescription(preAuth);
-    const purchaseAmount = purchase.debitAmount || 0;
+  /**
+   * Replaces the patterns the detectors find by their consolidated
+   * transaction. Candidates below high confidence are consolidated when
+   * accepted in decisions (by candidate id), kept as they are when rejected
+   * and otherwise left for manual review.
+   */
+  consolidate(
+    transactions: ExcelTransaction[],
+    decisions: Record<string, ReviewDecision> = {}
+  ): ConsolidationResult {
+    if (!this.config.enabled) return { transactions, reviewCandidates: [] };
 
-    // Try to infer item type from amount
-    let itemType = 'Item';
-    if (purchaseAmount <= 0.6) itemType = 'Snack';
-    else if (purchaseAmount <= 1.2) itemType = 'Drink';
-    else itemType = 'Purchase';
+    const claimed = new Set<ExcelTransaction>();
+    const replacements = new Map<number, ExcelTransaction>();
+    const manualReview: ConsolidationCandidate[] = [];
 
-    return `${preAuthDesc} - ${itemType}`;
+    // Statements listing the newest movement first are reversed, so that
+    // the stable sort by date keeps each day's movements in the order they
+    // happened
+    const newestFirst =
+      transactions.length > 1 &&
+      StatementDate.dayNumber(transactions[0].transactionDate) >
+        StatementDate.dayNumber(transactions[transactions.length - 1].transactionDate);
+    const sorted = (newestFirst ? [...transactions].reverse() : [...transactions]).sort(
+      (a, b) =>
+        StatementDate.dayNumber(a.transactionDate) - StatementDate.dayNumber(b.transactionDate) || 0
+    );
+
+    for (let i = 0; i < sorted.length; i++) {
+      for (const detector of this.detectors) {
+        const candidate = detector.detect(sorted, i);
+        if (!candidate || candidate.transactions.some((txn) => claimed.has(txn))) continue;
+
+        const decision = decisions[TransactionConsolidator.getCandidateId(candidate)];
+        if (candidate.confidence === 'high' || decision === 'accept') {
+          // Auto-consolidate high confidence patterns in place of their last transaction
+          candidate.transactions.forEach((txn) => claimed.add(txn));
+          replacements.set(i, candidate.consolidated);
+          if (candidate.suggestedAccount) {
+            this.consolidations.set(candidate.consolidated, {
+              detector: candidate.detector,
+              account: candidate.suggestedAccount,
+            });
+          }
+        } else if (this.config.manualReviewEnabled && decision !== 'reject') {
+          // Flag for manual review, keeping the individual transactions
+          manualReview.push(candidate);
+        }
+        break;
+      }
+    }
+
+    // Leave the rest for manual review, except for candidates consolidated
+    // or covered by a larger candidate
+    const covered = (candidate: ConsolidationCandidate) =>
+      manualReview.some(
+        (other) =>
+          other.transactions.length > candidate.transactions.length &&
+          candidate.transactions.every((txn) => other.transactions.includes(txn))
+      );
+    const reviewCandidates = manualReview.filter(
+      (candidate) => !candidate.transactions.some((txn) => claimed.has(txn)) && !covered(candidate)
+    );
+
+    const consolidated = sorted.flatMap((txn, i) => {
+      const replacement = replacements.get(i);
+      if (replacement) return [replacement];
+      return claimed.has(txn) ? [] : [txn];
+    });
+    return { transactions: consolidated, reviewCandidates };
   }
 
-  private static buildDescription(txn: ExcelTransaction): string {
-    const parts = [
-      txn.conceptoComplementario1,
-      txn.conceptoComplementario9,
-      txn.conceptoComplementario2,
-    ].filter(Boolean);
+  /**
+   * The detector and account of a transaction consolidate produced, when
+   * the detector books it to a fixed account
+   */
+  getConsolidation(txn: ExcelTransaction): { detector: string; account: string } | null {
+    return this.consolidations.get(txn) ?? null;
+  }
+
+  /**
+   * Vending machines hold a few euros, charge the product and release the
+   * hold with a "devolucion compra" refund
+   */
+  private static builtinDetectors(config: ConsolidatorConfig): DetectorConfig[] {
+    return [
+      {
+        name: 'vending',
+        release: "description CONTAINS 'devolucion' AND description CONTAINS 'compra'",
+        purchase: `amount BETWEEN ${config.purchaseMinAmount} AND ${config.purchaseMaxAmount} AND description CONTAINS 'compra con tarjeta'`,
+        hold: `amount >= ${config.preAuthThreshold}`,
+        merchant: "description CONTAINS 'vending' OR description CONTAINS 'serunion'",
+        account: 'Expenses:Food:Snacks',
+        narration: '{hold} - {item}',
+        items: [
+          { maxAmount: '0.60', name: 'Snack' },
+          { maxAmount: '1.20', name: 'Drink' },
+        ],
+      },
+    ];
+  }
 
-    return parts.join(' - ').trim() || 'Transaction';
+  /**
+   * Stable id of a candidate across runs, from the movements it groups
+   */
+  static getCandidateId(candidate: ConsolidationCandidate): string {
+    const key = candidate.transactions
+      .map((txn) => `${txn.accountNumber}|${this.getTransactionId(txn)}`)
+      .join(',');
+    return createHash('sha256').update(key).digest('hex').slice(0, 12);
   }
 
-  private static getTransactionId(txn: ExcelTransaction): string {
-    return `${txn.transactionDate}-${txn.referencia2}-${txn.debitAmount || 0}-${txn.creditAmount || 0}`;
+  /**
+   * Identifies a movement by date, card reference, amounts and running balance
+   */
+  static getTransactionId(txn: ExcelTransaction): string {
+    return `${txn.transactionDate}-${txn.referencia2}-${txn.debitAmount || Money.ZERO}-${txn.creditAmount || Money.ZERO}-${txn.balance}`;
   }
 }
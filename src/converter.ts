@@ -21,77 +21,168 @@ import {
   ExcelTransaction,
   BeancountTransaction,
   BeancountPosting,
+  BeancountBalance,
+  BeancountOpen,
 } from './types.js';
 import fs from 'fs/promises';
 import path from 'path';
-import { TransactionConsolidator } from './consolidator.js';
-import { ConfigManager } from './config.js';
+import {
+  ConsolidationCandidate,
+  ConsolidationDetector,
+  ConsolidationResult,
+  ReviewDecision,
+  TransactionConsolidator,
+} from './consolidator.js';
+import { AppConfig, ConverterConfig } from './config.js';
 import { ConfigurationError } from './errors.js';
-
-interface MerchantRule {
-  keywords: string[];
+import { Money } from './money.js';
+import { StatementDate } from './dates.js';
+import { IMPORT_ID_KEY, Ledger, LedgerIndex, LedgerPurchase } from './ledger.js';
+import { BeancountWriter } from './beancount.js';
+import { AccountResolver } from './accounts.js';
+import { PostingSplitter } from './split.js';
+import { DEFAULT_FUZZY_REVIEW_SCORE } from './fuzzy.js';
+import {
+  DEFAULT_MERCHANT_CONFIG,
+  MerchantConfig,
+  RuleExplanation,
+  RuleMatch,
+  RuleSet,
+} from './rules.js';
+import { Categorizer, DEFAULT_CONFIDENCE_THRESHOLD, Prediction } from './categorizer.js';
+import { ConceptTable, DEFAULT_TYPE_ACCOUNTS } from './concepts.js';
+import { RefundLink, RefundMatcher } from './refunds.js';
+import { Logger, SILENT_LOGGER } from './logger.js';
+
+export const RULE_KEY = 'rule';
+
+/**
+ * How the account of a transaction was chosen: by the purchase a refund
+ * returns, else by the detector that consolidated it, else by a merchant
+ * rule, else by the default account of its type, else by the learned
+ * categorizer, else Expenses:Unknown
+ */
+export interface Categorization {
   account: string;
-  description?: string;
+  flag: '*' | '!'; // ! for unsure learned categories and borderline fuzzy matches
+  detector: string | null; // Set when a consolidation detector chose the account
+  match: RuleMatch | null;
+  type: string | null; // Set when the account is the default of this transaction type
+  prediction: Prediction | null;
+  refundOf: ExcelTransaction | LedgerPurchase | null; // The refunded purchase, whose account this is
 }
 
-interface PatternRule {
-  regex: string;
-  account: string;
-  description?: string;
+export interface CategorizationExplanation extends RuleExplanation {
+  categorization: Categorization;
 }
 
-interface FallbackRule {
-  condition: string;
-  account: string;
-  description?: string;
+/**
+ * What a converter is built from. Nothing is read from disk or the working
+ * directory: the CLI loads config.json, merchants.json and the categorizer
+ * model and passes them in.
+ */
+export interface ConverterSettings {
+  config: AppConfig;
+  merchants?: MerchantConfig; // DEFAULT_MERCHANT_CONFIG when unset
+  merchantsPath?: string; // Where the merchants came from, for error messages
+  categorizer?: Categorizer | null; // Trained on an existing ledger
+  detectors?: ConsolidationDetector[]; // Consolidation detectors written in code
+}
+
+/**
+ * A converted statement, both as Beancount text and as the directives it
+ * holds
+ */
+export interface Conversion {
+  output: string;
+  open: BeancountOpen | null; // Unless the existing ledger opened the account
+  transactions: BeancountTransaction[]; // Opening balance first, when there is one
+  balance: BeancountBalance | null; // Closing assertion, unless the ledger holds it
+  skipped: number; // Transactions the existing ledger already holds
+  reviewCandidates: ConsolidationCandidate[]; // Consolidation candidates left for review
 }
 
-interface MerchantConfig {
-  rules: MerchantRule[];
-  patterns: PatternRule[];
-  fallbacks?: FallbackRule[];
+export interface ConversionOptions {
+  explain?: boolean; // Record the rule that chose each account as metadata
+  decisions?: Record<string, ReviewDecision>; // Reviewed consolidation candidates by id
 }
 
 export class BeancountConverter {
-  private static merchantConfig: MerchantConfig | null = null;
+  private constructor(
+    private readonly config: ConverterConfig,
+    private readonly merchantRules: RuleSet,
+    private readonly concepts: ConceptTable,
+    private readonly consolidator: TransactionConsolidator,
+    private readonly refunds: RefundMatcher | null,
+    private readonly categorizer: Categorizer | null,
+    private readonly confidenceThreshold: number
+  ) {}
+
+  static compile(settings: ConverterSettings): BeancountConverter {
+    const config = settings.config.converter;
+    const threshold = config.categorizer?.threshold ?? DEFAULT_CONFIDENCE_THRESHOLD;
+    if (typeof threshold !== 'number' || threshold < 0 || threshold > 1) {
+      throw new ConfigurationError(
+        `converter.categorizer.threshold must be between 0 and 1, got ${JSON.stringify(threshold)}`
+      );
+    }
 
-  private static async loadMerchantConfig(): Promise<MerchantConfig> {
-    if (this.merchantConfig) return this.merchantConfig;
+    const concepts = ConceptTable.compile(config.conceptCodes, 'config.json');
+    const merchantRules = RuleSet.compile(
+      settings.merchants ?? DEFAULT_MERCHANT_CONFIG,
+      settings.merchantsPath,
+      concepts
+    );
+    const refunds = config.refunds ?? {};
+    return new BeancountConverter(
+      config,
+      merchantRules,
+      concepts,
+      TransactionConsolidator.compile(settings.config.consolidator, settings.detectors),
+      refunds.enabled === false ? null : RefundMatcher.compile(refunds),
+      settings.categorizer ?? null,
+      threshold
+    );
+  }
 
-    const configPath = path.join(process.cwd(), 'merchants.json');
+  /**
+   * Reads the merchant rules of a merchants.json, falling back to the
+   * built-in rules when it is missing
+   */
+  static async loadMerchantConfig(
+    filePath: string,
+    logger: Logger = SILENT_LOGGER
+  ): Promise<MerchantConfig> {
     try {
-      const configData = await fs.readFile(configPath, 'utf-8');
-      this.merchantConfig = JSON.parse(configData);
-      return this.merchantConfig!;
+      const configData = await fs.readFile(filePath, 'utf-8');
+      return JSON.parse(configData);
     } catch (error) {
       if (error instanceof Error && 'code' in error && error.code === 'ENOENT') {
         // File doesn't exist, use fallback
-        console.warn('merchants.json not found, using fallback categorization');
-        this.merchantConfig = {
-          rules: [
-            { keywords: ['shell', 'fuel', 'gas'], account: 'Expenses:Transportation:Fuel' },
-            { keywords: ['amazon', 'lidl'], account: 'Expenses:Groceries' },
-            { keywords: ['bizum', 'transfer'], account: 'Assets:Bank:Caixa:Savings' },
-            { keywords: ['income', 'salary', 'haber'], account: 'Income:Salary' },
-            { keywords: ['vending', 'snack'], account: 'Expenses:Food:Snacks' },
-            { keywords: ['steam', 'game'], account: 'Expenses:Entertainment:Games' },
-          ],
-          patterns: [],
-          fallbacks: [],
-        };
-        return this.merchantConfig;
-      } else {
-        throw new ConfigurationError(
-          `Failed to load merchant configuration: ${error instanceof Error ? error.message : error}`,
-          configPath
-        );
+        logger.warn(`${path.basename(filePath)} not found, using fallback categorization`);
+        return DEFAULT_MERCHANT_CONFIG;
       }
+      throw new ConfigurationError(
+        `Failed to load merchant configuration: ${error instanceof Error ? error.message : error}`,
+        filePath
+      );
     }
   }
 
-  static async convert(data: ParsedExcelFile, accountName?: string): Promise<string> {
-    const config = await ConfigManager.getConverterConfig();
-    const defaultAccount = accountName || config.defaultAccount;
+  /**
+   * Converts a statement to Beancount. When the existing ledger is given, only
+   * transactions whose import id it does not hold yet are emitted, and the
+   * open directive, opening balance and closing assertion are written only
+   * when the ledger lacks them.
+   */
+  convert(
+    data: ParsedExcelFile,
+    accountName?: string,
+    ledger?: LedgerIndex,
+    options: ConversionOptions = {}
+  ): Conversion {
+    const target = AccountResolver.resolve(data, this.config, accountName);
+    const defaultAccount = target.account;
 
     const lines: string[] = [];
 
@@ -102,14 +193,21 @@ export class BeancountConverter {
     lines.push(`; Currency: ${data.currency}`);
     lines.push('');
 
-    // Open account
-    const startDate = this.convertDate(data.period.start);
-    lines.push(`${startDate} open ${defaultAccount} ${data.currency}`);
-    lines.push('');
+    // Open account, unless the existing ledger already did
+    const startDate = StatementDate.toIso(data.period.start);
+    const accountOpen = ledger?.openAccounts.has(defaultAccount) ?? false;
+    const open: BeancountOpen | null = accountOpen
+      ? null
+      : { date: target.openDate || startDate, account: defaultAccount, currency: target.currency };
+    if (open) {
+      lines.push(`${open.date} open ${open.account} ${open.currency}`);
+      lines.push('');
+    }
 
     // Add opening balance as initial transaction if not zero
-    if (data.openingBalance !== 0) {
-      const openingTxn: BeancountTransaction = {
+    const transactions: BeancountTransaction[] = [];
+    if (!accountOpen && !data.openingBalance.isZero()) {
+      transactions.push({
         date: startDate,
         flag: '*',
         narration: 'Opening balance',
@@ -121,39 +219,79 @@ export class BeancountConverter {
           },
           {
             account: 'Equity:Opening-Balances',
-            amount: -data.openingBalance,
+            amount: data.openingBalance.negate(),
             currency: data.currency,
           },
         ],
-      };
-      lines.push(this.formatTransaction(openingTxn));
-      lines.push('');
+      });
     }
 
     // Consolidate transactions first
-    const consolidatedTransactions = await TransactionConsolidator.consolidate(data.transactions);
+    const consolidation = this.consolidator.consolidate(data.transactions, options.decisions);
+    const consolidatedTransactions = consolidation.transactions;
+    const refundLinks = this.linkRefunds(consolidatedTransactions, defaultAccount, ledger);
 
-    // Convert transactions
+    // Convert transactions, skipping those the ledger already holds
+    let skipped = 0;
     for (const txn of consolidatedTransactions) {
-      const beancountTxn = await this.convertTransaction(txn, defaultAccount);
-      lines.push(this.formatTransaction(beancountTxn));
+      const beancountTxn = this.convertTransaction(
+        txn,
+        defaultAccount,
+        options,
+        refundLinks.get(txn)
+      );
+      if (ledger?.importIds.has(String(beancountTxn.metadata?.[IMPORT_ID_KEY]))) {
+        skipped++;
+        continue;
+      }
+      transactions.push(beancountTxn);
+    }
+
+    // Beancount checks a balance before the postings of its day, so the
+    // closing balance is asserted on the day after the period ends
+    const closingBalance: BeancountBalance = {
+      date: StatementDate.nextDay(data.period.end),
+      account: defaultAccount,
+      amount: data.closingBalance,
+      currency: data.currency,
+    };
+    const closingKnown = ledger?.balanceAssertions.has(
+      Ledger.balanceKey(closingBalance.date, defaultAccount, closingBalance.amount.format())
+    );
+
+    // Align every amount of this output on one column
+    const layout = BeancountWriter.layoutFor(
+      closingKnown ? transactions : [...transactions, closingBalance]
+    );
+    for (const txn of transactions) {
+      lines.push(BeancountWriter.formatTransaction(txn, layout));
+      lines.push('');
+    }
+    if (skipped > 0) {
+      lines.push(`; Skipped ${skipped} transactions already in the ledger`);
       lines.push('');
     }
 
-    // Add manual review comments if any
-    const manualReviews = TransactionConsolidator.getManualReviewCandidates();
+    // Add manual review comments if any, except for candidates whose
+    // transactions the existing ledger already holds
+    const manualReviews = consolidation.reviewCandidates.filter(
+      (review) => !review.transactions.every((txn) => ledger?.importIds.has(Ledger.importId(txn)))
+    );
     if (manualReviews.length > 0) {
       lines.push(';');
       lines.push('; MANUAL REVIEW REQUIRED - Potential consolidation candidates');
       lines.push(';');
       for (const review of manualReviews) {
+        lines.push(`; Review id: ${TransactionConsolidator.getCandidateId(review)}`);
         lines.push(`; Confidence: ${review.confidence}`);
         lines.push(`; Reason: ${review.reasoning}`);
-        lines.push(`; Suggested: ${review.suggestedAccount}`);
+        if (review.suggestedAccount) lines.push(`; Suggested: ${review.suggestedAccount}`);
         lines.push('; Transactions:');
         for (const txn of review.transactions) {
-          const desc = this.buildDescription(txn);
-          const amount = txn.debitAmount ? `-${txn.debitAmount}€` : `+${txn.creditAmount}€`;
+          const desc = BeancountConverter.buildDescription(txn);
+          const amount = txn.debitAmount
+            ? `-${txn.debitAmount.format()}€`
+            : `+${txn.creditAmount?.format()}€`;
           lines.push(`;   ${txn.transactionDate} ${desc} ${amount}`);
         }
         lines.push(';');
@@ -161,22 +299,45 @@ export class BeancountConverter {
     }
 
     // Add closing balance assertion
-    const endDate = this.convertDate(data.period.end);
-    lines.push(
-      `${endDate} balance ${defaultAccount}   ${data.closingBalance.toFixed(2)} ${data.currency}`
-    );
+    if (!closingKnown) {
+      lines.push(BeancountWriter.formatBalance(closingBalance, layout));
+    }
 
-    return lines.join('\n');
+    return {
+      output: lines.join('\n'),
+      open,
+      transactions,
+      balance: closingKnown ? null : closingBalance,
+      skipped,
+      reviewCandidates: manualReviews,
+    };
   }
 
-  static async convertTransaction(
-    txn: ExcelTransaction,
-    accountName: string = 'Assets:Bank:Caixa:Checking'
-  ): Promise<BeancountTransaction> {
-    const amount = (txn.creditAmount || 0) - (txn.debitAmount || 0);
+  /**
+   * Consolidates transactions as convert does, so that categorize books the
+   * consolidated ones to their detector's account
+   */
+  consolidate(
+    transactions: ExcelTransaction[],
+    decisions?: Record<string, ReviewDecision>
+  ): ConsolidationResult {
+    return this.consolidator.consolidate(transactions, decisions);
+  }
 
-    // Determine expense/income account from description
-    const account = await this.determineAccount(txn);
+  convertTransaction(
+    txn: ExcelTransaction,
+    accountName: string = 'Assets:Bank:Caixa:Checking',
+    options: ConversionOptions = {},
+    refundLink?: RefundLink
+  ): BeancountTransaction {
+    const amount = (txn.creditAmount || Money.ZERO).minus(txn.debitAmount || Money.ZERO);
+
+    // Determine expense/income account from description, or a refund's from its purchase
+    const categorization =
+      refundLink?.refund === txn
+        ? this.categorizeRefund(refundLink.purchase)
+        : this.categorize(txn);
+    const { account, match } = categorization;
 
     const postings: BeancountPosting[] = [
       {
@@ -184,86 +345,189 @@ export class BeancountConverter {
         amount: amount,
         currency: txn.currency,
       },
-      {
-        account: account,
-        amount: -amount,
-        currency: txn.currency,
-      },
     ];
 
+    // A rule split spreads the other side over several accounts
+    const shares = match?.rule.split
+      ? PostingSplitter.allocate(amount.negate(), match.rule.split, account)
+      : [{ account, amount: amount.negate() }];
+    for (const share of shares) {
+      postings.push({ account: share.account, amount: share.amount, currency: txn.currency });
+    }
+
     // Build description from available fields
-    const description = this.buildDescription(txn);
+    const description = BeancountConverter.buildDescription(txn);
 
     return {
-      date: this.convertDate(txn.transactionDate),
-      flag: '*',
+      date: StatementDate.toIso(txn.transactionDate),
+      flag: categorization.flag,
       narration: description,
       postings,
+      ...(refundLink?.link ? { links: [refundLink.link] } : {}),
+      metadata: {
+        [IMPORT_ID_KEY]: Ledger.importId(txn),
+        ...(options.explain
+          ? { [RULE_KEY]: BeancountConverter.describeCategorization(categorization) }
+          : {}),
+      },
     };
   }
 
-  private static convertDate(dateStr: string): string {
-    // Convert DD/MM/YYYY to YYYY-MM-DD
-    const parts = dateStr.split('/');
-    if (parts.length === 3) {
-      return `${parts[2]}-${parts[1].padStart(2, '0')}-${parts[0].padStart(2, '0')}`;
+  /**
+   * Reports how the transaction is categorized and why every rule tried
+   * before the matching one did not match
+   */
+  explain(txn: ExcelTransaction): CategorizationExplanation {
+    const categorization = this.categorize(txn);
+    return { ...this.merchantRules.explain(txn), categorization };
+  }
+
+  /**
+   * One-line summary of a categorization, e.g. rules[0] matched shell,
+   * type atm for a type default account, learned 0.93 for a categorizer
+   * prediction, or refund of 2025-03-01 AMAZON.ES for a linked refund
+   */
+  static describeCategorization(categorization: Categorization): string {
+    const { refundOf, detector, match, type, prediction } = categorization;
+    if (refundOf && 'importId' in refundOf) {
+      return `refund of ${refundOf.date} ${refundOf.narration}`;
     }
-    return dateStr;
+    if (refundOf) {
+      return `refund of ${StatementDate.toIso(refundOf.transactionDate)} ${this.buildDescription(refundOf)}`;
+    }
+    if (detector) return `consolidated ${detector}`;
+    if (type) return `type ${type}`;
+    if (prediction) return `learned ${prediction.confidence.toFixed(2)}`;
+    if (!match) return 'none';
+    const label = `${match.kind}[${match.index}]`;
+    const score = match.score !== undefined && match.score < 1 ? ` ${match.score.toFixed(2)}` : '';
+    return match.matchedText ? `${label} matched ${match.matchedText}${score}` : label;
   }
 
-  private static async determineAccount(txn: ExcelTransaction): Promise<string> {
-    const config = await this.loadMerchantConfig();
-    const description = [
-      txn.conceptoComplementario1,
-      txn.conceptoComplementario9,
-      txn.conceptoComplementario2,
-    ]
-      .filter(Boolean)
-      .join(' ')
-      .toLowerCase();
-
-    // Check keyword rules first
-    for (const rule of config.rules) {
-      if (rule.keywords.some((keyword) => description.includes(keyword.toLowerCase()))) {
-        return rule.account;
-      }
+  /**
+   * Books a refund to the account of the purchase it returns, whole, since
+   * a split of the purchase need not apply to a partial refund
+   */
+  private categorizeRefund(purchase: ExcelTransaction | LedgerPurchase): Categorization {
+    if ('importId' in purchase) {
+      return {
+        account: purchase.account,
+        flag: '*',
+        detector: null,
+        match: null,
+        type: null,
+        prediction: null,
+        refundOf: purchase,
+      };
     }
+    const categorization = this.categorize(purchase);
+    return { ...categorization, match: null, refundOf: purchase };
+  }
 
-    // Check regex patterns
-    for (const pattern of config.patterns) {
-      if (new RegExp(pattern.regex, 'i').test(description)) {
-        return pattern.account;
-      }
+  /**
+   * Pairs the refunds among the transactions with their purchases, unless
+   * converter.refunds.enabled is false. Both sides map to their link. The
+   * existing ledger stands in for the transactions it holds, so refunds of
+   * its purchases are booked to their account.
+   */
+  private linkRefunds(
+    transactions: ExcelTransaction[],
+    account: string,
+    ledger?: LedgerIndex
+  ): Map<ExcelTransaction, RefundLink> {
+    const links = new Map<ExcelTransaction, RefundLink>();
+    if (!this.refunds) return links;
+
+    const fresh = transactions.filter((txn) => !ledger?.importIds.has(Ledger.importId(txn)));
+    const purchases = ledger ? Ledger.purchases(ledger, account) : [];
+    for (const link of this.refunds.pair(fresh, purchases)) {
+      links.set(link.refund, link);
+      if (!('importId' in link.purchase)) links.set(link.purchase, link);
     }
+    return links;
+  }
 
-    // Check fallback rules
-    if (config.fallbacks) {
-      for (const fallback of config.fallbacks) {
-        if (this.evaluateFallbackCondition(fallback.condition, txn, description)) {
-          return fallback.account;
-        }
-      }
+  /**
+   * Chooses the account of a transaction: the one its consolidation
+   * detector books it to, else the first matching merchant rule, else the
+   * default account of its type, else the learned categorizer, else
+   * Expenses:Unknown
+   */
+  categorize(txn: ExcelTransaction): Categorization {
+    const consolidation = this.consolidator.getConsolidation(txn);
+    if (consolidation) {
+      const { account, detector } = consolidation;
+      return {
+        account,
+        flag: '*',
+        detector,
+        match: null,
+        type: null,
+        prediction: null,
+        refundOf: null,
+      };
     }
 
-    return 'Expenses:Unknown';
+    const match = this.merchantRules.match(txn);
+    if (match) {
+      // A borderline fuzzy match is kept but left for review
+      const { fuzzyReviewScore = DEFAULT_FUZZY_REVIEW_SCORE } = this.config;
+      const flag = match.score !== undefined && match.score < fuzzyReviewScore ? '!' : '*';
+      return {
+        account: match.account,
+        flag,
+        detector: null,
+        match,
+        type: null,
+        prediction: null,
+        refundOf: null,
+      };
+    }
+
+    // Some types, like ATM withdrawals, go to the same account whatever the merchant
+    const type = this.concepts.classify(txn);
+    const typeAccount =
+      ConceptTable.accountFor(this.config.typeAccounts ?? {}, type, txn) ??
+      ConceptTable.accountFor(DEFAULT_TYPE_ACCOUNTS, type, txn);
+    if (typeAccount) {
+      return {
+        account: typeAccount,
+        flag: '*',
+        detector: null,
+        match: null,
+        type,
+        prediction: null,
+        refundOf: null,
+      };
+    }
+
+    // No explicit rule, ask the categorizer learned from the ledger
+    const prediction = this.categorizer?.predict(BeancountConverter.buildDescription(txn)) ?? null;
+    if (prediction) {
+      const flag = prediction.confidence < this.confidenceThreshold ? '!' : '*';
+      return {
+        account: prediction.account,
+        flag,
+        detector: null,
+        match: null,
+        type: null,
+        prediction,
+        refundOf: null,
+      };
+    }
+    return {
+      account: 'Expenses:Unknown',
+      flag: '*',
+      detector: null,
+      match: null,
+      type: null,
+      prediction: null,
+      refundOf: null,
+    };
   }
 
-  private static evaluateFallbackCondition(
-    condition: string,
-    txn: ExcelTransaction,
-    description: string
-  ): boolean {
-    // Simple condition evaluator for fallback rules
-    const amount = txn.debitAmount || txn.creditAmount || 0;
-
-    if (condition.includes('amount <= 2.00') && amount > 2.0) return false;
-    if (
-      condition.includes("description CONTAINS 'compra con tarjeta'") &&
-      !description.includes('compra con tarjeta')
-    )
-      return false;
-
-    return true;
+  getMerchantRules(): RuleSet {
+    return this.merchantRules;
   }
 
   private static buildDescription(txn: ExcelTransaction): string {
@@ -275,22 +539,4 @@ export class BeancountConverter {
 
     return parts.join(' - ').trim() || 'Transaction';
   }
-
-  private static formatTransaction(txn: BeancountTransaction): string {
-    const lines: string[] = [];
-    const date = txn.date;
-    const flag = txn.flag;
-    const narration = txn.narration ? ` "${txn.narration}"` : '';
-
-    lines.push(`${date} ${flag}${narration}`);
-
-    for (const posting of txn.postings) {
-      const amountStr = posting.amount.toFixed(2);
-      const currency = posting.currency;
-      const account = posting.account;
-      lines.push(`  ${account}         ${amountStr} ${currency}`);
-    }
-
-    return lines.join('\n');
-  }
 }
@@ -0,0 +1,210 @@
+/*
+ * caixa2bean - Convert Caixa bank statements to Beancount format
+ * Copyright (C) 2026  Kevin Curtet
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import fs from 'fs';
+import { TextDecoder } from 'util';
+import { ColumnSchemaOverrides, ParsedExcelFile } from './types.js';
+import { ParsingError } from './errors.js';
+import { ExcelParser } from './parser.js';
+import { Logger } from './logger.js';
+
+export type CsvDelimiter = ';' | ',';
+export type CsvEncoding = 'utf-8' | 'latin1';
+
+export interface CsvParseOptions {
+  delimiter?: CsvDelimiter;
+  encoding?: CsvEncoding;
+  columns?: ColumnSchemaOverrides;
+  logger?: Logger; // Told about rows that are skipped
+}
+
+// Column headers of the online banking CSV export, in their default order.
+// Used when the file carries no header line at all.
+const DEFAULT_CSV_HEADERS = [
+  'Número de cuenta',
+  'Oficina',
+  'Divisa',
+  'Fecha operación',
+  'Fecha valor',
+  'Importe ingreso',
+  'Importe gasto',
+  'Saldo',
+  'Concepto común',
+  'Concepto propio',
+  'Referencia 1',
+  'Referencia 2',
+  ...Array.from({ length: 10 }, (_, i) => `Concepto complementario ${i + 1}`),
+];
+
+export class CsvParser {
+  static parseFile(filePath: string, options: CsvParseOptions = {}): ParsedExcelFile {
+    let buffer: Buffer;
+    try {
+      buffer = fs.readFileSync(filePath);
+    } catch (error) {
+      throw new ParsingError(
+        `Failed to parse CSV file: ${error instanceof Error ? error.message : error}`
+      );
+    }
+    return this.parseBuffer(buffer, options);
+  }
+
+  static parseBuffer(buffer: Buffer, options: CsvParseOptions = {}): ParsedExcelFile {
+    return this.parseText(this.decode(buffer, options.encoding), options);
+  }
+
+  static parseText(text: string, options: Omit<CsvParseOptions, 'encoding'> = {}): ParsedExcelFile {
+    const records = this.splitRecords(text);
+    const comments: string[] = [];
+    const dataLines: string[] = [];
+    const lineNumbers: number[] = [];
+
+    let lineNumber = 1;
+    for (const record of records) {
+      const recordLine = lineNumber;
+      lineNumber += 1 + (record.match(/\r\n|\r|\n/g)?.length || 0);
+
+      if (!record.trim()) continue;
+      if (this.isComment(record)) {
+        comments.push(record.trim().replace(/^[;#]\s*/, ''));
+      } else {
+        dataLines.push(record);
+        lineNumbers.push(recordLine);
+      }
+    }
+
+    if (dataLines.length === 0) {
+      throw new ParsingError('CSV file appears to be empty');
+    }
+
+    const separator = options.delimiter || this.detectDelimiter(dataLines.slice(0, 10).join('\n'));
+    const grid: unknown[][] = dataLines.map((line) => this.splitFields(line, separator));
+    const schema = ExcelParser.buildColumnSchema(options.columns);
+
+    // The header may be a regular line or, as in hand-edited exports, a comment
+    if (ExcelParser.findHeaderRow(grid, schema) === -1) {
+      const commentHeader = comments
+        .map((comment) => this.splitFields(comment, this.detectDelimiter(comment)))
+        .find((row) => ExcelParser.findHeaderRow([row], schema) === 0);
+      grid.unshift(commentHeader || DEFAULT_CSV_HEADERS);
+      lineNumbers.unshift(0);
+    }
+
+    const periodComment = comments.find((comment) => comment.includes('MOVIMIENTOS DESDE'));
+    if (periodComment) {
+      grid.unshift([periodComment]);
+      lineNumbers.unshift(0);
+    }
+
+    return ExcelParser.parseRows(grid, options.columns, lineNumbers, options.logger);
+  }
+
+  /**
+   * Decodes the raw file contents. Caixa exports are usually Latin-1, but files
+   * that went through a spreadsheet app tend to come back as UTF-8.
+   */
+  static decode(buffer: Buffer, encoding?: CsvEncoding): string {
+    let text: string;
+    if (encoding === 'latin1') {
+      text = buffer.toString('latin1');
+    } else if (encoding === 'utf-8') {
+      text = buffer.toString('utf8');
+    } else {
+      try {
+        text = new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+      } catch {
+        text = buffer.toString('latin1');
+      }
+    }
+    return text.replace(/^\uFEFF/, '');
+  }
+
+  static detectDelimiter(sample: string): CsvDelimiter {
+    let semicolons = 0;
+    let commas = 0;
+    let inQuotes = false;
+    for (const char of sample) {
+      if (char === '"') inQuotes = !inQuotes;
+      else if (!inQuotes && char === ';') semicolons++;
+      else if (!inQuotes && char === ',') commas++;
+    }
+    return semicolons > commas ? ';' : ',';
+  }
+
+  /**
+   * Splits the text into records, keeping line breaks that appear inside
+   * quoted fields.
+   */
+  static splitRecords(text: string): string[] {
+    const records: string[] = [];
+    let current = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      if (char === '"') {
+        inQuotes = !inQuotes;
+        current += char;
+      } else if (!inQuotes && (char === '\n' || char === '\r')) {
+        if (char === '\r' && text[i + 1] === '\n') i++;
+        records.push(current);
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+    if (current) records.push(current);
+
+    return records;
+  }
+
+  static splitFields(line: string, delimiter: CsvDelimiter): string[] {
+    const fields: string[] = [];
+    let current = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i];
+      if (inQuotes) {
+        if (char === '"' && line[i + 1] === '"') {
+          current += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          current += char;
+        }
+      } else if (char === '"') {
+        inQuotes = true;
+      } else if (char === delimiter) {
+        fields.push(current);
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+    fields.push(current);
+
+    return fields;
+  }
+
+  private static isComment(record: string): boolean {
+    const trimmed = record.trimStart();
+    return trimmed.startsWith('#') || /^;(\s|$)/.test(trimmed);
+  }
+}
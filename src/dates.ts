@@ -0,0 +1,74 @@
+/*
+ * caixa2bean - Convert Caixa bank statements to Beancount format
+ * Copyright (C) 2026  Kevin Curtet
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+/**
+ * Statement dates: Caixa writes DD/MM/YYYY, Beancount and configuration
+ * files YYYY-MM-DD. Every date comparison and conversion goes through here.
+ */
+export class StatementDate {
+  /**
+   * Turns DD/MM/YYYY or YYYY-MM-DD into a YYYYMMDD key that sorts
+   * chronologically, or null if invalid
+   */
+  static key(value: string): string | null {
+    const spanish = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+    const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+    if (!spanish && !iso) return null;
+    const [year, month, day] = spanish
+      ? [spanish[3], spanish[2], spanish[1]]
+      : [iso![1], iso![2], iso![3]];
+    if (+month < 1 || +month > 12 || +day < 1 || +day > 31) return null;
+    return `${year}${month.padStart(2, '0')}${day.padStart(2, '0')}`;
+  }
+
+  /**
+   * Days since 1970-01-01 of a DD/MM/YYYY or YYYY-MM-DD date, NaN when
+   * unreadable
+   */
+  static dayNumber(value: string): number {
+    const key = this.key(value);
+    if (!key) return NaN;
+    return Date.UTC(+key.slice(0, 4), +key.slice(4, 6) - 1, +key.slice(6, 8)) / 86_400_000;
+  }
+
+  /**
+   * A date as YYYY-MM-DD, or unchanged when unreadable
+   */
+  static toIso(value: string): string {
+    const key = this.key(value);
+    return key ? `${key.slice(0, 4)}-${key.slice(4, 6)}-${key.slice(6, 8)}` : value;
+  }
+
+  /**
+   * A date as DD/MM/YYYY, or unchanged when unreadable
+   */
+  static toStatement(value: string): string {
+    const key = this.key(value);
+    return key ? `${key.slice(6, 8)}/${key.slice(4, 6)}/${key.slice(0, 4)}` : value;
+  }
+
+  /**
+   * The day after a date, as YYYY-MM-DD, or the date unchanged when
+   * unreadable
+   */
+  static nextDay(value: string): string {
+    const day = this.dayNumber(value);
+    if (Number.isNaN(day)) return value;
+    return new Date((day + 1) * 86_400_000).toISOString().slice(0, 10);
+  }
+}
@@ -0,0 +1,224 @@
+/*
+ * caixa2bean - Convert Caixa bank statements to Beancount format
+ * Copyright (C) 2026  Kevin Curtet
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { ExcelTransaction } from './types.js';
+import { Money } from './money.js';
+import { CsvDelimiter, CsvEncoding } from './csv.js';
+import { ConfigurationError, ValidationError } from './errors.js';
+import { ConsolidationCandidate, ReviewDecision, TransactionConsolidator } from './consolidator.js';
+import { Ledger } from './ledger.js';
+
+export const REVIEW_FILE_SUFFIX = '.review.json';
+
+/**
+ * The conversion a review file belongs to, so it can be run again with
+ * the decisions applied. Paths are relative to the directory the
+ * conversion ran in, which root leads to from the review file.
+ */
+export interface ReviewSource {
+  root?: string;
+  inputs: string[]; // Statement files, merged when there are several
+  output: string;
+  account?: string;
+  encoding?: CsvEncoding;
+  delimiter?: CsvDelimiter;
+  ledger?: string;
+  append?: boolean;
+  explain?: boolean;
+}
+
+export interface ReviewedTransaction {
+  importId: string;
+  date: string; // As in the statement, DD/MM/YYYY
+  description: string;
+  amount: string; // Negative for money out
+}
+
+export interface ReviewEntry {
+  id: string; // Stable across runs
+  decision: ReviewDecision | 'pending';
+  detector: string;
+  confidence: ConsolidationCandidate['confidence'];
+  reasoning: string;
+  suggestedAccount?: string;
+  transactions: ReviewedTransaction[];
+}
+
+export interface ReviewFile {
+  source: ReviewSource;
+  candidates: ReviewEntry[];
+}
+
+/**
+ * Reads and writes the JSON file listing the consolidation candidates left
+ * for review. Decisions stay in the file once made, so the same candidates
+ * are not asked about again.
+ */
+export class ConsolidationReview {
+  /**
+   * The review file of an output ledger: ledger.beancount gives
+   * ledger.review.json
+   */
+  static pathFor(output: string): string {
+    return output.replace(/\.beancount$/i, '') + REVIEW_FILE_SUFFIX;
+  }
+
+  static load(filePath: string): ReviewFile {
+    let review: Partial<ReviewFile>;
+    try {
+      review = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch (error) {
+      throw new ConfigurationError(
+        `Failed to load review file: ${error instanceof Error ? error.message : error}`,
+        filePath
+      );
+    }
+
+    const source = review?.source;
+    if (!source || !Array.isArray(source.inputs) || typeof source.output !== 'string') {
+      throw new ConfigurationError('Review file must name its source inputs and output', filePath);
+    }
+    if (source.root !== undefined && typeof source.root !== 'string') {
+      throw new ConfigurationError('Review file source root must be a path', filePath);
+    }
+    if (!Array.isArray(review.candidates)) {
+      throw new ConfigurationError('Review file must list its candidates', filePath);
+    }
+    review.candidates.forEach((entry, index) => {
+      if (typeof entry?.id !== 'string') {
+        throw new ConfigurationError(`Invalid candidate [${index}]: id must be a string`, filePath);
+      }
+      if (!['pending', 'accept', 'reject'].includes(entry.decision)) {
+        throw new ConfigurationError(
+          `Invalid candidate [${index}]: decision must be pending, accept or reject, got ${JSON.stringify(entry.decision)}`,
+          filePath
+        );
+      }
+    });
+    return review as ReviewFile;
+  }
+
+  static save(filePath: string, review: ReviewFile): void {
+    fs.writeFileSync(filePath, `${JSON.stringify(review, null, 2)}\n`, 'utf8');
+  }
+
+  /**
+   * The decisions made so far, by candidate id
+   */
+  static decisions(review: ReviewFile | null): Record<string, ReviewDecision> {
+    const decisions: Record<string, ReviewDecision> = {};
+    for (const { id, decision } of review?.candidates ?? []) {
+      if (decision !== 'pending') decisions[id] = decision;
+    }
+    return decisions;
+  }
+
+  /**
+   * Records a decision for each id, throwing a ValidationError for ids
+   * the file does not list
+   */
+  static decide(review: ReviewFile, ids: string[], decision: ReviewDecision): void {
+    for (const id of ids) {
+      const entry = review.candidates.find((candidate) => candidate.id === id);
+      if (!entry) throw new ValidationError(`Unknown review candidate ${id}`, 'id');
+      entry.decision = decision;
+    }
+  }
+
+  /**
+   * The review file after a conversion: earlier decisions are kept and the
+   * candidates still pending replaced by those of this conversion
+   */
+  static update(
+    previous: ReviewFile | null,
+    source: ReviewSource,
+    candidates: ConsolidationCandidate[]
+  ): ReviewFile {
+    const decided = (previous?.candidates ?? []).filter((entry) => entry.decision !== 'pending');
+    const known = new Set(decided.map((entry) => entry.id));
+    const pending = candidates
+      .map((candidate) => this.toEntry(candidate))
+      .filter((entry) => !known.has(entry.id));
+    return { source, candidates: [...decided, ...pending] };
+  }
+
+  /**
+   * The source as stored in a review file: its paths relative to root, the
+   * directory the conversion ran in, and root relative to the review file
+   */
+  static storeSource(
+    source: ReviewSource,
+    reviewPath: string,
+    root: string = process.cwd()
+  ): ReviewSource {
+    const stored = this.mapPaths(source, (file) => path.relative(root, path.resolve(root, file)));
+    return { ...stored, root: path.relative(path.dirname(path.resolve(reviewPath)), root) || '.' };
+  }
+
+  /**
+   * The source of a review file with absolute paths, root included, so that
+   * it applies from any working directory
+   */
+  static resolveSource(
+    source: ReviewSource,
+    reviewPath: string,
+    baseDir: string = process.cwd()
+  ): ReviewSource & { root: string } {
+    const root = path.resolve(baseDir, path.dirname(reviewPath), source.root ?? '.');
+    return { ...this.mapPaths(source, (file) => path.resolve(root, file)), root };
+  }
+
+  static toEntry(candidate: ConsolidationCandidate): ReviewEntry {
+    return {
+      id: TransactionConsolidator.getCandidateId(candidate),
+      decision: 'pending',
+      detector: candidate.detector,
+      confidence: candidate.confidence,
+      reasoning: candidate.reasoning,
+      ...(candidate.suggestedAccount ? { suggestedAccount: candidate.suggestedAccount } : {}),
+      transactions: candidate.transactions.map((txn) => this.toReviewed(txn)),
+    };
+  }
+
+  private static mapPaths(source: ReviewSource, map: (file: string) => string): ReviewSource {
+    return {
+      ...source,
+      inputs: source.inputs.map(map),
+      output: map(source.output),
+      ...(source.ledger ? { ledger: map(source.ledger) } : {}),
+    };
+  }
+
+  private static toReviewed(txn: ExcelTransaction): ReviewedTransaction {
+    const amount = (txn.creditAmount || Money.ZERO).minus(txn.debitAmount || Money.ZERO);
+    return {
+      importId: Ledger.importId(txn),
+      date: txn.transactionDate,
+      description: [
+        txn.conceptoComplementario1,
+        txn.conceptoComplementario9,
+        txn.conceptoComplementario2,
+      ]
+        .filter(Boolean)
+        .join(' - '),
+      amount: amount.format(),
+    };
+  }
+}
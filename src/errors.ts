@@ -42,3 +42,13 @@ export class ConfigurationError extends Error {
     this.name = 'ConfigurationError';
   }
 }
+
+export class BalanceIntegrityError extends Error {
+  constructor(
+    message: string,
+    public readonly breakCount: number
+  ) {
+    super(message);
+    this.name = 'BalanceIntegrityError';
+  }
+}
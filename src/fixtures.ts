@@ -0,0 +1,131 @@
+/*
+ * caixa2bean - Convert Caixa bank statements to Beancount format
+ * Copyright (C) 2026  Kevin Curtet
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import fs from 'fs';
+import { ExcelTransaction } from './types.js';
+import { Money } from './money.js';
+import { ConfigurationError } from './errors.js';
+import { TEXT_FIELDS, TextField } from './rules.js';
+import { StatementDate } from './dates.js';
+
+export const DEFAULT_FIXTURES_PATH = 'merchants.test.json';
+
+/**
+ * A sample transaction and the account the rules must give it
+ */
+export interface RuleFixture {
+  description: string; // conceptoComplementario1, the merchant
+  amount: number | string; // Negative for money out
+  account: string; // Expected account
+  concept?: string; // conceptoComplementario9, e.g. "COMPRA CON TARJETA"
+  date?: string; // YYYY-MM-DD or DD/MM/YYYY
+  fields?: Partial<Record<TextField, string>>; // Any other statement text
+}
+
+export interface FixtureResult {
+  fixture: RuleFixture;
+  index: number;
+  actual: string;
+  flag: '*' | '!';
+  passed: boolean;
+}
+
+export class RuleFixtures {
+  static load(filePath: string): RuleFixture[] {
+    let fixtures: unknown;
+    try {
+      fixtures = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch (error) {
+      throw new ConfigurationError(
+        `Failed to load rule fixtures: ${error instanceof Error ? error.message : error}`,
+        filePath
+      );
+    }
+    if (!Array.isArray(fixtures)) {
+      throw new ConfigurationError('Rule fixtures must be an array', filePath);
+    }
+    fixtures.forEach((fixture, index) => {
+      const problem = this.validate(fixture);
+      if (problem) {
+        throw new ConfigurationError(`Invalid fixture [${index}]: ${problem}`, filePath);
+      }
+    });
+    return fixtures;
+  }
+
+  /**
+   * Builds the statement transaction a fixture describes
+   */
+  static toTransaction(fixture: RuleFixture): ExcelTransaction {
+    const amount = Money.of(fixture.amount);
+    const date = StatementDate.toStatement(fixture.date ?? '2000-01-01');
+
+    const text = Object.fromEntries(TEXT_FIELDS.map((field) => [field, ''])) as Record<
+      TextField,
+      string
+    >;
+    return {
+      accountNumber: '',
+      branchCode: '',
+      currency: 'EUR',
+      transactionDate: date,
+      valueDate: date,
+      creditAmount: amount.isPositive() ? amount : null,
+      debitAmount: amount.isNegative() ? amount.negate() : null,
+      balance: Money.ZERO,
+      ...text,
+      conceptoComplementario1: fixture.description,
+      conceptoComplementario9: fixture.concept ?? '',
+      ...fixture.fields,
+    };
+  }
+
+  /**
+   * Categorizes every fixture and compares the account with the expected one
+   */
+  static run(
+    fixtures: RuleFixture[],
+    categorize: (txn: ExcelTransaction) => { account: string; flag: '*' | '!' }
+  ): FixtureResult[] {
+    const results: FixtureResult[] = [];
+    for (const [index, fixture] of fixtures.entries()) {
+      const { account, flag } = categorize(this.toTransaction(fixture));
+      results.push({ fixture, index, actual: account, flag, passed: account === fixture.account });
+    }
+    return results;
+  }
+
+  private static validate(fixture: Partial<RuleFixture>): string | null {
+    if (typeof fixture !== 'object' || fixture === null) return 'must be an object';
+    if (typeof fixture.description !== 'string') return 'description must be a string';
+    if (typeof fixture.account !== 'string') return 'account must be a string';
+    try {
+      Money.of(fixture.amount as number | string);
+    } catch {
+      return `amount must be a number, got ${JSON.stringify(fixture.amount)}`;
+    }
+    if (fixture.date !== undefined && !StatementDate.key(String(fixture.date))) {
+      return `date must be YYYY-MM-DD or DD/MM/YYYY, got "${fixture.date}"`;
+    }
+    const unknown = Object.keys(fixture.fields ?? {}).filter(
+      (field) => !TEXT_FIELDS.includes(field as TextField)
+    );
+    if (unknown.length > 0) return `unknown fields: ${unknown.join(', ')}`;
+    return null;
+  }
+}
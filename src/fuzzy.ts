@@ -0,0 +1,63 @@
+/*
+ * caixa2bean - Convert Caixa bank statements to Beancount format
+ * Copyright (C) 2026  Kevin Curtet
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+export const DEFAULT_FUZZY_THRESHOLD = 0.8;
+export const DEFAULT_FUZZY_REVIEW_SCORE = 0.9;
+
+export class FuzzyMatcher {
+  /**
+   * Lowercases and strips accents and punctuation, so "MERCADONA,S.A." and
+   * "Mercadona S A" compare equal
+   */
+  static normalize(text: string): string {
+    return text
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, ' ')
+      .trim();
+  }
+
+  /**
+   * How well the keyword appears anywhere in the text, from 0 to 1: one
+   * minus the fewest edits turning the keyword into some substring of the
+   * text, relative to the keyword length. A truncated or misspelt merchant
+   * ("MERCADON", "MERCAD0NA") still scores close to 1.
+   */
+  static score(keyword: string, text: string): number {
+    const pattern = this.normalize(keyword);
+    const target = this.normalize(text);
+    if (!pattern) return 0;
+    if (target.includes(pattern)) return 1;
+
+    // Edit distance where the match may start and end anywhere in the text
+    let previous = Array.from({ length: pattern.length + 1 }, (_, i) => i);
+    let best = previous[pattern.length];
+    for (const char of target) {
+      const current = [0];
+      for (let i = 1; i <= pattern.length; i++) {
+        const substitution = previous[i - 1] + (pattern[i - 1] === char ? 0 : 1);
+        current.push(Math.min(substitution, previous[i] + 1, current[i - 1] + 1));
+      }
+      best = Math.min(best, current[pattern.length]);
+      previous = current;
+    }
+
+    return Math.max(0, 1 - best / pattern.length);
+  }
+}
@@ -0,0 +1,67 @@
+/*
+ * caixa2bean - Convert Caixa bank statements to Beancount format
+ * Copyright (C) 2026  Kevin Curtet
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+// Public API of the package. The CLI in cli.ts is built on the same modules.
+
+export { Caixa2Bean } from './library.js';
+export type {
+  Caixa2BeanOptions,
+  StatementConversion,
+  StatementConversionOptions,
+} from './library.js';
+export { BeancountConverter } from './converter.js';
+export type {
+  Categorization,
+  CategorizationExplanation,
+  Conversion,
+  ConversionOptions,
+  ConverterSettings,
+} from './converter.js';
+export { ConfigManager, DEFAULT_CONFIG } from './config.js';
+export type {
+  AppConfig,
+  AppConfigOverrides,
+  ConsolidatorConfig,
+  ConverterConfig,
+  DetectorConfig,
+  ParserConfig,
+} from './config.js';
+export { HoldReleaseDetector, TransactionConsolidator } from './consolidator.js';
+export type {
+  ConsolidationCandidate,
+  ConsolidationDetector,
+  ConsolidationResult,
+  ReviewDecision,
+} from './consolidator.js';
+export { StatementParser } from './statement.js';
+export type { StatementFormat, StatementParseOptions } from './statement.js';
+export { BalanceVerifier } from './balance.js';
+export type { BalanceBreak, BalanceCheckResult } from './balance.js';
+export { StatementMerger } from './merge.js';
+export { Ledger } from './ledger.js';
+export type { LedgerIndex, LedgerPurchase } from './ledger.js';
+export { BeancountWriter } from './beancount.js';
+export { Categorizer } from './categorizer.js';
+export { DEFAULT_MERCHANT_CONFIG } from './rules.js';
+export type { MerchantConfig } from './rules.js';
+export { ConsolidationReview } from './decisions.js';
+export type { ReviewFile } from './decisions.js';
+export type { Logger } from './logger.js';
+export { Money } from './money.js';
+export type * from './types.js';
+export * from './errors.js';
@@ -0,0 +1,232 @@
+/*
+ * caixa2bean - Convert Caixa bank statements to Beancount format
+ * Copyright (C) 2026  Kevin Curtet
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import fs from 'fs';
+import { createHash } from 'crypto';
+import { ExcelTransaction } from './types.js';
+import { Money } from './money.js';
+import { TransactionConsolidator } from './consolidator.js';
+
+/**
+ * Metadata key carrying the stable id of every generated transaction
+ */
+export const IMPORT_ID_KEY = 'import-id';
+
+const TRANSACTION_HEADER = /^(\d{4}-\d{2}-\d{2})\s+([*!]|txn)(?=\s|$)(.*)$/;
+const POSTING =
+  /^\s+(?:[*!]\s+)?([A-Z][A-Za-z0-9-]*(?::[A-Za-z0-9][A-Za-z0-9-]*)+)(?:\s+(-?[\d.,]+)\s+[A-Z])?/;
+
+export interface LedgerIndex {
+  importIds: Set<string>;
+  openAccounts: Set<string>;
+  balanceAssertions: Set<string>;
+  entries: Map<string, LedgerEntry>; // Imported transactions, by import-id
+}
+
+export interface LedgerEntry {
+  date: string;
+  narration: string;
+  links: string[];
+  postings: { account: string; amount: Money | null }[]; // null for an elided amount
+}
+
+/**
+ * A charge to a bank account that a ledger holds, booked to a single
+ * account. The amount is what earlier linked refunds left of it.
+ */
+export interface LedgerPurchase {
+  importId: string;
+  date: string;
+  narration: string;
+  account: string;
+  amount: Money;
+  links: string[];
+}
+
+export interface LedgerTransaction {
+  line: number; // 1-based line of the header
+  date: string;
+  flag: '*' | '!';
+  payee?: string;
+  narration: string;
+  accounts: string[]; // Posting accounts, in order
+  postingLines: number[]; // 1-based line of each posting
+}
+
+export class Ledger {
+  /**
+   * Stable id of a bank movement, identical across runs and statement files.
+   * The running balance tells apart identical movements on the same day.
+   */
+  static importId(txn: ExcelTransaction): string {
+    const key = `${txn.accountNumber}|${TransactionConsolidator.getTransactionId(txn)}`;
+    return createHash('sha256').update(key).digest('hex').slice(0, 16);
+  }
+
+  static readFile(filePath: string): LedgerIndex {
+    return this.parse(fs.readFileSync(filePath, 'utf8'));
+  }
+
+  /**
+   * Collects what an existing ledger already holds: imported transactions
+   * and their ids, open accounts and balance assertions (as "date account
+   * amount" keys)
+   */
+  static parse(text: string): LedgerIndex {
+    const index: LedgerIndex = {
+      importIds: new Set(),
+      openAccounts: new Set(),
+      balanceAssertions: new Set(),
+      entries: new Map(),
+    };
+    const importIdPattern = new RegExp(`^\\s+${IMPORT_ID_KEY}:\\s*"([^"]*)"`);
+    let entry: LedgerEntry | null = null;
+
+    for (const line of text.split(/\r?\n/)) {
+      const header = line.match(TRANSACTION_HEADER);
+      if (header) {
+        const { narration } = headerStrings(header[3]);
+        const links = [...header[3].replace(/"(?:[^"\\]|\\.)*"/g, ' ').matchAll(/\^(\S+)/g)];
+        entry = { date: header[1], narration, links: links.map((link) => link[1]), postings: [] };
+        continue;
+      }
+
+      const importId = line.match(importIdPattern);
+      if (importId) {
+        index.importIds.add(importId[1]);
+        if (entry) index.entries.set(importId[1], entry);
+        continue;
+      }
+
+      if (entry && /^\s/.test(line)) {
+        const posting = line.match(POSTING);
+        if (posting) {
+          const amount = posting[2] === undefined ? null : Money.of(posting[2]);
+          entry.postings.push({ account: posting[1], amount });
+        }
+        continue;
+      }
+      if (line.trim() && !/^\s*;/.test(line)) entry = null;
+
+      const open = line.match(/^(\d{4}-\d{2}-\d{2})\s+open\s+(\S+)/);
+      if (open) {
+        index.openAccounts.add(open[2]);
+        continue;
+      }
+
+      const balance = line.match(/^(\d{4}-\d{2}-\d{2})\s+balance\s+(\S+)\s+(\S+)\s+(\S+)/);
+      if (balance) {
+        index.balanceAssertions.add(this.balanceKey(balance[1], balance[2], balance[3]));
+      }
+    }
+
+    return index;
+  }
+
+  /**
+   * Lists the transactions of a ledger with just their line, flag,
+   * description and posting accounts. Unlike BeancountReader this accepts any hand-written
+   * transaction, including postings with elided amounts.
+   */
+  static transactions(text: string): LedgerTransaction[] {
+    const transactions: LedgerTransaction[] = [];
+    let current: LedgerTransaction | null = null;
+
+    for (const [number, line] of text.split(/\r?\n/).entries()) {
+      const header = line.match(TRANSACTION_HEADER);
+      if (header) {
+        current = {
+          line: number + 1,
+          date: header[1],
+          flag: header[2] === '!' ? '!' : '*',
+          ...headerStrings(header[3]),
+          accounts: [],
+          postingLines: [],
+        };
+        transactions.push(current);
+        continue;
+      }
+
+      if (!current || !/^\s/.test(line)) {
+        if (line.trim() && !/^\s*;/.test(line)) current = null;
+        continue;
+      }
+      const posting = line.match(POSTING);
+      if (posting) {
+        current.accounts.push(posting[1]);
+        current.postingLines.push(number + 1);
+      }
+    }
+
+    return transactions;
+  }
+
+  /**
+   * The charges to a bank account that the ledger holds, each booked to a
+   * single account, with what linked refunds to the account left of them
+   */
+  static purchases(index: LedgerIndex, bankAccount: string): LedgerPurchase[] {
+    const bankAmount = (entry: LedgerEntry) =>
+      entry.postings.find((posting) => posting.account === bankAccount)?.amount;
+
+    const refunded = new Map<string, Money>();
+    for (const entry of index.entries.values()) {
+      const amount = bankAmount(entry);
+      if (!amount?.isPositive()) continue;
+      for (const link of entry.links) {
+        refunded.set(link, (refunded.get(link) ?? Money.ZERO).plus(amount));
+      }
+    }
+
+    const purchases: LedgerPurchase[] = [];
+    for (const [importId, entry] of index.entries) {
+      const charged = bankAmount(entry);
+      const accounts = new Set(
+        entry.postings.map(({ account }) => account).filter((account) => account !== bankAccount)
+      );
+      if (!charged?.isNegative() || accounts.size !== 1) continue;
+
+      const amount = entry.links.reduce(
+        (left, link) => left.minus(refunded.get(link) ?? Money.ZERO),
+        charged.negate()
+      );
+      if (!amount.isPositive()) continue;
+      const [account] = accounts;
+      const { date, narration, links } = entry;
+      purchases.push({ importId, date, narration, account, amount, links });
+    }
+    return purchases;
+  }
+
+  static balanceKey(date: string, account: string, amount: string): string {
+    return `${date} ${account} ${amount}`;
+  }
+}
+
+/**
+ * Payee and narration of a transaction header, from its quoted strings
+ */
+function headerStrings(rest: string): { payee?: string; narration: string } {
+  const strings = [...rest.matchAll(/"((?:[^"\\]|\\.)*)"/g)].map((match) =>
+    match[1].replace(/\\(.)/g, '$1')
+  );
+  return {
+    ...(strings.length > 1 ? { payee: strings[0] } : {}),
+    narration: strings[strings.length - 1] ?? '',
+  };
+}
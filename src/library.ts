@@ -0,0 +1,112 @@
+/*
+ * caixa2bean - Convert Caixa bank statements to Beancount format
+ * Copyright (C) 2026  Kevin Curtet
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { ParsedExcelFile } from './types.js';
+import { AppConfig, AppConfigOverrides, ConfigManager } from './config.js';
+import { BeancountConverter, Conversion, ConversionOptions } from './converter.js';
+import { StatementParseOptions, StatementParser } from './statement.js';
+import { BalanceCheckResult, BalanceVerifier } from './balance.js';
+import { ConsolidationDetector } from './consolidator.js';
+import { Categorizer } from './categorizer.js';
+import { MerchantConfig } from './rules.js';
+import { LedgerIndex } from './ledger.js';
+import { Logger, SILENT_LOGGER } from './logger.js';
+
+export interface Caixa2BeanOptions {
+  config?: AppConfigOverrides; // Each section completed from DEFAULT_CONFIG
+  merchants?: MerchantConfig; // The built-in rules when unset
+  categorizer?: Categorizer | null; // Trained on an existing ledger
+  detectors?: ConsolidationDetector[]; // Consolidation detectors written in code
+  logger?: Logger; // Told every warning as it happens
+}
+
+export interface StatementConversionOptions
+  extends Omit<StatementParseOptions, 'columns' | 'logger'>, ConversionOptions {
+  account?: string; // Overrides converter.accounts
+  ledger?: LedgerIndex; // Existing ledger, whose transactions are not emitted again
+}
+
+export interface StatementConversion extends Conversion {
+  statement: ParsedExcelFile;
+  balanceCheck: BalanceCheckResult;
+  warnings: string[]; // Skipped rows and running balance breaks
+}
+
+/**
+ * Converts statements for programs embedding caixa2bean. Everything comes
+ * from the options: nothing is read from the working directory and nothing
+ * is printed.
+ */
+export class Caixa2Bean {
+  readonly config: AppConfig;
+  private readonly converter: BeancountConverter;
+  private readonly logger: Logger;
+
+  constructor(options: Caixa2BeanOptions = {}) {
+    this.config = ConfigManager.resolve(options.config);
+    this.logger = options.logger ?? SILENT_LOGGER;
+    this.converter = BeancountConverter.compile({
+      config: this.config,
+      merchants: options.merchants,
+      categorizer: options.categorizer,
+      detectors: options.detectors,
+    });
+  }
+
+  /**
+   * Parses a statement, given as a file path or its content, and converts
+   * it to Beancount
+   */
+  convert(input: string | Buffer, options: StatementConversionOptions = {}): StatementConversion {
+    const warnings: string[] = [];
+    const logger: Logger = {
+      warn: (message) => {
+        warnings.push(message);
+        this.logger.warn(message);
+      },
+    };
+
+    const parseOptions: StatementParseOptions = {
+      encoding: options.encoding,
+      delimiter: options.delimiter,
+      format: options.format,
+      columns: this.config.parser?.columns,
+      logger,
+    };
+    const statement =
+      typeof input === 'string'
+        ? StatementParser.parseFile(input, parseOptions)
+        : StatementParser.parseBuffer(input, parseOptions);
+
+    const balanceCheck = BalanceVerifier.verify(statement);
+    for (const balanceBreak of balanceCheck.breaks) logger.warn(balanceBreak.message);
+
+    const conversion = this.converter.convert(statement, options.account, options.ledger, {
+      explain: options.explain,
+      decisions: options.decisions,
+    });
+    return { ...conversion, statement, balanceCheck, warnings };
+  }
+
+  /**
+   * The converter underneath, to categorize or explain single transactions
+   */
+  getConverter(): BeancountConverter {
+    return this.converter;
+  }
+}
@@ -0,0 +1,125 @@
+/*
+ * caixa2bean - Convert Caixa bank statements to Beancount format
+ * Copyright (C) 2026  Kevin Curtet
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { ExcelTransaction, ParsedExcelFile } from './types.js';
+import { ValidationError } from './errors.js';
+import { StatementDate } from './dates.js';
+
+export interface StatementMergeResult {
+  statement: ParsedExcelFile;
+  duplicates: ExcelTransaction[];
+}
+
+export class StatementMerger {
+  /**
+   * Merges statements of one account into a single chronological statement.
+   * Movements already seen in an earlier statement are dropped: two rows are
+   * the same movement when date, amounts, references and running balance all
+   * match. Identical movements repeated within one statement are kept as long
+   * as that statement holds more copies than the earlier ones did.
+   */
+  static merge(statements: ParsedExcelFile[]): StatementMergeResult {
+    if (statements.length === 0) {
+      throw new ValidationError('No statements to merge', 'statements');
+    }
+    this.assertSameAccount(statements);
+
+    const ordered = [...statements].sort(
+      (a, b) =>
+        this.compareDates(a.period.start, b.period.start) ||
+        this.compareDates(a.period.end, b.period.end)
+    );
+
+    const seen = new Map<string, number>();
+    const transactions: ExcelTransaction[] = [];
+    const duplicates: ExcelTransaction[] = [];
+
+    for (const statement of ordered) {
+      const counts = new Map<string, number>();
+      for (const txn of statement.transactions) {
+        const key = this.movementKey(txn);
+        const count = (counts.get(key) || 0) + 1;
+        counts.set(key, count);
+
+        if (count <= (seen.get(key) || 0)) {
+          duplicates.push(txn);
+        } else {
+          transactions.push(txn);
+        }
+      }
+      for (const [key, count] of counts) {
+        seen.set(key, Math.max(seen.get(key) || 0, count));
+      }
+    }
+
+    // Stable sort keeps each day's rows in statement order
+    transactions.sort((a, b) => this.compareDates(a.transactionDate, b.transactionDate));
+
+    const first = ordered[0];
+    const last = ordered.reduce((latest, statement) =>
+      this.compareDates(statement.period.end, latest.period.end) >= 0 ? statement : latest
+    );
+
+    return {
+      statement: {
+        accountNumber: first.accountNumber,
+        currency: first.currency,
+        period: { start: first.period.start, end: last.period.end },
+        openingBalance: first.openingBalance,
+        transactions,
+        closingBalance: last.closingBalance,
+      },
+      duplicates,
+    };
+  }
+
+  private static assertSameAccount(statements: ParsedExcelFile[]): void {
+    const accounts = [...new Set(statements.map((statement) => statement.accountNumber))];
+    if (accounts.length > 1) {
+      throw new ValidationError(
+        `Cannot merge statements of different accounts: ${accounts.join(', ')}`,
+        'accountNumber'
+      );
+    }
+
+    const currencies = [...new Set(statements.map((statement) => statement.currency))];
+    if (currencies.length > 1) {
+      throw new ValidationError(
+        `Cannot merge statements in different currencies: ${currencies.join(', ')}`,
+        'currency'
+      );
+    }
+  }
+
+  private static movementKey(txn: ExcelTransaction): string {
+    return [
+      StatementDate.key(txn.transactionDate) ?? txn.transactionDate,
+      txn.creditAmount?.toString() ?? '',
+      txn.debitAmount?.toString() ?? '',
+      txn.referencia1.trim(),
+      txn.referencia2.trim(),
+      txn.balance.toString(),
+    ].join('|');
+  }
+
+  private static compareDates(a: string, b: string): number {
+    const keyA = StatementDate.key(a) ?? a;
+    const keyB = StatementDate.key(b) ?? b;
+    return keyA < keyB ? -1 : keyA > keyB ? 1 : 0;
+  }
+}
@@ -0,0 +1,232 @@
+/*
+ * caixa2bean - Convert Caixa bank statements to Beancount format
+ * Copyright (C) 2026  Kevin Curtet
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { ParsingError } from './errors.js';
+
+/**
+ * Exact decimal amount. The value is units / 10^scale, kept in canonical form
+ * (no trailing zeros) so that equal amounts are also structurally equal.
+ */
+const PLAIN_DECIMAL = /^([+-])?(\d+)(?:\.(\d+))?$/;
+
+export class Money {
+  static readonly ZERO = new Money(0n, 0);
+
+  private constructor(
+    private readonly units: bigint,
+    readonly scale: number
+  ) {}
+
+  static fromMinorUnits(units: bigint | number, scale: number = 2): Money {
+    return this.normalize(BigInt(units), scale);
+  }
+
+  /**
+   * Amount given in code or configuration: numbers and "1234.56" strings
+   * are plain decimals, other strings are parsed like statement amounts
+   */
+  static of(value: Money | number | string): Money {
+    if (value instanceof Money) return value;
+    if (typeof value === 'number') {
+      if (!Number.isFinite(value)) {
+        throw new ParsingError(`Invalid amount: ${value}`);
+      }
+      const text = value.toString();
+      return this.parseDecimal(/e/i.test(text) ? value.toFixed(20) : text);
+    }
+    return PLAIN_DECIMAL.test(value) ? this.parseDecimal(value) : this.parse(value);
+  }
+
+  /**
+   * Parses both "1234.56" and Spanish "1.234,56" notations. When only one
+   * separator appears once, a comma is read as the decimal separator (Spanish
+   * usage) and so is a dot followed by one or two digits; a dot followed by
+   * three is a thousands separator, and by more an ambiguous amount.
+   * Repeated separators are thousands separators.
+   */
+  static parse(text: string): Money {
+    let normalized = text.replace(/[\s€]/g, '');
+    const lastComma = normalized.lastIndexOf(',');
+    const lastDot = normalized.lastIndexOf('.');
+    const count = (char: string) => normalized.split(char).length - 1;
+
+    if (lastComma !== -1 && lastDot !== -1) {
+      const decimal = lastComma > lastDot ? ',' : '.';
+      const thousands = decimal === ',' ? '.' : ',';
+      normalized = normalized.split(thousands).join('').replace(decimal, '.');
+    } else if (lastComma !== -1) {
+      normalized = count(',') > 1 ? normalized.replace(/,/g, '') : normalized.replace(',', '.');
+    } else if (count('.') > 1) {
+      normalized = normalized.replace(/\./g, '');
+    } else if (lastDot !== -1) {
+      const decimals = normalized.length - lastDot - 1;
+      if (decimals === 3) normalized = normalized.replace('.', '');
+      else if (decimals > 3) throw new ParsingError(`Ambiguous amount: ${text}`);
+    }
+
+    if (!PLAIN_DECIMAL.test(normalized)) {
+      throw new ParsingError(`Invalid amount: ${text}`);
+    }
+    return this.parseDecimal(normalized);
+  }
+
+  /**
+   * Parses plain "1234.56" notation, as Beancount and JavaScript write
+   * numbers
+   */
+  static parseDecimal(text: string): Money {
+    const match = text.match(PLAIN_DECIMAL);
+    if (!match) {
+      throw new ParsingError(`Invalid amount: ${text}`);
+    }
+
+    const fraction = match[3] || '';
+    const units = BigInt(`${match[2]}${fraction}`);
+    return this.normalize(match[1] === '-' ? -units : units, fraction.length);
+  }
+
+  static sum(values: Money[]): Money {
+    return values.reduce((total, value) => total.plus(value), Money.ZERO);
+  }
+
+  plus(other: Money | number | string): Money {
+    const [a, b, scale] = this.align(Money.of(other));
+    return Money.normalize(a + b, scale);
+  }
+
+  minus(other: Money | number | string): Money {
+    const [a, b, scale] = this.align(Money.of(other));
+    return Money.normalize(a - b, scale);
+  }
+
+  times(factor: Money | number | string): Money {
+    const other = Money.of(factor);
+    return Money.normalize(this.units * other.units, this.scale + other.scale);
+  }
+
+  negate(): Money {
+    return Money.normalize(-this.units, this.scale);
+  }
+
+  abs(): Money {
+    return this.units < 0n ? this.negate() : this;
+  }
+
+  /**
+   * Rounds half away from zero to the given number of decimals
+   */
+  round(scale: number = 2): Money {
+    if (this.scale <= scale) return this;
+    const divisor = 10n ** BigInt(this.scale - scale);
+    let quotient = this.units / divisor;
+    const remainder = this.units % divisor;
+    const twice = (remainder < 0n ? -remainder : remainder) * 2n;
+    if (twice >= divisor) {
+      quotient += this.units < 0n ? -1n : 1n;
+    }
+    return Money.normalize(quotient, scale);
+  }
+
+  compareTo(other: Money | number | string): number {
+    const [a, b] = this.align(Money.of(other));
+    return a === b ? 0 : a < b ? -1 : 1;
+  }
+
+  equals(other: Money | number | string): boolean {
+    return this.compareTo(other) === 0;
+  }
+
+  lessThan(other: Money | number | string): boolean {
+    return this.compareTo(other) < 0;
+  }
+
+  lessThanOrEqual(other: Money | number | string): boolean {
+    return this.compareTo(other) <= 0;
+  }
+
+  greaterThan(other: Money | number | string): boolean {
+    return this.compareTo(other) > 0;
+  }
+
+  greaterThanOrEqual(other: Money | number | string): boolean {
+    return this.compareTo(other) >= 0;
+  }
+
+  isZero(): boolean {
+    return this.units === 0n;
+  }
+
+  isNegative(): boolean {
+    return this.units < 0n;
+  }
+
+  isPositive(): boolean {
+    return this.units > 0n;
+  }
+
+  /**
+   * Formats with exactly the given number of decimals, rounding if needed
+   */
+  toFixed(digits: number): string {
+    const rounded = this.round(digits);
+    const units = rounded.units * 10n ** BigInt(digits - rounded.scale);
+    const negative = units < 0n;
+    const digitsText = (negative ? -units : units).toString().padStart(digits + 1, '0');
+    const integer = digitsText.slice(0, digitsText.length - digits);
+    const fraction = digits > 0 ? `.${digitsText.slice(digitsText.length - digits)}` : '';
+    return `${negative ? '-' : ''}${integer}${fraction}`;
+  }
+
+  /**
+   * Formats with at least minDigits decimals, never dropping precision
+   */
+  format(minDigits: number = 2): string {
+    return this.toFixed(Math.max(minDigits, this.scale));
+  }
+
+  toNumber(): number {
+    return Number(this.toString());
+  }
+
+  toString(): string {
+    return this.toFixed(this.scale);
+  }
+
+  toJSON(): string {
+    return this.toString();
+  }
+
+  private align(other: Money): [bigint, bigint, number] {
+    const scale = Math.max(this.scale, other.scale);
+    return [
+      this.units * 10n ** BigInt(scale - this.scale),
+      other.units * 10n ** BigInt(scale - other.scale),
+      scale,
+    ];
+  }
+
+  private static normalize(units: bigint, scale: number): Money {
+    let value = units;
+    let digits = scale;
+    while (digits > 0 && value % 10n === 0n) {
+      value /= 10n;
+      digits--;
+    }
+    return new Money(value, digits);
+  }
+}
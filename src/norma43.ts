@@ -0,0 +1,337 @@
+/*
+ * caixa2bean - Convert Caixa bank statements to Beancount format
+ * Copyright (C) 2026  Kevin Curtet
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import fs from 'fs';
+import { ExcelTransaction, ParsedExcelFile } from './types.js';
+import { ParsingError } from './errors.js';
+import { CsvEncoding, CsvParser } from './csv.js';
+import { Money } from './money.js';
+
+// AEB Norma 43 (Cuaderno 43) fixed-width records, 80 characters each
+const RECORD_LENGTH = 80;
+
+// ISO 4217 numeric codes used in the currency fields of records 11 and 33
+const CURRENCY_CODES: Record<string, string> = {
+  '978': 'EUR',
+  '840': 'USD',
+  '826': 'GBP',
+  '756': 'CHF',
+  '392': 'JPY',
+};
+
+interface AccountHeader {
+  bankCode: string;
+  branchCode: string;
+  account: string;
+  startDate: string;
+  endDate: string;
+  openingBalance: Money;
+  currency: string;
+}
+
+export class Norma43Parser {
+  static parseFile(filePath: string, encoding?: CsvEncoding): ParsedExcelFile {
+    let buffer: Buffer;
+    try {
+      buffer = fs.readFileSync(filePath);
+    } catch (error) {
+      throw new ParsingError(
+        `Failed to parse Norma 43 file: ${error instanceof Error ? error.message : error}`
+      );
+    }
+    return this.parseBuffer(buffer, encoding);
+  }
+
+  static parseBuffer(buffer: Buffer, encoding?: CsvEncoding): ParsedExcelFile {
+    return this.parseText(CsvParser.decode(buffer, encoding));
+  }
+
+  /**
+   * Parses a Norma 43 file holding a single account. Files exported for
+   * several accounts at once have to go through parseStatements instead.
+   */
+  static parseText(text: string): ParsedExcelFile {
+    const statements = this.parseStatements(text);
+    if (statements.length > 1) {
+      throw new ParsingError(
+        `Norma 43 file contains ${statements.length} accounts, expected a single account`
+      );
+    }
+    return statements[0];
+  }
+
+  static parseStatements(text: string): ParsedExcelFile[] {
+    const lines = text.split(/\r?\n/);
+    if (!lines.some((line) => line.trim())) {
+      throw new ParsingError('Norma 43 file appears to be empty');
+    }
+
+    const statements: ParsedExcelFile[] = [];
+    let header: AccountHeader | null = null;
+    let transactions: ExcelTransaction[] = [];
+    let balance = Money.ZERO;
+    let fileEnded = false;
+
+    for (let i = 0; i < lines.length; i++) {
+      if (!lines[i].trim()) continue;
+
+      const row = i + 1;
+      const line = lines[i].padEnd(RECORD_LENGTH, ' ');
+      const recordType = line.slice(0, 2);
+
+      if (fileEnded) {
+        throw new ParsingError('Unexpected record after end of file record 88', row);
+      }
+
+      switch (recordType) {
+        case '11': {
+          if (header) {
+            throw new ParsingError('Account header record 11 without closing record 33', row);
+          }
+          header = this.parseAccountHeader(line, row);
+          transactions = [];
+          balance = header.openingBalance;
+          break;
+        }
+        case '22': {
+          if (!header) {
+            throw new ParsingError('Movement record 22 outside of an account', row);
+          }
+          const transaction = this.parseMovement(line, header, row);
+          balance = balance
+            .plus(transaction.creditAmount || Money.ZERO)
+            .minus(transaction.debitAmount || Money.ZERO);
+          transaction.balance = balance;
+          transaction.sourceRow = row;
+          transactions.push(transaction);
+          break;
+        }
+        case '23': {
+          const transaction = transactions[transactions.length - 1];
+          if (!header || !transaction) {
+            throw new ParsingError('Complementary concept record 23 without a movement', row);
+          }
+          this.applyComplementaryConcepts(line, transaction, row);
+          break;
+        }
+        case '24':
+          // Currency equivalence record, informative only
+          break;
+        case '33': {
+          if (!header) {
+            throw new ParsingError('Account footer record 33 without header record 11', row);
+          }
+          statements.push(this.parseAccountFooter(line, header, transactions, row));
+          header = null;
+          break;
+        }
+        case '88':
+          fileEnded = true;
+          break;
+        default:
+          throw new ParsingError(`Unknown Norma 43 record type: ${recordType}`, row, 1);
+      }
+    }
+
+    if (header) {
+      throw new ParsingError('Norma 43 file ended without account footer record 33');
+    }
+    if (statements.length === 0) {
+      throw new ParsingError('No account records found in Norma 43 file');
+    }
+
+    return statements;
+  }
+
+  /**
+   * Formats bank, branch and account as the 20-digit CCC used by the Excel
+   * export, computing the two control digits that Norma 43 leaves out.
+   */
+  static formatAccountNumber(bankCode: string, branchCode: string, account: string): string {
+    const controlDigit = (digits: string): number => {
+      const weights = [1, 2, 4, 8, 5, 10, 9, 7, 3, 6];
+      const sum = digits
+        .split('')
+        .reduce((total, digit, i) => total + parseInt(digit, 10) * weights[i], 0);
+      const result = 11 - (sum % 11);
+      return result === 11 ? 0 : result === 10 ? 1 : result;
+    };
+    const dc = `${controlDigit(`00${bankCode}${branchCode}`)}${controlDigit(account)}`;
+    return `${bankCode} ${branchCode} ${dc} ${account}`;
+  }
+
+  private static parseAccountHeader(line: string, row: number): AccountHeader {
+    const bankCode = this.field(line, 3, 6);
+    const branchCode = this.field(line, 7, 10);
+    const account = this.field(line, 11, 20);
+    if (!/^\d{4}$/.test(bankCode) || !/^\d{4}$/.test(branchCode) || !/^\d{10}$/.test(account)) {
+      throw new ParsingError('Invalid account identification in header record 11', row, 3);
+    }
+
+    return {
+      bankCode,
+      branchCode,
+      account,
+      startDate: this.parseDate(this.field(line, 21, 26), row, 21),
+      endDate: this.parseDate(this.field(line, 27, 32), row, 27),
+      openingBalance: this.parseSignedAmount(line, 33, 34, 47, row),
+      currency: this.parseCurrency(this.field(line, 48, 50), row, 48),
+    };
+  }
+
+  private static parseMovement(line: string, header: AccountHeader, row: number): ExcelTransaction {
+    const amount = this.parseAmount(this.field(line, 29, 42), row, 29);
+    const sign = this.field(line, 28, 28);
+    if (sign !== '1' && sign !== '2') {
+      throw new ParsingError(`Invalid debit/credit code: ${sign}`, row, 28);
+    }
+
+    return {
+      accountNumber: this.formatAccountNumber(header.bankCode, header.branchCode, header.account),
+      branchCode: this.field(line, 7, 10),
+      currency: header.currency,
+      transactionDate: this.parseDate(this.field(line, 11, 16), row, 11),
+      valueDate: this.parseDate(this.field(line, 17, 22), row, 17),
+      creditAmount: sign === '2' ? amount : null,
+      debitAmount: sign === '1' ? amount : null,
+      balance: Money.ZERO,
+      conceptoComun: this.field(line, 23, 24),
+      conceptoPropio: this.field(line, 25, 27),
+      referencia1: this.field(line, 53, 64),
+      referencia2: this.field(line, 65, 80),
+      conceptoComplementario1: '',
+      conceptoComplementario2: '',
+      conceptoComplementario3: '',
+      conceptoComplementario4: '',
+      conceptoComplementario5: '',
+      conceptoComplementario6: '',
+      conceptoComplementario7: '',
+      conceptoComplementario8: '',
+      conceptoComplementario9: '',
+      conceptoComplementario10: '',
+    };
+  }
+
+  private static applyComplementaryConcepts(
+    line: string,
+    transaction: ExcelTransaction,
+    row: number
+  ): void {
+    // Each record 23 (data codes 01-05) carries two 38-character concepts
+    const dataCode = parseInt(this.field(line, 3, 4), 10);
+    if (isNaN(dataCode) || dataCode < 1 || dataCode > 5) {
+      throw new ParsingError(
+        `Invalid complementary concept code: ${this.field(line, 3, 4)}`,
+        row,
+        3
+      );
+    }
+
+    const first = `conceptoComplementario${dataCode * 2 - 1}` as keyof ExcelTransaction;
+    const second = `conceptoComplementario${dataCode * 2}` as keyof ExcelTransaction;
+    Object.assign(transaction, {
+      [first]: this.field(line, 5, 42),
+      [second]: this.field(line, 43, 80),
+    });
+  }
+
+  private static parseAccountFooter(
+    line: string,
+    header: AccountHeader,
+    transactions: ExcelTransaction[],
+    row: number
+  ): ParsedExcelFile {
+    const debitCount = parseInt(this.field(line, 21, 25), 10);
+    const debitTotal = this.parseAmount(this.field(line, 26, 39), row, 26);
+    const creditCount = parseInt(this.field(line, 40, 44), 10);
+    const creditTotal = this.parseAmount(this.field(line, 45, 58), row, 45);
+    const closingBalance = this.parseSignedAmount(line, 59, 60, 73, row);
+
+    const debits = transactions.filter((txn) => txn.debitAmount !== null);
+    const credits = transactions.filter((txn) => txn.creditAmount !== null);
+    const sum = (values: (Money | null)[]) => Money.sum(values.map((value) => value || Money.ZERO));
+
+    if (debits.length !== debitCount || credits.length !== creditCount) {
+      throw new ParsingError(
+        `Footer record 33 announces ${debitCount} debits and ${creditCount} credits, ` +
+          `found ${debits.length} and ${credits.length}`,
+        row
+      );
+    }
+    if (
+      !sum(debits.map((txn) => txn.debitAmount)).equals(debitTotal) ||
+      !sum(credits.map((txn) => txn.creditAmount)).equals(creditTotal)
+    ) {
+      throw new ParsingError('Footer record 33 totals do not match the movements', row);
+    }
+
+    return {
+      accountNumber: this.formatAccountNumber(header.bankCode, header.branchCode, header.account),
+      currency: header.currency,
+      period: { start: header.startDate, end: header.endDate },
+      openingBalance: header.openingBalance,
+      transactions,
+      closingBalance,
+    };
+  }
+
+  /**
+   * Extracts a field using the 1-based inclusive positions of the AEB spec
+   */
+  private static field(line: string, start: number, end: number): string {
+    return line.slice(start - 1, end).trim();
+  }
+
+  private static parseDate(value: string, row: number, column: number): string {
+    const match = value.match(/^(\d{2})(\d{2})(\d{2})$/);
+    if (!match) {
+      throw new ParsingError(`Invalid date: ${value}`, row, column);
+    }
+    return `${match[3]}/${match[2]}/20${match[1]}`;
+  }
+
+  private static parseAmount(value: string, row: number, column: number): Money {
+    if (!/^\d{14}$/.test(value)) {
+      throw new ParsingError(`Invalid amount: ${value}`, row, column);
+    }
+    return Money.fromMinorUnits(BigInt(value), 2);
+  }
+
+  private static parseSignedAmount(
+    line: string,
+    signColumn: number,
+    start: number,
+    end: number,
+    row: number
+  ): Money {
+    const amount = this.parseAmount(this.field(line, start, end), row, start);
+    const sign = this.field(line, signColumn, signColumn);
+    if (sign !== '1' && sign !== '2') {
+      throw new ParsingError(`Invalid debit/credit code: ${sign}`, row, signColumn);
+    }
+    return sign === '1' ? amount.negate() : amount;
+  }
+
+  private static parseCurrency(value: string, row: number, column: number): string {
+    const currency = CURRENCY_CODES[value];
+    if (!currency) {
+      throw new ParsingError(`Unsupported currency code: ${value}`, row, column);
+    }
+    return currency;
+  }
+}
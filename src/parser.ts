@@ -17,13 +17,113 @@
  */
 
 import * as XLSX from 'xlsx';
-import { ExcelTransaction, ParsedExcelFile } from './types.js';
-import { ParsingError } from './errors.js';
+import {
+  ColumnSchema,
+  ColumnSchemaOverrides,
+  ExcelTransaction,
+  ParsedExcelFile,
+  StatementColumn,
+} from './types.js';
+import { ConfigurationError, ParsingError } from './errors.js';
+import { Money } from './money.js';
+import { Logger, SILENT_LOGGER } from './logger.js';
+import { StatementDate } from './dates.js';
+
+export type ColumnMap = Partial<Record<StatementColumn, number>>;
+
+export type StatementOrdering = 'ascending' | 'descending';
+
+// Header labels of each column in the Caixa exports. The first label is the
+// one shown in error messages.
+export const DEFAULT_COLUMN_SCHEMA: ColumnSchema = {
+  accountNumber: ['Número de cuenta', 'Cuenta'],
+  branchCode: ['Oficina'],
+  currency: ['Divisa', 'Moneda'],
+  transactionDate: ['Fecha operación', 'F. operación'],
+  valueDate: ['Fecha valor', 'F. valor'],
+  creditAmount: ['Importe ingreso', 'Ingreso', 'Ingresos'],
+  debitAmount: ['Importe gasto', 'Gasto', 'Gastos'],
+  balance: ['Saldo', 'Saldo +'],
+  negativeBalance: ['Saldo -'],
+  conceptoComun: ['Concepto común'],
+  conceptoPropio: ['Concepto propio'],
+  referencia1: ['Referencia 1'],
+  referencia2: ['Referencia 2'],
+  conceptoComplementario1: ['Concepto complementario 1'],
+  conceptoComplementario2: ['Concepto complementario 2'],
+  conceptoComplementario3: ['Concepto complementario 3'],
+  conceptoComplementario4: ['Concepto complementario 4'],
+  conceptoComplementario5: ['Concepto complementario 5'],
+  conceptoComplementario6: ['Concepto complementario 6'],
+  conceptoComplementario7: ['Concepto complementario 7'],
+  conceptoComplementario8: ['Concepto complementario 8'],
+  conceptoComplementario9: ['Concepto complementario 9'],
+  conceptoComplementario10: ['Concepto complementario 10'],
+};
+
+const REQUIRED_COLUMNS: StatementColumn[] = [
+  'accountNumber',
+  'transactionDate',
+  'creditAmount',
+  'debitAmount',
+  'balance',
+];
+
+// Column positions of the standard Caixa Excel export, used when a row is
+// parsed without a header to map it
+export const EXCEL_EXPORT_COLUMNS: ColumnMap = {
+  accountNumber: 1,
+  branchCode: 2,
+  currency: 3,
+  transactionDate: 4,
+  valueDate: 5,
+  creditAmount: 6,
+  debitAmount: 7,
+  balance: 8,
+  negativeBalance: 9,
+  conceptoComun: 10,
+  conceptoPropio: 11,
+  referencia1: 12,
+  referencia2: 13,
+  conceptoComplementario1: 14,
+  conceptoComplementario2: 15,
+  conceptoComplementario3: 16,
+  conceptoComplementario4: 17,
+  conceptoComplementario5: 18,
+  conceptoComplementario6: 19,
+  conceptoComplementario7: 20,
+  conceptoComplementario8: 21,
+  conceptoComplementario9: 22,
+  conceptoComplementario10: 23,
+};
 
 export class ExcelParser {
-  static parseFile(filePath: string): ParsedExcelFile {
+  static parseFile(
+    filePath: string,
+    columns?: ColumnSchemaOverrides,
+    logger: Logger = SILENT_LOGGER
+  ): ParsedExcelFile {
+    return this.parseWorkbook(() => XLSX.readFile(filePath), columns, logger);
+  }
+
+  /**
+   * Parses an .xls or .xlsx file already read into memory
+   */
+  static parseBuffer(
+    buffer: Buffer,
+    columns?: ColumnSchemaOverrides,
+    logger: Logger = SILENT_LOGGER
+  ): ParsedExcelFile {
+    return this.parseWorkbook(() => XLSX.read(buffer, { type: 'buffer' }), columns, logger);
+  }
+
+  private static parseWorkbook(
+    read: () => XLSX.WorkBook,
+    columns: ColumnSchemaOverrides | undefined,
+    logger: Logger
+  ): ParsedExcelFile {
     try {
-      const workbook = XLSX.readFile(filePath);
+      const workbook = read();
       const sheetName = workbook.SheetNames[0];
       if (!sheetName) {
         throw new ParsingError('No worksheets found in Excel file');
@@ -36,51 +136,7 @@ export class ExcelParser {
         throw new ParsingError('Excel file appears to be empty');
       }
 
-      // Skip header rows and find the data rows
-      const headerRowIndex = this.findHeaderRow(rawData);
-      if (headerRowIndex === -1) {
-        throw new ParsingError('Could not find expected header row in Excel file');
-      }
-
-      const dataRows = rawData.slice(headerRowIndex + 1);
-
-      // Parse period from the first row
-      const periodRow = rawData.find((row) => row[1]?.toString().includes('MOVIMIENTOS DESDE'));
-      const periodMatch = periodRow?.[1]
-        ?.toString()
-        .match(/DESDE : (\d{2}\/\d{2}\/\d{4}) HASTA: (\d{2}\/\d{2}\/\d{4})/);
-      const startDate = periodMatch?.[1] || '';
-      const endDate = periodMatch?.[2] || '';
-
-      // Parse transactions
-      const transactions: ExcelTransaction[] = [];
-      let openingBalance = 0;
-      let isFirstTransaction = true;
-
-      for (const row of dataRows) {
-        if (row.length < 25 || !row[1]?.toString().trim()) continue; // Skip empty rows
-
-        const transaction = this.parseTransactionRow(row);
-        if (transaction) {
-          transactions.push(transaction);
-
-          if (isFirstTransaction) {
-            // Calculate opening balance: balance - (credit - debit)
-            const amount = (transaction.creditAmount || 0) - (transaction.debitAmount || 0);
-            openingBalance = transaction.balance - amount;
-            isFirstTransaction = false;
-          }
-        }
-      }
-
-      return {
-        accountNumber: transactions[0]?.accountNumber || '',
-        currency: transactions[0]?.currency || 'EUR',
-        period: { start: startDate, end: endDate },
-        openingBalance,
-        transactions,
-        closingBalance: transactions[transactions.length - 1]?.balance || 0,
-      };
+      return this.parseRows(rawData, columns, undefined, logger);
     } catch (error) {
       if (error instanceof ParsingError) {
         throw error;
@@ -91,75 +147,280 @@ export class ExcelParser {
     }
   }
 
-  public static findHeaderRow(data: unknown[][]): number {
-    for (let i = 0; i < data.length; i++) {
-      const row = data[i];
-      if (row[1]?.toString().toLowerCase().includes('número de cuenta')) {
-        return i;
+  /**
+   * Parses a statement already loaded as a grid of cells. Columns are located
+   * through the header row, so their order and position do not matter.
+   * sourceRows gives the file row of each grid row when they differ.
+   */
+  static parseRows(
+    rawData: unknown[][],
+    columns?: ColumnSchemaOverrides,
+    sourceRows?: number[],
+    logger: Logger = SILENT_LOGGER
+  ): ParsedExcelFile {
+    const schema = this.buildColumnSchema(columns);
+
+    // Skip header rows and find the data rows
+    const headerRowIndex = this.findHeaderRow(rawData, schema);
+    if (headerRowIndex === -1) {
+      throw new ParsingError(
+        `Could not find expected header row in Excel file (looked for a row containing ` +
+          `"${schema.accountNumber[0]}" and "${schema.transactionDate[0]}")`
+      );
+    }
+
+    const columnMap = this.resolveColumns(rawData[headerRowIndex], schema, headerRowIndex + 1);
+    const dataRows = rawData.slice(headerRowIndex + 1);
+    const accountColumn = columnMap.accountNumber!;
+
+    // Parse period from the "MOVIMIENTOS DESDE ... HASTA" row above the header
+    const periodCell = rawData
+      .slice(0, headerRowIndex)
+      .flat()
+      .find((cell) => cell?.toString().includes('MOVIMIENTOS DESDE'));
+    const periodMatch = periodCell
+      ?.toString()
+      .match(/DESDE : (\d{2}\/\d{2}\/\d{4}) HASTA: (\d{2}\/\d{2}\/\d{4})/);
+    const startDate = periodMatch?.[1] || '';
+    const endDate = periodMatch?.[2] || '';
+
+    // Parse transactions
+    const parsedRows: ExcelTransaction[] = [];
+    dataRows.forEach((row, i) => {
+      if (!row[accountColumn]?.toString().trim()) return; // Skip empty rows
+
+      const index = headerRowIndex + 1 + i;
+      const sourceRow = sourceRows?.[index] ?? index + 1;
+      let transaction: ExcelTransaction | null;
+      try {
+        transaction = this.parseTransactionRow(row, columnMap, logger);
+      } catch (error) {
+        if (error instanceof ParsingError && error.row === undefined) {
+          throw new ParsingError(error.message, sourceRow, error.column);
+        }
+        throw error;
+      }
+      if (transaction) {
+        transaction.sourceRow = sourceRow;
+        parsedRows.push(transaction);
+      }
+    });
+
+    // Caixa exports list the newest movement first; work in chronological order
+    const transactions =
+      this.detectOrdering(parsedRows) === 'descending' ? [...parsedRows].reverse() : parsedRows;
+    const first = transactions[0];
+    const last = transactions[transactions.length - 1];
+
+    // Opening balance is the balance before the oldest movement was applied
+    const openingBalance = first ? first.balance.minus(this.signedAmount(first)) : Money.ZERO;
+
+    return {
+      accountNumber: first?.accountNumber || '',
+      currency: first?.currency || 'EUR',
+      period: {
+        start: startDate || first?.transactionDate || '',
+        end: endDate || last?.transactionDate || '',
+      },
+      openingBalance,
+      transactions,
+      closingBalance: last?.balance || Money.ZERO,
+    };
+  }
+
+  /**
+   * Tells whether the rows run oldest-first or newest-first. Dates decide when
+   * they span more than one day; otherwise the running balance does, by
+   * checking in which direction each row's balance follows from its neighbour.
+   */
+  static detectOrdering(transactions: ExcelTransaction[]): StatementOrdering {
+    const keys = transactions.map(
+      (txn) => StatementDate.key(txn.transactionDate) ?? txn.transactionDate
+    );
+    let ascendingDates = 0;
+    let descendingDates = 0;
+    for (let i = 1; i < keys.length; i++) {
+      if (keys[i] > keys[i - 1]) ascendingDates++;
+      if (keys[i] < keys[i - 1]) descendingDates++;
+    }
+    if (ascendingDates !== descendingDates) {
+      return ascendingDates > descendingDates ? 'ascending' : 'descending';
+    }
+
+    let ascendingChain = 0;
+    let descendingChain = 0;
+    for (let i = 1; i < transactions.length; i++) {
+      const previous = transactions[i - 1];
+      const current = transactions[i];
+      if (previous.balance.plus(this.signedAmount(current)).equals(current.balance)) {
+        ascendingChain++;
+      }
+      if (current.balance.plus(this.signedAmount(previous)).equals(previous.balance)) {
+        descendingChain++;
+      }
+    }
+
+    return descendingChain > ascendingChain ? 'descending' : 'ascending';
+  }
+
+  /**
+   * Merges user overrides into the default schema. An override replaces the
+   * labels of that column entirely.
+   */
+  static buildColumnSchema(overrides: ColumnSchemaOverrides = {}): ColumnSchema {
+    const schema = { ...DEFAULT_COLUMN_SCHEMA };
+    for (const [column, labels] of Object.entries(overrides)) {
+      if (!(column in DEFAULT_COLUMN_SCHEMA)) {
+        throw new ConfigurationError(`Unknown column in column schema: ${column}`);
       }
+      if (labels === undefined) continue;
+      schema[column as StatementColumn] = Array.isArray(labels) ? labels : [labels];
     }
-    return 3; // Default fallback
+    return schema;
+  }
+
+  /**
+   * Returns the index of the first row holding both the account number and
+   * the transaction date headers, or -1 when there is none.
+   */
+  public static findHeaderRow(
+    data: unknown[][],
+    schema: ColumnSchema = DEFAULT_COLUMN_SCHEMA
+  ): number {
+    return data.findIndex(
+      (row) =>
+        this.findColumn(row, schema.accountNumber) !== -1 &&
+        this.findColumn(row, schema.transactionDate) !== -1
+    );
+  }
+
+  /**
+   * Maps every known column to its index in the header row, failing with the
+   * full list of required columns that could not be found.
+   */
+  public static resolveColumns(
+    headerRow: unknown[],
+    schema: ColumnSchema = DEFAULT_COLUMN_SCHEMA,
+    rowNumber?: number
+  ): ColumnMap {
+    const columnMap: ColumnMap = {};
+    for (const column of Object.keys(schema) as StatementColumn[]) {
+      const index = this.findColumn(headerRow, schema[column]);
+      if (index !== -1) columnMap[column] = index;
+    }
+
+    const missing = REQUIRED_COLUMNS.filter((column) => columnMap[column] === undefined);
+    if (missing.length > 0) {
+      throw new ParsingError(
+        `Missing required columns: ${missing.map((column) => `"${schema[column][0]}" (${column})`).join(', ')}`,
+        rowNumber
+      );
+    }
+
+    return columnMap;
+  }
+
+  private static signedAmount(txn: ExcelTransaction): Money {
+    return (txn.creditAmount || Money.ZERO).minus(txn.debitAmount || Money.ZERO);
+  }
+
+  public static normalizeHeader(header: string): string {
+    return this.normalizeSpaces(header)
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase();
   }
 
   public static normalizeSpaces(str: string): string {
     return str.trim().replace(/\s+/g, ' ');
   }
 
-  public static parseTransactionRow(row: unknown[]): ExcelTransaction | null {
-    try {
-      // Validate row has minimum required length
-      if (row.length < 25) {
+  public static parseTransactionRow(
+    row: unknown[],
+    columns: ColumnMap = EXCEL_EXPORT_COLUMNS,
+    logger: Logger = SILENT_LOGGER
+  ): ExcelTransaction | null {
+    const cell = (column: StatementColumn): string => {
+      const index = columns[column];
+      return index === undefined ? '' : this.normalizeSpaces((row[index] ?? '').toString());
+    };
+    const amount = (column: StatementColumn): Money | null => {
+      const value = cell(column);
+      if (!value) return null;
+      try {
+        return Money.parse(value);
+      } catch {
         throw new ParsingError(
-          `Row has insufficient columns: expected at least 25, got ${row.length}`
+          `Invalid amount in ${column} column: ${value}`,
+          undefined,
+          columns[column]! + 1
         );
       }
+    };
 
+    try {
       // Validate required fields
-      const accountNumber = this.normalizeSpaces((row[1] || '').toString());
-      if (!accountNumber.trim()) {
+      const accountNumber = cell('accountNumber');
+      if (!accountNumber) {
         throw new ParsingError('Missing account number in transaction row');
       }
 
-      const transactionDate = this.normalizeSpaces((row[4] || '').toString());
-      if (!transactionDate.trim()) {
+      const transactionDate = cell('transactionDate');
+      if (!transactionDate) {
         throw new ParsingError('Missing transaction date in transaction row');
       }
 
+      const creditAmount = amount('creditAmount');
+      const debitAmount = amount('debitAmount');
+      const balance = amount('balance');
+      const negativeBalance = amount('negativeBalance');
+
       return {
         accountNumber,
-        branchCode: this.normalizeSpaces((row[2] || '').toString()),
-        currency: this.normalizeSpaces((row[3] || '').toString()),
+        branchCode: cell('branchCode'),
+        currency: cell('currency'),
         transactionDate,
-        valueDate: this.normalizeSpaces((row[5] || '').toString()),
-        creditAmount: row[6] ? parseFloat(row[6].toString()) : null,
-        debitAmount: row[7] ? parseFloat(row[7].toString()) : null,
-        balance: row[8]
-          ? parseFloat(row[8].toString())
-          : row[9]
-            ? -parseFloat(row[9].toString())
-            : 0,
-        conceptoComun: this.normalizeSpaces((row[10] || '').toString()),
-        conceptoPropio: this.normalizeSpaces((row[11] || '').toString()),
-        referencia1: this.normalizeSpaces((row[12] || '').toString()),
-        referencia2: this.normalizeSpaces((row[13] || '').toString()),
-        conceptoComplementario1: this.normalizeSpaces((row[14] || '').toString()),
-        conceptoComplementario2: this.normalizeSpaces((row[15] || '').toString()),
-        conceptoComplementario3: this.normalizeSpaces((row[16] || '').toString()),
-        conceptoComplementario4: this.normalizeSpaces((row[17] || '').toString()),
-        conceptoComplementario5: this.normalizeSpaces((row[18] || '').toString()),
-        conceptoComplementario6: this.normalizeSpaces((row[19] || '').toString()),
-        conceptoComplementario7: this.normalizeSpaces((row[20] || '').toString()),
-        conceptoComplementario8: this.normalizeSpaces((row[21] || '').toString()),
-        conceptoComplementario9: this.normalizeSpaces((row[22] || '').toString()),
-        conceptoComplementario10: this.normalizeSpaces((row[23] || '').toString()),
+        valueDate: cell('valueDate'),
+        creditAmount,
+        debitAmount,
+        balance:
+          balance && !balance.isZero()
+            ? balance
+            : negativeBalance?.negate() || balance || Money.ZERO,
+        conceptoComun: cell('conceptoComun'),
+        conceptoPropio: cell('conceptoPropio'),
+        referencia1: cell('referencia1'),
+        referencia2: cell('referencia2'),
+        conceptoComplementario1: cell('conceptoComplementario1'),
+        conceptoComplementario2: cell('conceptoComplementario2'),
+        conceptoComplementario3: cell('conceptoComplementario3'),
+        conceptoComplementario4: cell('conceptoComplementario4'),
+        conceptoComplementario5: cell('conceptoComplementario5'),
+        conceptoComplementario6: cell('conceptoComplementario6'),
+        conceptoComplementario7: cell('conceptoComplementario7'),
+        conceptoComplementario8: cell('conceptoComplementario8'),
+        conceptoComplementario9: cell('conceptoComplementario9'),
+        conceptoComplementario10: cell('conceptoComplementario10'),
       };
     } catch (error) {
       if (error instanceof ParsingError) {
         throw error;
       }
       // Log warning but don't fail completely for individual row errors
-      console.warn('Failed to parse transaction row:', row, error);
+      logger.warn(
+        `Failed to parse transaction row ${JSON.stringify(row)}: ${error instanceof Error ? error.message : error}`
+      );
       return null;
     }
   }
+
+  private static findColumn(row: unknown[], labels: string[]): number {
+    const normalizedLabels = labels.map((label) => this.normalizeHeader(label));
+    return row.findIndex(
+      (cell) =>
+        cell !== null &&
+        cell !== undefined &&
+        normalizedLabels.includes(this.normalizeHeader(cell.toString()))
+    );
+  }
 }
@@ -0,0 +1,160 @@
+/*
+ * caixa2bean - Convert Caixa bank statements to Beancount format
+ * Copyright (C) 2026  Kevin Curtet
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { ExcelTransaction } from './types.js';
+import { Money } from './money.js';
+import { RefundConfig } from './config.js';
+import { ConditionParser, ConditionPredicate } from './condition.js';
+import { ConfigurationError } from './errors.js';
+import { DEFAULT_FUZZY_THRESHOLD, FuzzyMatcher } from './fuzzy.js';
+import { RuleSuggester } from './suggest.js';
+import { Ledger, LedgerPurchase } from './ledger.js';
+import { StatementDate } from './dates.js';
+
+export const DEFAULT_REFUND_CONDITION =
+  "direction = 'credit' AND description MATCHES 'devoluci[oó]n|reembolso|anulaci[oó]n|refund'";
+export const DEFAULT_REFUND_WINDOW_DAYS = 60;
+
+/**
+ * A refund and the purchase it returns, from the same statements or from
+ * an existing ledger. Every refund of one purchase shares its link.
+ */
+export interface RefundLink {
+  refund: ExcelTransaction;
+  purchase: ExcelTransaction | LedgerPurchase;
+  similarity: number; // How well the merchants compare, from 0 to 1
+  link: string | null; // Beancount link, without the ^. null when the ledger purchase lacks it
+}
+
+interface Candidate {
+  purchase: ExcelTransaction | LedgerPurchase;
+  day: number;
+  card: string | null; // null for ledger purchases, which do not keep it
+  amount: Money;
+  merchant: string;
+  link: string | null;
+}
+
+/**
+ * Pairs refunds with the purchase they return: an earlier charge on the
+ * same card, from a similar merchant, within the window and with enough of
+ * its amount not yet refunded
+ */
+export class RefundMatcher {
+  private constructor(
+    private readonly isRefund: ConditionPredicate,
+    private readonly windowDays: number,
+    private readonly minSimilarity: number
+  ) {}
+
+  static compile(config: RefundConfig = {}): RefundMatcher {
+    const invalid = (reason: string) =>
+      new ConfigurationError(`Invalid converter.refunds: ${reason}`, 'config.json');
+
+    const windowDays = config.windowDays ?? DEFAULT_REFUND_WINDOW_DAYS;
+    if (typeof windowDays !== 'number' || windowDays < 0) {
+      throw invalid(`windowDays must be a non-negative number, got ${JSON.stringify(windowDays)}`);
+    }
+    const minSimilarity = config.minSimilarity ?? DEFAULT_FUZZY_THRESHOLD;
+    if (typeof minSimilarity !== 'number' || minSimilarity < 0 || minSimilarity > 1) {
+      throw invalid(`minSimilarity must be between 0 and 1, got ${JSON.stringify(minSimilarity)}`);
+    }
+    try {
+      const isRefund = ConditionParser.compile(config.condition ?? DEFAULT_REFUND_CONDITION);
+      return new RefundMatcher(isRefund, windowDays, minSimilarity);
+    } catch (error) {
+      throw invalid(`condition: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  /**
+   * Links each refund to its likeliest purchase: the most similar merchant,
+   * then an exact amount, then the most recent purchase. Purchases an
+   * existing ledger holds are candidates too, on any card since the ledger
+   * does not keep it, and are linked only when their entry carries the link.
+   */
+  pair(transactions: ExcelTransaction[], ledgerPurchases: LedgerPurchase[] = []): RefundLink[] {
+    const ordered = [...transactions].sort((a, b) => day(a) - day(b) || 0);
+    const candidates: Candidate[] = [
+      ...ledgerPurchases.map((purchase) => {
+        const link = `refund-${purchase.importId}`;
+        return {
+          purchase,
+          day: StatementDate.dayNumber(purchase.date),
+          card: null,
+          amount: purchase.amount,
+          // The narration starts with the first complementary concept
+          merchant: purchase.narration.split(' - ')[0],
+          link: purchase.links.includes(link) ? link : null,
+        };
+      }),
+      ...ordered
+        .filter((purchase) => purchase.debitAmount)
+        .map((purchase) => ({
+          purchase,
+          day: day(purchase),
+          card: purchase.referencia2,
+          amount: purchase.debitAmount!,
+          merchant: RuleSuggester.merchantText(purchase),
+          link: `refund-${Ledger.importId(purchase)}`,
+        })),
+    ].sort((a, b) => a.day - b.day);
+    const unrefunded = new Map<Candidate, Money>();
+    const links: RefundLink[] = [];
+
+    for (const refund of ordered) {
+      const amount = refund.creditAmount;
+      if (!amount?.isPositive() || !this.isRefund(refund)) continue;
+
+      let best: { candidate: Candidate; similarity: number; exact: boolean } | null = null;
+      for (const candidate of candidates) {
+        const age = day(refund) - candidate.day;
+        if (!(age >= 0 && age <= this.windowDays)) continue;
+        if (candidate.card !== null && candidate.card !== refund.referencia2) continue;
+        const left = unrefunded.get(candidate) ?? candidate.amount;
+        if (amount.greaterThan(left)) continue;
+
+        const merchant = RuleSuggester.normalizeMerchant(candidate.merchant);
+        if (!merchant) continue;
+        const similarity = FuzzyMatcher.score(merchant, RuleSuggester.merchantText(refund));
+        if (similarity < this.minSimilarity) continue;
+
+        // Purchases come in date order, so ties go to the most recent one
+        const exact = amount.equals(left);
+        if (
+          !best ||
+          similarity > best.similarity ||
+          (similarity === best.similarity && (exact || !best.exact))
+        ) {
+          best = { candidate, similarity, exact };
+        }
+      }
+      if (!best) continue;
+
+      const { candidate, similarity } = best;
+      unrefunded.set(candidate, (unrefunded.get(candidate) ?? candidate.amount).minus(amount));
+      links.push({ refund, purchase: candidate.purchase, similarity, link: candidate.link });
+    }
+
+    return links;
+  }
+}
+
+function day(txn: ExcelTransaction): number {
+  return StatementDate.dayNumber(txn.transactionDate);
+}
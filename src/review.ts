@@ -0,0 +1,293 @@
+/*
+ * caixa2bean - Convert Caixa bank statements to Beancount format
+ * Copyright (C) 2026  Kevin Curtet
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import fs from 'fs';
+import { Ledger } from './ledger.js';
+import { Categorizer } from './categorizer.js';
+import { DEFAULT_MERCHANT_CONFIG, MerchantConfig, MerchantRule, RuleSet } from './rules.js';
+import { ConfigurationError } from './errors.js';
+
+const ACCOUNT_NAME = /^(Assets|Liabilities|Equity|Income|Expenses)(:[A-Z0-9][A-Za-z0-9-]*)+$/;
+
+/**
+ * A generated transaction whose category needs a human decision: it fell
+ * through to the unknown account, or the categorizer was unsure (flag !)
+ */
+export interface ReviewCandidate {
+  line: number; // 1-based line of the header
+  postingLine: number; // 1-based line of the category posting
+  date: string;
+  narration: string;
+  account: string; // Current category
+  amount: string; // Category posting amount as written, e.g. "12.30 EUR"
+  flag: '*' | '!';
+}
+
+/**
+ * Terminal interaction of a review session. ask resolves to null once the
+ * user closes the input.
+ */
+export interface ReviewPrompt {
+  ask(question: string): Promise<string | null>;
+  print(text: string): void;
+}
+
+export interface ReviewSummary {
+  text: string; // Ledger with the decisions applied
+  changed: number;
+  skipped: number;
+  rulesAdded: MerchantRule[];
+}
+
+export class LedgerReview {
+  /**
+   * Finds the two-posting transactions to review, the category being the
+   * second posting as the converter writes it
+   */
+  static candidates(text: string, unknownAccount: string = 'Expenses:Unknown'): ReviewCandidate[] {
+    const lines = text.split(/\r?\n/);
+    const candidates: ReviewCandidate[] = [];
+
+    for (const txn of Ledger.transactions(text)) {
+      if (txn.accounts.length !== 2) continue;
+      const account = txn.accounts[1];
+      if (account !== unknownAccount && txn.flag !== '!') continue;
+
+      const postingLine = txn.postingLines[1];
+      const posting = lines[postingLine - 1].match(/^\s+(?:[*!]\s+)?\S+\s*(.*?)\s*$/);
+      candidates.push({
+        line: txn.line,
+        postingLine,
+        date: txn.date,
+        narration: txn.narration,
+        account,
+        amount: posting?.[1] ?? '',
+        flag: txn.flag,
+      });
+    }
+
+    return candidates;
+  }
+
+  /**
+   * Moves the candidate's category posting to another account and clears
+   * the ! flag. The amount keeps its column whenever the new name fits.
+   */
+  static recategorize(text: string, candidate: ReviewCandidate, account: string): string {
+    const lines = text.split(/\r?\n/);
+    lines[candidate.line - 1] = lines[candidate.line - 1].replace(
+      /^(\d{4}-\d{2}-\d{2}\s+)!/,
+      '$1*'
+    );
+
+    const posting = lines[candidate.postingLine - 1].match(/^(\s+(?:[*!]\s+)?)(\S+)(\s*)(.*)$/);
+    if (posting) {
+      const [, indent, oldAccount, gap, rest] = posting;
+      const width = oldAccount.length + gap.length - account.length;
+      lines[candidate.postingLine - 1] = rest
+        ? `${indent}${account}${' '.repeat(Math.max(2, width))}${rest}`
+        : `${indent}${account}`;
+    }
+    return lines.join('\n');
+  }
+
+  /**
+   * Accounts the ledger opens or posts to, for autocompletion
+   */
+  static knownAccounts(text: string): string[] {
+    const accounts = new Set(Ledger.parse(text).openAccounts);
+    for (const txn of Ledger.transactions(text)) {
+      for (const account of txn.accounts) accounts.add(account);
+    }
+    return [...accounts].sort();
+  }
+
+  /**
+   * The merchant part of a generated narration, used as the keyword of a
+   * new rule: "CAFE SOL - COMPRA CON TARJETA" gives "cafe sol"
+   */
+  static merchantKeyword(narration: string): string {
+    return narration.split(' - ')[0].trim().toLowerCase();
+  }
+
+  static isAccountName(account: string): boolean {
+    return ACCOUNT_NAME.test(account);
+  }
+
+  /**
+   * Appends a keyword rule to merchants.json, starting from the built-in
+   * rules when the file does not exist yet so they keep applying
+   */
+  static appendRule(configPath: string, rule: MerchantRule): void {
+    let config: MerchantConfig;
+    try {
+      config = fs.existsSync(configPath)
+        ? JSON.parse(fs.readFileSync(configPath, 'utf8'))
+        : JSON.parse(JSON.stringify(DEFAULT_MERCHANT_CONFIG));
+    } catch (error) {
+      throw new ConfigurationError(
+        `Failed to load merchant configuration: ${error instanceof Error ? error.message : error}`,
+        configPath
+      );
+    }
+
+    config.rules = [...(config.rules || []), rule];
+    RuleSet.compile(config, configPath);
+    fs.writeFileSync(configPath, `${JSON.stringify(config, null, 2)}\n`, 'utf8');
+  }
+}
+
+/**
+ * Walks through review candidates one by one, letting the user accept a
+ * suggestion, pick another account, or turn the choice into a merchant rule
+ */
+export class ReviewSession {
+  private readonly learned: { keyword: string; account: string }[] = [];
+
+  constructor(
+    private readonly prompt: ReviewPrompt,
+    private readonly merchantsPath: string,
+    private readonly categorizer: Categorizer | null = null,
+    private readonly unknownAccount: string = 'Expenses:Unknown'
+  ) {}
+
+  async run(text: string, candidates: ReviewCandidate[]): Promise<ReviewSummary> {
+    const summary: ReviewSummary = { text, changed: 0, skipped: 0, rulesAdded: [] };
+
+    for (const [position, candidate] of candidates.entries()) {
+      // A rule added earlier in this session settles its merchant right away
+      const narration = candidate.narration.toLowerCase();
+      const known = this.learned.find(({ keyword }) => narration.includes(keyword));
+      if (known) {
+        summary.text = LedgerReview.recategorize(summary.text, candidate, known.account);
+        summary.changed++;
+        continue;
+      }
+
+      this.prompt.print(
+        `\n[${position + 1}/${candidates.length}] ${candidate.date} ${candidate.narration}  ${candidate.amount}`
+      );
+      this.prompt.print(
+        `   Currently ${candidate.account}${candidate.flag === '!' ? ' (low confidence)' : ''}`
+      );
+      const suggestions = this.suggest(candidate);
+      suggestions.forEach((suggestion, index) => {
+        this.prompt.print(`   ${index + 1}) ${suggestion.account}${suggestion.note}`);
+      });
+
+      const decision = await this.decide(
+        candidate,
+        suggestions.map(({ account }) => account)
+      );
+      if (decision === null) {
+        summary.skipped += candidates.length - position;
+        break;
+      }
+      if (decision.account === null) {
+        summary.skipped++;
+        continue;
+      }
+
+      if (decision.keyword) {
+        const rule: MerchantRule = { keywords: [decision.keyword], account: decision.account };
+        LedgerReview.appendRule(this.merchantsPath, rule);
+        this.learned.push({ keyword: decision.keyword.toLowerCase(), account: decision.account });
+        summary.rulesAdded.push(rule);
+        this.prompt.print(`   Added rule "${decision.keyword}" → ${decision.account}`);
+      }
+      summary.text = LedgerReview.recategorize(summary.text, candidate, decision.account);
+      summary.changed++;
+    }
+
+    return summary;
+  }
+
+  private suggest(candidate: ReviewCandidate): { account: string; note: string }[] {
+    const suggestions: { account: string; note: string }[] = [];
+    const prediction = this.categorizer?.predict(candidate.narration);
+    if (prediction && prediction.account !== this.unknownAccount) {
+      suggestions.push({
+        account: prediction.account,
+        note: ` (learned ${prediction.confidence.toFixed(2)})`,
+      });
+    }
+    if (
+      candidate.account !== this.unknownAccount &&
+      !suggestions.some(({ account }) => account === candidate.account)
+    ) {
+      suggestions.push({ account: candidate.account, note: ' (current)' });
+    }
+    return suggestions;
+  }
+
+  /**
+   * Asks until the user decides. Resolves to null when the user quits and to
+   * a null account when the transaction is skipped.
+   */
+  private async decide(
+    candidate: ReviewCandidate,
+    suggestions: string[]
+  ): Promise<{ account: string | null; keyword?: string } | null> {
+    for (;;) {
+      const answer = await this.prompt.ask(
+        '   [a]ccept, [c]hange, a[l]ways use for this merchant, [s]kip, [q]uit? '
+      );
+      if (answer === null) return null;
+      const choice = answer.trim().toLowerCase();
+
+      if (choice === 'a' || choice === '' || /^\d+$/.test(choice)) {
+        const account = suggestions[/^\d+$/.test(choice) ? Number(choice) - 1 : 0];
+        if (account) return { account };
+        this.prompt.print('   No such suggestion, choose [c]hange to enter an account');
+      } else if (choice === 'c') {
+        const account = await this.askAccount(suggestions[0]);
+        if (account === null) return null;
+        if (account) return { account };
+      } else if (choice === 'l') {
+        const account = await this.askAccount(suggestions[0]);
+        if (account === null) return null;
+        if (!account) continue;
+
+        const suggested = LedgerReview.merchantKeyword(candidate.narration);
+        const keyword = await this.prompt.ask(`   Keyword [${suggested}]: `);
+        if (keyword === null) return null;
+        return { account, keyword: keyword.trim() || suggested };
+      } else if (choice === 's') {
+        return { account: null };
+      } else if (choice === 'q') {
+        return null;
+      } else {
+        this.prompt.print(`   Unknown choice "${answer.trim()}"`);
+      }
+    }
+  }
+
+  /**
+   * Asks for an account name. Resolves to '' when the user gives up on it
+   * and null when the input is closed.
+   */
+  private async askAccount(suggestion?: string): Promise<string | null> {
+    for (;;) {
+      const answer = await this.prompt.ask(`   Account${suggestion ? ` [${suggestion}]` : ''}: `);
+      if (answer === null) return null;
+      const account = answer.trim() || suggestion || '';
+      if (!account || LedgerReview.isAccountName(account)) return account;
+      this.prompt.print(`   "${account}" is not a valid Beancount account name`);
+    }
+  }
+}
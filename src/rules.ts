@@ -0,0 +1,498 @@
+/*
+ * caixa2bean - Convert Caixa bank statements to Beancount format
+ * Copyright (C) 2026  Kevin Curtet
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { ExcelTransaction } from './types.js';
+import { Money } from './money.js';
+import { ConfigurationError } from './errors.js';
+import { ConditionParser, ConditionPredicate } from './condition.js';
+import { PostingSplitter, SplitShare } from './split.js';
+import { DEFAULT_FUZZY_THRESHOLD, FuzzyMatcher } from './fuzzy.js';
+import { ConceptTable } from './concepts.js';
+import { StatementDate } from './dates.js';
+
+/**
+ * Restrictions every rule kind may add on top of its keywords, regex or
+ * condition. All are optional; a rule only matches when each one set holds.
+ */
+export interface RuleCriteria {
+  direction?: 'debit' | 'credit';
+  minAmount?: number | string; // Unsigned movement, inclusive
+  maxAmount?: number | string;
+  card?: string | string[]; // Card number in referencia2, or its last digits
+  conceptoComun?: string | string[];
+  type?: string | string[]; // Transaction type from the concept code table, e.g. "atm"
+  dateFrom?: string; // YYYY-MM-DD or DD/MM/YYYY, inclusive
+  dateTo?: string;
+  fields?: TextField[]; // Fields keywords and regex are matched against
+  wholeWord?: boolean; // Keywords must match whole words
+  priority?: number; // Higher runs first; ties keep rules, patterns, fallbacks order
+}
+
+export interface MerchantRule extends RuleCriteria {
+  keywords: string[];
+  fuzzy?: boolean | number; // Tolerate misspelt or truncated keywords, optionally with a minimum score
+  account: string;
+  description?: string;
+  split?: SplitShare[]; // Divide the amount across several postings
+}
+
+export interface PatternRule extends RuleCriteria {
+  regex: string;
+  account: string;
+  description?: string;
+  split?: SplitShare[]; // Divide the amount across several postings
+}
+
+export interface FallbackRule extends RuleCriteria {
+  condition: string;
+  account: string;
+  description?: string;
+  split?: SplitShare[]; // Divide the amount across several postings
+}
+
+export interface MerchantConfig {
+  rules: MerchantRule[];
+  patterns: PatternRule[];
+  fallbacks?: FallbackRule[];
+}
+
+export type RuleKind = 'rules' | 'patterns' | 'fallbacks';
+
+export interface RuleMatch {
+  account: string;
+  kind: RuleKind;
+  index: number; // Position in its merchants.json array
+  rule: MerchantRule | PatternRule | FallbackRule;
+  text: string; // Text the rule matched against, or the fallback condition
+  matchedText?: string; // Keyword or regex match that selected the rule
+  score?: number; // Similarity of a fuzzy keyword match, 1 when exact
+}
+
+export interface RuleCheck {
+  kind: RuleKind;
+  index: number;
+  rule: MerchantRule | PatternRule | FallbackRule;
+  priority: number;
+  reason: string; // Why the rule did not match
+}
+
+export interface RuleExplanation {
+  match: RuleMatch | null;
+  checked: RuleCheck[]; // Rules tried before the match, in priority order
+}
+
+export const TEXT_FIELDS = [
+  'conceptoComun',
+  'conceptoPropio',
+  'referencia1',
+  'referencia2',
+  'conceptoComplementario1',
+  'conceptoComplementario2',
+  'conceptoComplementario3',
+  'conceptoComplementario4',
+  'conceptoComplementario5',
+  'conceptoComplementario6',
+  'conceptoComplementario7',
+  'conceptoComplementario8',
+  'conceptoComplementario9',
+  'conceptoComplementario10',
+] as const;
+
+export type TextField = (typeof TEXT_FIELDS)[number];
+
+export const DEFAULT_FIELDS: TextField[] = [
+  'conceptoComplementario1',
+  'conceptoComplementario9',
+  'conceptoComplementario2',
+];
+
+/**
+ * Built-in rules used when there is no merchants.json
+ */
+export const DEFAULT_MERCHANT_CONFIG: MerchantConfig = {
+  rules: [
+    { keywords: ['shell', 'fuel', 'gas'], account: 'Expenses:Transportation:Fuel' },
+    { keywords: ['amazon', 'lidl'], account: 'Expenses:Groceries' },
+    { keywords: ['bizum', 'transfer'], account: 'Assets:Bank:Caixa:Savings' },
+    { keywords: ['income', 'salary', 'haber'], account: 'Income:Salary' },
+    { keywords: ['vending', 'snack'], account: 'Expenses:Food:Snacks' },
+    { keywords: ['steam', 'game'], account: 'Expenses:Entertainment:Games' },
+  ],
+  patterns: [],
+  fallbacks: [],
+};
+
+const KIND_ORDER: RuleKind[] = ['rules', 'patterns', 'fallbacks'];
+
+interface MatcherResult {
+  text: string; // What the rule looked at
+  matchedText: string | null; // Keyword or regex match, '' for a true condition
+  score?: number; // Best fuzzy similarity, even when below the threshold
+  closest?: string; // Keyword that scored best
+}
+
+interface CompiledRule {
+  kind: RuleKind;
+  index: number;
+  rule: MerchantRule | PatternRule | FallbackRule;
+  priority: number;
+  reject: (txn: ExcelTransaction) => string | null;
+  match: (txn: ExcelTransaction) => MatcherResult;
+}
+
+export class RuleSet {
+  private constructor(private readonly compiled: CompiledRule[]) {}
+
+  /**
+   * Validates and compiles merchants.json, ordering rules by priority. Any
+   * invalid rule throws a ConfigurationError naming the rule.
+   */
+  static compile(
+    config: MerchantConfig,
+    configPath?: string,
+    concepts: ConceptTable = ConceptTable.DEFAULT
+  ): RuleSet {
+    const compiled: CompiledRule[] = [];
+
+    for (const kind of KIND_ORDER) {
+      const rules = (config[kind] || []) as (MerchantRule | PatternRule | FallbackRule)[];
+      rules.forEach((rule, index) => {
+        try {
+          if (rule.split !== undefined) PostingSplitter.validate(rule.split);
+          compiled.push({
+            kind,
+            index,
+            rule,
+            priority: this.priority(rule),
+            reject: this.compileCriteria(rule, concepts),
+            match: this.compileMatcher(kind, rule, concepts),
+          });
+        } catch (error) {
+          const reason = error instanceof Error ? error.message : String(error);
+          throw new ConfigurationError(
+            `Invalid ${kind}[${index}] (${rule.account}): ${reason}`,
+            configPath
+          );
+        }
+      });
+    }
+
+    // Array.prototype.sort is stable, so equal priorities keep their order
+    compiled.sort((a, b) => b.priority - a.priority);
+    return new RuleSet(compiled);
+  }
+
+  /**
+   * Every rule, in the order they are tried
+   */
+  get rules(): {
+    kind: RuleKind;
+    index: number;
+    rule: MerchantRule | PatternRule | FallbackRule;
+  }[] {
+    return this.compiled.map(({ kind, index, rule }) => ({ kind, index, rule }));
+  }
+
+  /**
+   * Returns the first rule, by priority, that matches the transaction
+   */
+  match(txn: ExcelTransaction): RuleMatch | null {
+    for (const candidate of this.compiled) {
+      if (candidate.reject(txn) !== null) continue;
+      const result = candidate.match(txn);
+      if (result.matchedText !== null) return this.toMatch(candidate, result);
+    }
+    return null;
+  }
+
+  /**
+   * Like match, but also reports every rule tried before the matching one
+   * and why it did not match
+   */
+  explain(txn: ExcelTransaction): RuleExplanation {
+    const checked: RuleCheck[] = [];
+
+    for (const candidate of this.compiled) {
+      const check = {
+        kind: candidate.kind,
+        index: candidate.index,
+        rule: candidate.rule,
+        priority: candidate.priority,
+      };
+
+      const rejection = candidate.reject(txn);
+      if (rejection !== null) {
+        checked.push({ ...check, reason: rejection });
+        continue;
+      }
+
+      const result = candidate.match(txn);
+      if (result.matchedText !== null) {
+        return { match: this.toMatch(candidate, result), checked };
+      }
+      checked.push({ ...check, reason: this.mismatchReason(candidate, result) });
+    }
+
+    return { match: null, checked };
+  }
+
+  /**
+   * Short human-readable reference to a rule, e.g. rules[2] "Gas stations"
+   */
+  static label(kind: RuleKind, index: number, rule: { description?: string }): string {
+    return `${kind}[${index}]${rule.description ? ` "${rule.description}"` : ''}`;
+  }
+
+  /**
+   * Joins the fields a rule matches against, lowercased
+   */
+  static fieldText(txn: ExcelTransaction, fields: readonly TextField[] = DEFAULT_FIELDS): string {
+    return fields
+      .map((field) => txn[field])
+      .filter(Boolean)
+      .join(' ')
+      .toLowerCase();
+  }
+
+  private toMatch(candidate: CompiledRule, result: MatcherResult): RuleMatch {
+    return {
+      account: candidate.rule.account,
+      kind: candidate.kind,
+      index: candidate.index,
+      rule: candidate.rule,
+      text: result.text,
+      ...(result.matchedText ? { matchedText: result.matchedText } : {}),
+      ...(result.score !== undefined ? { score: result.score } : {}),
+    };
+  }
+
+  private mismatchReason(candidate: CompiledRule, result: MatcherResult): string {
+    switch (candidate.kind) {
+      case 'rules':
+        return result.score !== undefined
+          ? `closest keyword "${result.closest}" scored ${result.score.toFixed(2)} in "${result.text}"`
+          : `no keyword found in "${result.text}"`;
+      case 'patterns':
+        return `/${(candidate.rule as PatternRule).regex}/ did not match "${result.text}"`;
+      case 'fallbacks':
+        return `condition is false: ${result.text}`;
+    }
+  }
+
+  private static fuzzyThreshold(fuzzy: boolean | number | undefined): number | null {
+    if (fuzzy === undefined || fuzzy === false) return null;
+    if (fuzzy === true) return DEFAULT_FUZZY_THRESHOLD;
+    if (typeof fuzzy !== 'number' || !(fuzzy > 0 && fuzzy <= 1)) {
+      throw new Error(
+        `fuzzy must be true or a score between 0 and 1, got ${JSON.stringify(fuzzy)}`
+      );
+    }
+    return fuzzy;
+  }
+
+  private static priority(rule: RuleCriteria): number {
+    if (rule.priority === undefined) return 0;
+    if (typeof rule.priority !== 'number' || !Number.isFinite(rule.priority)) {
+      throw new Error(`priority must be a number, got ${JSON.stringify(rule.priority)}`);
+    }
+    return rule.priority;
+  }
+
+  private static compileMatcher(
+    kind: RuleKind,
+    rule: MerchantRule | PatternRule | FallbackRule,
+    concepts: ConceptTable
+  ): (txn: ExcelTransaction) => MatcherResult {
+    const fields = this.fields(rule);
+
+    if (kind === 'rules') {
+      const { keywords } = rule as MerchantRule;
+      if (!Array.isArray(keywords) || keywords.length === 0) {
+        throw new Error('keywords must be a non-empty array');
+      }
+      const matchers = keywords.map((keyword) => {
+        const lower = String(keyword).toLowerCase();
+        if (!rule.wholeWord) return (text: string) => text.includes(lower);
+        const word = new RegExp(
+          `(?<![\\p{L}\\p{N}])${this.escapeRegex(lower)}(?![\\p{L}\\p{N}])`,
+          'iu'
+        );
+        return (text: string) => word.test(text);
+      });
+      const threshold = this.fuzzyThreshold((rule as MerchantRule).fuzzy);
+      return (txn) => {
+        const text = this.fieldText(txn, fields);
+        const index = matchers.findIndex((matches) => matches(text));
+        if (threshold === null) {
+          return { text, matchedText: index === -1 ? null : keywords[index] };
+        }
+        if (index !== -1) return { text, matchedText: keywords[index], score: 1 };
+
+        // Fall back to the most similar keyword
+        let closest = keywords[0];
+        let score = 0;
+        for (const keyword of keywords) {
+          const similarity = FuzzyMatcher.score(keyword, text);
+          if (similarity > score) [closest, score] = [keyword, similarity];
+        }
+        return { text, matchedText: score >= threshold ? closest : null, score, closest };
+      };
+    }
+
+    if (kind === 'patterns') {
+      const { regex } = rule as PatternRule;
+      let pattern: RegExp;
+      try {
+        pattern = new RegExp(regex, 'i');
+      } catch (error) {
+        throw new Error(`invalid regex: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      return (txn) => {
+        const text = this.fieldText(txn, fields);
+        return { text, matchedText: pattern.exec(text)?.[0] ?? null };
+      };
+    }
+
+    const source = (rule as FallbackRule).condition;
+    const condition: ConditionPredicate = ConditionParser.compile(source, {
+      type: (txn) => concepts.classify(txn),
+    });
+    return (txn) => ({ text: source, matchedText: condition(txn) ? '' : null });
+  }
+
+  /**
+   * Builds a check returning why a transaction falls outside the rule's
+   * restrictions, or null when it satisfies all of them
+   */
+  private static compileCriteria(
+    rule: RuleCriteria,
+    concepts: ConceptTable
+  ): (txn: ExcelTransaction) => string | null {
+    const checks: ((txn: ExcelTransaction) => string | null)[] = [];
+
+    if (rule.direction !== undefined) {
+      if (rule.direction !== 'debit' && rule.direction !== 'credit') {
+        throw new Error(`direction must be "debit" or "credit", got "${rule.direction}"`);
+      }
+      const wanted = rule.direction;
+      checks.push((txn) => {
+        const direction = txn.creditAmount?.isPositive() ? 'credit' : 'debit';
+        return direction === wanted ? null : `direction is ${direction}, rule wants ${wanted}`;
+      });
+    }
+
+    const minAmount = this.amount(rule.minAmount, 'minAmount');
+    const maxAmount = this.amount(rule.maxAmount, 'maxAmount');
+    if (minAmount || maxAmount) {
+      checks.push((txn) => {
+        const amount = txn.debitAmount || txn.creditAmount || Money.ZERO;
+        if (minAmount && amount.lessThan(minAmount)) {
+          return `amount ${amount.format()} below minAmount ${minAmount.format()}`;
+        }
+        if (maxAmount && amount.greaterThan(maxAmount)) {
+          return `amount ${amount.format()} above maxAmount ${maxAmount.format()}`;
+        }
+        return null;
+      });
+    }
+
+    if (rule.card !== undefined) {
+      const cards = this.list(rule.card).map((card) => card.replace(/\s/g, ''));
+      checks.push((txn) => {
+        const reference = txn.referencia2.replace(/\s/g, '');
+        return cards.some((card) => reference === card || reference.endsWith(card))
+          ? null
+          : `card ${reference || '(none)'} is not ${cards.join(' or ')}`;
+      });
+    }
+
+    if (rule.type !== undefined) {
+      const types = this.list(rule.type).map((type) => type.toLowerCase());
+      checks.push((txn) => {
+        const type = concepts.classify(txn);
+        return types.includes(type) ? null : `type ${type} is not ${types.join(' or ')}`;
+      });
+    }
+
+    if (rule.conceptoComun !== undefined) {
+      const codes = this.list(rule.conceptoComun).map((code) => code.padStart(2, '0'));
+      checks.push((txn) => {
+        const code = txn.conceptoComun.trim().padStart(2, '0');
+        return codes.includes(code) ? null : `conceptoComun ${code} is not ${codes.join(' or ')}`;
+      });
+    }
+
+    const dateFrom = this.date(rule.dateFrom, 'dateFrom');
+    const dateTo = this.date(rule.dateTo, 'dateTo');
+    if (dateFrom || dateTo) {
+      checks.push((txn) => {
+        const key = StatementDate.key(txn.transactionDate);
+        if (key === null) return `invalid date ${txn.transactionDate}`;
+        if (dateFrom && key < dateFrom) return `date ${txn.transactionDate} before dateFrom`;
+        if (dateTo && key > dateTo) return `date ${txn.transactionDate} after dateTo`;
+        return null;
+      });
+    }
+
+    return (txn) => {
+      for (const check of checks) {
+        const reason = check(txn);
+        if (reason !== null) return reason;
+      }
+      return null;
+    };
+  }
+
+  private static fields(rule: RuleCriteria): readonly TextField[] {
+    if (rule.fields === undefined) return DEFAULT_FIELDS;
+    if (!Array.isArray(rule.fields) || rule.fields.length === 0) {
+      throw new Error('fields must be a non-empty array');
+    }
+    const unknown = rule.fields.filter((field) => !TEXT_FIELDS.includes(field));
+    if (unknown.length > 0) {
+      throw new Error(`unknown fields: ${unknown.join(', ')}`);
+    }
+    return rule.fields;
+  }
+
+  private static amount(value: number | string | undefined, name: string): Money | null {
+    if (value === undefined) return null;
+    try {
+      return Money.of(value);
+    } catch {
+      throw new Error(`${name} must be an amount, got ${JSON.stringify(value)}`);
+    }
+  }
+
+  private static date(value: string | undefined, name: string): string | null {
+    if (value === undefined) return null;
+    const key = StatementDate.key(String(value));
+    if (!key) {
+      throw new Error(`${name} must be a YYYY-MM-DD or DD/MM/YYYY date, got "${value}"`);
+    }
+    return key;
+  }
+
+  private static list(value: string | string[]): string[] {
+    return (Array.isArray(value) ? value : [value]).map((item) => String(item).trim());
+  }
+
+  private static escapeRegex(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+}
@@ -0,0 +1,139 @@
+/*
+ * caixa2bean - Convert Caixa bank statements to Beancount format
+ * Copyright (C) 2026  Kevin Curtet
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { Money } from './money.js';
+import { ValidationError } from './errors.js';
+
+/**
+ * One share of a split posting. Exactly one of amount, percent or remainder
+ * is set; account defaults to the account of the rule defining the split.
+ */
+export interface SplitShare {
+  account?: string;
+  amount?: number | string; // Fixed unsigned amount
+  percent?: number | string; // Of the whole transaction, rounded to cents
+  remainder?: boolean; // Whatever the other shares leave
+}
+
+export interface SplitAllocation {
+  account: string;
+  amount: Money;
+}
+
+export class PostingSplitter {
+  /**
+   * Checks that a split always allocates the whole transaction: it needs a
+   * remainder share, or percentages adding up to exactly 100 and no fixed
+   * amounts.
+   */
+  static validate(shares: SplitShare[]): void {
+    if (!Array.isArray(shares) || shares.length === 0) {
+      throw new ValidationError('split must be a non-empty array', 'split');
+    }
+
+    let remainders = 0;
+    let fixed = 0;
+    let percentTotal = Money.ZERO;
+    shares.forEach((share, index) => {
+      const kinds = [share.amount, share.percent, share.remainder].filter(
+        (value) => value !== undefined && value !== false
+      );
+      if (kinds.length !== 1) {
+        throw new ValidationError(
+          `split[${index}] must set exactly one of amount, percent or remainder`,
+          'split'
+        );
+      }
+      if (share.remainder) {
+        remainders++;
+      } else if (share.amount !== undefined) {
+        this.positive(share.amount, `split[${index}] amount`);
+        fixed++;
+      } else {
+        percentTotal = percentTotal.plus(this.positive(share.percent!, `split[${index}] percent`));
+      }
+    });
+
+    if (remainders > 1) {
+      throw new ValidationError('split can have only one remainder share', 'split');
+    }
+    if (remainders === 0) {
+      if (fixed > 0) {
+        throw new ValidationError('split with fixed amounts needs a remainder share', 'split');
+      }
+      if (!percentTotal.equals(100)) {
+        throw new ValidationError(
+          `split percentages must add up to 100 without a remainder share, got ${percentTotal.format(0)}`,
+          'split'
+        );
+      }
+    } else if (percentTotal.greaterThan(100)) {
+      throw new ValidationError(
+        `split percentages add up to ${percentTotal.format(0)}, more than 100`,
+        'split'
+      );
+    }
+  }
+
+  /**
+   * Divides a signed total across the shares, in their order. Shares take the
+   * sign of the total, and the allocations always add up to it exactly: the
+   * remainder share, or the last percentage when there is none, absorbs the
+   * rounding. Fixed amounts and percentages larger than the total throw a
+   * ValidationError, since the remainder would go the other way.
+   */
+  static allocate(total: Money, shares: SplitShare[], defaultAccount: string): SplitAllocation[] {
+    const sign = total.isNegative() ? -1 : 1;
+    const amounts = shares.map((share) => {
+      if (share.remainder) return null;
+      if (share.amount !== undefined) return Money.of(share.amount).times(sign);
+      return total.times(share.percent!).times('0.01').round(2);
+    });
+
+    // The share absorbing rounding is the remainder or else the last one
+    let balancing = shares.findIndex((share) => share.remainder);
+    if (balancing === -1) balancing = shares.length - 1;
+    const others = Money.sum(amounts.filter((_, index) => index !== balancing) as Money[]);
+    const left = total.minus(others);
+    if (left.times(sign).isNegative()) {
+      throw new ValidationError(
+        `split shares add up to ${others.abs().format()}, more than the transaction total ${total.abs().format()}`,
+        'split'
+      );
+    }
+    amounts[balancing] = left;
+
+    return shares.map((share, index) => ({
+      account: share.account || defaultAccount,
+      amount: amounts[index]!,
+    }));
+  }
+
+  private static positive(value: number | string, name: string): Money {
+    let amount: Money;
+    try {
+      amount = Money.of(value);
+    } catch {
+      throw new ValidationError(`${name} must be a number, got ${JSON.stringify(value)}`, 'split');
+    }
+    if (!amount.isPositive()) {
+      throw new ValidationError(`${name} must be positive, got ${amount.format(0)}`, 'split');
+    }
+    return amount;
+  }
+}
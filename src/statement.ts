@@ -0,0 +1,84 @@
+/*
+ * caixa2bean - Convert Caixa bank statements to Beancount format
+ * Copyright (C) 2026  Kevin Curtet
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import path from 'path';
+import { ColumnSchemaOverrides, ParsedExcelFile } from './types.js';
+import { ExcelParser } from './parser.js';
+import { CsvDelimiter, CsvEncoding, CsvParser } from './csv.js';
+import { Norma43Parser } from './norma43.js';
+import { Logger } from './logger.js';
+
+const NORMA43_EXTENSIONS = ['.n43', '.q43', '.aeb'];
+
+export const SUPPORTED_EXTENSIONS = ['.xls', '.xlsx', '.csv', ...NORMA43_EXTENSIONS];
+
+export type StatementFormat = 'excel' | 'csv' | 'norma43';
+
+export interface StatementParseOptions {
+  encoding?: CsvEncoding;
+  delimiter?: CsvDelimiter;
+  columns?: ColumnSchemaOverrides;
+  format?: StatementFormat; // Of a buffer, detected from its content by default
+  logger?: Logger; // Told about rows that are skipped
+}
+
+export class StatementParser {
+  /**
+   * Parses a bank statement, picking the parser from the file extension
+   */
+  static parseFile(filePath: string, options: StatementParseOptions = {}): ParsedExcelFile {
+    const ext = path.extname(filePath).toLowerCase();
+    if (ext === '.csv') {
+      return CsvParser.parseFile(filePath, options);
+    }
+    if (NORMA43_EXTENSIONS.includes(ext)) {
+      return Norma43Parser.parseFile(filePath, options.encoding);
+    }
+    return ExcelParser.parseFile(filePath, options.columns, options.logger);
+  }
+
+  /**
+   * Parses a bank statement already read into memory, in options.format or
+   * else the format its content looks like
+   */
+  static parseBuffer(buffer: Buffer, options: StatementParseOptions = {}): ParsedExcelFile {
+    const format = options.format ?? this.detectFormat(buffer);
+    if (format === 'csv') {
+      return CsvParser.parseBuffer(buffer, options);
+    }
+    if (format === 'norma43') {
+      return Norma43Parser.parseBuffer(buffer, options.encoding);
+    }
+    return ExcelParser.parseBuffer(buffer, options.columns, options.logger);
+  }
+
+  /**
+   * Excel files start with the OLE2 (.xls) or zip (.xlsx) signature and
+   * Norma 43 files with an 11 account header record; anything else is
+   * taken for CSV
+   */
+  static detectFormat(buffer: Buffer): StatementFormat {
+    const ole2 = Buffer.from([0xd0, 0xcf, 0x11, 0xe0]);
+    const zip = Buffer.from('PK\x03\x04', 'latin1');
+    if (buffer.subarray(0, 4).equals(ole2) || buffer.subarray(0, 4).equals(zip)) {
+      return 'excel';
+    }
+    const firstLine = buffer.subarray(0, 82).toString('latin1').split(/\r?\n/)[0];
+    return /^11\d{18}/.test(firstLine) && firstLine.length === 80 ? 'norma43' : 'csv';
+  }
+}
@@ -0,0 +1,172 @@
+/*
+ * caixa2bean - Convert Caixa bank statements to Beancount format
+ * Copyright (C) 2026  Kevin Curtet
+ *
+ * This program is free software: you can redistribute it and/or modify
+ * it under the terms of the GNU General Public License as published by
+ * the Free Software Foundation, either version 3 of the License, or
+ * (at your option) any later version.
+ *
+ * This program is distributed in the hope that it will be useful,
+ * but WITHOUT ANY WARRANTY; without even the implied warranty of
+ * MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+ * GNU General Public License for more details.
+ *
+ * You should have received a copy of the GNU General Public License
+ * along with this program.  If not, see <https://www.gnu.org/licenses/>.
+ */
+
+import { ExcelTransaction } from './types.js';
+import { Money } from './money.js';
+import { FallbackRule, MerchantRule, PatternRule, RuleKind, RuleMatch, RuleSet } from './rules.js';
+
+// Trailing words Caixa appends after the merchant: towns and country codes
+const PLACES = new Set([
+  'a coruna',
+  'alicante',
+  'badalona',
+  'barcelona',
+  'bilbao',
+  'castelldefels',
+  'cordoba',
+  'es',
+  'esp',
+  'espana',
+  'figueres',
+  'getafe',
+  'gijon',
+  'girona',
+  'granada',
+  'hospitalet',
+  'l hospitalet',
+  'las palmas',
+  'lleida',
+  'madrid',
+  'malaga',
+  'manresa',
+  'mataro',
+  'murcia',
+  'oviedo',
+  'palma',
+  'pamplona',
+  'reus',
+  'sabadell',
+  'salamanca',
+  'san sebastian',
+  'sant cugat',
+  'santander',
+  'santiago',
+  'sevilla',
+  'spain',
+  'tarragona',
+  'terrassa',
+  'toledo',
+  'valencia',
+  'valladolid',
+  'vigo',
+  'vitoria',
+  'zaragoza',
+]);
+
+export interface MerchantGroup {
+  merchant: string; // Normalized merchant text, the suggested keyword
+  count: number;
+  total: Money; // Sum of the unsigned amounts
+  direction: 'debit' | 'credit' | 'mixed';
+  samples: string[]; // Distinct raw descriptions, at most three
+}
+
+export interface UnusedRule {
+  kind: RuleKind;
+  index: number;
+  rule: MerchantRule | PatternRule | FallbackRule;
+}
+
+export class RuleSuggester {
+  /**
+   * Reduces a description to the merchant name by dropping what changes
+   * between purchases: dates, card numbers, references and trailing places.
+   * "SHELL GIRONA 12/03 *1234" gives "shell".
+   */
+  static normalizeMerchant(text: string): string {
+    const cleaned = text
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/\b\d{4}-\d{2}-\d{2}\b/g, ' ')
+      .replace(/\b\d{1,2}[/.-]\d{1,2}(?:[/.-]\d{2,4})?\b/g, ' ')
+      .replace(/(?:\*+|\bx{2,})\s*\d+/g, ' ')
+      .replace(/\b(?:tarj(?:eta)?|card)\.?\s*\d+/g, ' ')
+      .replace(/\b[a-z]*\d{3,}[a-z0-9]*\b/g, ' ')
+      .replace(/[^a-z0-9]+/g, ' ')
+      .trim();
+
+    const words = cleaned.split(' ').filter(Boolean);
+    while (words.length > 1) {
+      const last = words[words.length - 1];
+      const lastTwo = words.slice(-2).join(' ');
+      if (words.length > 2 && PLACES.has(lastTwo)) words.splice(-2);
+      else if (PLACES.has(last) || /^\d+$/.test(last)) words.pop();
+      else break;
+    }
+    return words.join(' ');
+  }
+
+  /**
+   * The text a merchant is recognized by: the first and second
+   * complementary concepts, where Caixa puts the merchant and its town
+   */
+  static merchantText(txn: ExcelTransaction): string {
+    return [txn.conceptoComplementario1, txn.conceptoComplementario2].filter(Boolean).join(' ');
+  }
+
+  /**
+   * Groups transactions by normalized merchant, most frequent first and, on
+   * equal counts, largest total first
+   */
+  static group(transactions: ExcelTransaction[]): MerchantGroup[] {
+    const groups = new Map<string, MerchantGroup>();
+
+    for (const txn of transactions) {
+      const text = this.merchantText(txn);
+      const merchant = this.normalizeMerchant(text);
+      if (!merchant) continue;
+
+      const direction = txn.creditAmount?.isPositive() ? 'credit' : 'debit';
+      const amount = txn.debitAmount || txn.creditAmount || Money.ZERO;
+      const group = groups.get(merchant);
+      if (!group) {
+        groups.set(merchant, { merchant, count: 1, total: amount, direction, samples: [text] });
+        continue;
+      }
+      group.count++;
+      group.total = group.total.plus(amount);
+      if (group.direction !== direction) group.direction = 'mixed';
+      if (group.samples.length < 3 && !group.samples.includes(text)) group.samples.push(text);
+    }
+
+    return [...groups.values()].sort((a, b) => b.count - a.count || b.total.compareTo(a.total));
+  }
+
+  /**
+   * A rule for the group, ready to paste into merchants.json once its
+   * placeholder account is replaced
+   */
+  static toRule(group: MerchantGroup, currency: string = 'EUR'): MerchantRule {
+    return {
+      keywords: [group.merchant],
+      account: group.direction === 'credit' ? 'Income:FIXME' : 'Expenses:FIXME',
+      description: `${group.count} unmatched, ${group.total.format()} ${currency}: ${group.samples.join(' | ')}`,
+      ...(group.direction !== 'mixed' ? { direction: group.direction } : {}),
+    };
+  }
+
+  /**
+   * Rules of the set that selected none of the matches. A rule always
+   * preceded by a higher-priority match is unused as well.
+   */
+  static unusedRules(ruleSet: RuleSet, matches: RuleMatch[]): UnusedRule[] {
+    const used = new Set(matches.map((match) => `${match.kind}[${match.index}]`));
+    return ruleSet.rules.filter(({ kind, index }) => !used.has(`${kind}[${index}]`));
+  }
+}
@@ -1,3 +1,5 @@
+import { Money } from './money.js';
+
 // Excel bank statement format (Caixa export)
 export interface ExcelTransaction {
   accountNumber: string;
@@ -5,9 +7,9 @@ export interface ExcelTransaction {
   currency: string;
   transactionDate: string; // DD/MM/YYYY
   valueDate: string; // DD/MM/YYYY
-  creditAmount: number | null; // Ingreso (+)
-  debitAmount: number | null; // Gasto (-)
-  balance: number; // Saldo (positive or negative)
+  creditAmount: Money | null; // Ingreso (+)
+  debitAmount: Money | null; // Gasto (-)
+  balance: Money; // Saldo (positive or negative)
   conceptoComun: string;
   conceptoPropio: string;
   referencia1: string;
@@ -22,8 +24,17 @@ export interface ExcelTransaction {
   conceptoComplementario8: string;
   conceptoComplementario9: string;
   conceptoComplementario10: string;
+  sourceRow?: number; // 1-based row or line in the source file, for error reporting
 }
 
+// Statement columns located by header label. negativeBalance is the separate
+// "Saldo -" column some exports use for overdrawn balances.
+export type StatementColumn = Exclude<keyof ExcelTransaction, 'sourceRow'> | 'negativeBalance';
+
+export type ColumnSchema = Record<StatementColumn, string[]>;
+
+export type ColumnSchemaOverrides = Partial<Record<StatementColumn, string | string[]>>;
+
 export interface ParsedExcelFile {
   accountNumber: string;
   currency: string;
@@ -31,9 +42,9 @@ export interface ParsedExcelFile {
     start: string; // DD/MM/YYYY
     end: string; // DD/MM/YYYY
   };
-  openingBalance: number; // Calculated from first transaction
-  transactions: ExcelTransaction[];
-  closingBalance: number; // From last transaction
+  openingBalance: Money; // Balance before the oldest transaction
+  transactions: ExcelTransaction[]; // Oldest first
+  closingBalance: Money; // Balance after the newest transaction
 }
 
 // Beancount structures
@@ -50,7 +61,7 @@ export interface BeancountTransaction {
 
 export interface BeancountPosting {
   account: string;
-  amount: number;
+  amount: Money;
   currency: string;
   cost?: BeancountCost;
   price?: BeancountPrice;
@@ -59,14 +70,27 @@ export interface BeancountPosting {
 }
 
 export interface BeancountCost {
-  amount: number;
+  amount: Money;
   currency: string;
   date?: string;
   label?: string;
 }
 
 export interface BeancountPrice {
-  amount: number;
+  amount: Money;
+  currency: string;
+}
+
+export interface BeancountBalance {
+  date: string; // YYYY-MM-DD
+  account: string;
+  amount: Money;
+  currency: string;
+}
+
+export interface BeancountOpen {
+  date: string; // YYYY-MM-DD
+  account: string;
   currency: string;
 }
 
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { AccountResolver } from '../src/accounts.js';
+import { ConverterConfig } from '../src/config.js';
+import { ConfigurationError } from '../src/errors.js';
+import { ExcelTransaction, ParsedExcelFile } from '../src/types.js';
+import { Money } from '../src/money.js';
+
+describe('AccountResolver', () => {
+  const transaction = {
+    accountNumber: '2100 0904 78 0100394901',
+    branchCode: '9736',
+    currency: 'EUR',
+  } as ExcelTransaction;
+
+  const statement: ParsedExcelFile = {
+    accountNumber: '2100 0904 78 0100394901',
+    currency: 'EUR',
+    period: { start: '01/12/2025', end: '31/12/2025' },
+    openingBalance: Money.of(100),
+    transactions: [transaction],
+    closingBalance: Money.of(100),
+  };
+
+  const config: ConverterConfig = {
+    defaultAccount: 'Assets:Bank:Caixa:Checking',
+    fallbackAccount: 'Expenses:Unknown',
+    accounts: [
+      {
+        accountNumber: '2100 0904 78 0100394901',
+        branchCode: '1234',
+        account: 'Assets:Bank:Caixa:Other',
+      },
+      {
+        accountNumber: 'ES79 2100 0904 7801 0039 4901',
+        account: 'Assets:Bank:Caixa:Joint',
+        currency: 'EUR',
+        openDate: '2019-03-01',
+      },
+    ],
+  };
+
+  it('should map the statement account number to its Beancount account', () => {
+    expect(AccountResolver.resolve(statement, config)).toEqual({
+      account: 'Assets:Bank:Caixa:Joint',
+      currency: 'EUR',
+      openDate: '2019-03-01',
+    });
+  });
+
+  it('should match the branch code when the mapping sets one', () => {
+    const otherBranch = { ...statement, transactions: [{ ...transaction, branchCode: '1234' }] };
+    expect(AccountResolver.resolve(otherBranch, config).account).toBe('Assets:Bank:Caixa:Other');
+  });
+
+  it('should prefer an explicit account name', () => {
+    expect(AccountResolver.resolve(statement, config, 'Assets:Manual').account).toBe(
+      'Assets:Manual'
+    );
+  });
+
+  it('should use the default account when no mappings are configured', () => {
+    const unmapped = { ...config, accounts: [] };
+    expect(AccountResolver.resolve(statement, unmapped).account).toBe('Assets:Bank:Caixa:Checking');
+  });
+
+  it('should reject unknown account numbers', () => {
+    const unknown = { ...statement, accountNumber: '2100 0000 00 0000000001' };
+    expect(() => AccountResolver.resolve(unknown, config)).toThrow(ConfigurationError);
+    expect(() => AccountResolver.resolve(unknown, config)).toThrow(
+      'Unknown account number 2100 0000 00 0000000001 (branch 9736)'
+    );
+  });
+
+  it('should reject an openDate after the statement start', () => {
+    const late = {
+      ...config,
+      accounts: [{ ...config.accounts![1], openDate: '2025-12-02' }],
+    };
+    expect(() => AccountResolver.resolve(statement, late)).toThrow(ConfigurationError);
+    expect(() => AccountResolver.resolve(statement, late)).toThrow(
+      'openDate 2025-12-02 of account Assets:Bank:Caixa:Joint is after the statement start 01/12/2025'
+    );
+    const sameDay = { ...late, accounts: [{ ...late.accounts[0], openDate: '2025-12-01' }] };
+    expect(AccountResolver.resolve(statement, sameDay).openDate).toBe('2025-12-01');
+  });
+
+  it('should reject a currency that differs from the statement', () => {
+    const usd = { ...statement, currency: 'USD' };
+    expect(() => AccountResolver.resolve(usd, config)).toThrow(
+      'Account Assets:Bank:Caixa:Joint is configured in EUR, but the statement'
+    );
+  });
+
+  it('should compare account numbers by their digits', () => {
+    expect(
+      AccountResolver.sameAccountNumber('ES7921000904780100394901', '2100-0904-78-0100394901')
+    ).toBe(true);
+    expect(AccountResolver.sameAccountNumber('0100394901', '2100 0904 78 0100394901')).toBe(true);
+    expect(AccountResolver.sameAccountNumber('4901', '2100 0904 78 0100394901')).toBe(false);
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import { BalanceVerifier } from '../src/balance.js';
+import { CsvParser } from '../src/csv.js';
+import { ExcelTransaction, ParsedExcelFile } from '../src/types.js';
+import { Money } from '../src/money.js';
+
+describe('BalanceVerifier', () => {
+  const baseTransaction: ExcelTransaction = {
+    accountNumber: '2100 0904 78 0100394901',
+    branchCode: '9736',
+    currency: 'EUR',
+    transactionDate: '30/12/2025',
+    valueDate: '30/12/2025',
+    creditAmount: null,
+    debitAmount: null,
+    balance: Money.of(0),
+    conceptoComun: '12',
+    conceptoPropio: '040',
+    referencia1: '000000000000',
+    referencia2: '1234567890123456',
+    conceptoComplementario1: 'SHOP',
+    conceptoComplementario2: '',
+    conceptoComplementario3: '',
+    conceptoComplementario4: '',
+    conceptoComplementario5: '',
+    conceptoComplementario6: '',
+    conceptoComplementario7: '',
+    conceptoComplementario8: '',
+    conceptoComplementario9: 'COMPRA CON TARJETA',
+    conceptoComplementario10: '',
+  };
+
+  const txn = (overrides: Partial<ExcelTransaction>): ExcelTransaction => ({
+    ...baseTransaction,
+    ...overrides,
+  });
+
+  const statement = (
+    transactions: ExcelTransaction[],
+    closingBalance?: Money
+  ): ParsedExcelFile => ({
+    accountNumber: baseTransaction.accountNumber,
+    currency: 'EUR',
+    period: { start: '01/12/2025', end: '31/12/2025' },
+    openingBalance: Money.of(100),
+    transactions,
+    closingBalance:
+      closingBalance ?? transactions[transactions.length - 1]?.balance ?? Money.of(100),
+  });
+
+  it('should accept an unbroken chain', () => {
+    const result = BalanceVerifier.verify(
+      statement([
+        txn({ debitAmount: Money.of(0.1), balance: Money.of(99.9), sourceRow: 5 }),
+        txn({ debitAmount: Money.of(0.2), balance: Money.of(99.7), sourceRow: 6 }),
+        txn({ creditAmount: Money.of(10.3), balance: Money.of(110), sourceRow: 7 }),
+      ])
+    );
+
+    expect(result.valid).toBe(true);
+    expect(result.breaks).toEqual([]);
+  });
+
+  it('should accept a consistent newest-first export', () => {
+    const row = (date: string, credit: string, debit: string, balance: string) =>
+      `1234 5678 90 1234567890,9999,EUR,${date},${date},${credit},${debit},${balance},12,040,` +
+      '000000000000,1234567890123456,SHOP,,,,,,,,COMPRA CON TARJETA,';
+    const parsed = CsvParser.parseText(
+      [
+        row('31/12/2025', '', '15.50', '84.50'),
+        row('30/12/2025', '50.00', '', '100.00'),
+        row('29/12/2025', '', '25.75', '50.00'),
+        row('28/12/2025', '', '12.30', '75.75'),
+      ].join('\n')
+    );
+
+    expect(BalanceVerifier.verify(parsed)).toEqual({ valid: true, breaks: [] });
+  });
+
+  it('should report missing rows with expected and actual balances', () => {
+    const result = BalanceVerifier.verify(
+      statement([
+        txn({ debitAmount: Money.of(10), balance: Money.of(90), sourceRow: 5 }),
+        // A 20.00 debit between these two rows is missing
+        txn({ debitAmount: Money.of(5), balance: Money.of(65), sourceRow: 6 }),
+        txn({ debitAmount: Money.of(5), balance: Money.of(60), sourceRow: 7 }),
+      ])
+    );
+
+    expect(result.valid).toBe(false);
+    expect(result.breaks).toHaveLength(1);
+    expect(result.breaks[0]).toMatchObject({
+      kind: 'gap',
+      row: 6,
+      expectedBalance: Money.of(85),
+      actualBalance: Money.of(65),
+      difference: Money.of(-20),
+    });
+    expect(result.breaks[0].message).toBe(
+      'Row 6: expected balance 85.00, got 65.00 (difference -20.00): missing rows or a mis-parsed amount'
+    );
+  });
+
+  it('should flag duplicated rows', () => {
+    const purchase = txn({ debitAmount: Money.of(10), balance: Money.of(90), sourceRow: 5 });
+    const result = BalanceVerifier.verify(statement([purchase, { ...purchase, sourceRow: 6 }]));
+
+    expect(result.breaks).toHaveLength(1);
+    expect(result.breaks[0].kind).toBe('duplicate');
+    expect(result.breaks[0].row).toBe(6);
+  });
+
+  it('should check the chain against the closing balance', () => {
+    const result = BalanceVerifier.verify(
+      statement([txn({ debitAmount: Money.of(10), balance: Money.of(90) })], Money.of(80))
+    );
+
+    expect(result.breaks).toHaveLength(1);
+    expect(result.breaks[0]).toMatchObject({
+      kind: 'closing',
+      expectedBalance: Money.of(90),
+      actualBalance: Money.of(80),
+    });
+  });
+});
@@ -0,0 +1,171 @@
+import { describe, it, expect } from 'vitest';
+import { BeancountReader, BeancountWriter } from '../src/beancount.js';
+import { BeancountBalance, BeancountTransaction } from '../src/types.js';
+import { ParsingError, ValidationError } from '../src/errors.js';
+import { Money } from '../src/money.js';
+
+describe('BeancountWriter', () => {
+  const purchase: BeancountTransaction = {
+    date: '2025-12-30',
+    flag: '*',
+    narration: 'GAS STATION EXAMPLE - COMPRA CON TARJETA',
+    postings: [
+      { account: 'Assets:Bank:Caixa:Checking', amount: Money.of(-15.5), currency: 'EUR' },
+      { account: 'Expenses:Transportation:Fuel', amount: Money.of(15.5), currency: 'EUR' },
+    ],
+  };
+
+  const fullTransaction: BeancountTransaction = {
+    date: '2025-06-02',
+    flag: '!',
+    payee: 'Broker "Example" S.A.',
+    narration: 'Buy shares \\ rebalance',
+    tags: ['investing', 'trip-2025'],
+    links: ['order-42'],
+    metadata: {
+      'import-id': '0123456789abcdef',
+      reviewed: false,
+      fee: Money.of('1.25'),
+      settled: { amount: Money.of('1100.00'), currency: 'EUR' },
+      note: null,
+    },
+    postings: [
+      {
+        account: 'Assets:Broker:Shares',
+        amount: Money.of(10),
+        currency: 'ACME',
+        cost: {
+          amount: Money.of('100.00'),
+          currency: 'USD',
+          date: '2025-06-01',
+          label: 'lot, first',
+        },
+        price: { amount: Money.of('101.50'), currency: 'USD' },
+        metadata: { confirmation: 'C-1' },
+      },
+      {
+        account: 'Assets:Bank:Caixa:Checking',
+        amount: Money.of('-1000.00'),
+        currency: 'USD',
+        flag: '!',
+      },
+    ],
+  };
+
+  it('should render header strings, tags and links', () => {
+    const [header] = BeancountWriter.formatTransaction(fullTransaction).split('\n');
+    expect(header).toBe(
+      '2025-06-02 ! "Broker \\"Example\\" S.A." "Buy shares \\\\ rebalance" #investing #trip-2025 ^order-42'
+    );
+  });
+
+  it('should render metadata by value type', () => {
+    const lines = BeancountWriter.formatTransaction(fullTransaction).split('\n');
+    expect(lines.slice(1, 6)).toEqual([
+      '  import-id: "0123456789abcdef"',
+      '  reviewed: FALSE',
+      '  fee: 1.25',
+      '  settled: 1100.00 EUR',
+      '  note:',
+    ]);
+    expect(lines).toContain('    confirmation: "C-1"');
+  });
+
+  it('should render cost, price and posting flags', () => {
+    const text = BeancountWriter.formatTransaction(fullTransaction);
+    expect(text).toMatch(
+      /^ {2}Assets:Broker:Shares +10\.00 ACME \{100\.00 USD, 2025-06-01, "lot, first"\} @ 101\.50 USD$/m
+    );
+    expect(text).toMatch(/^ {2}! Assets:Bank:Caixa:Checking +-1000\.00 USD$/m);
+  });
+
+  it('should right-align amounts on one column', () => {
+    expect(BeancountWriter.formatTransaction(purchase).split('\n').slice(1)).toEqual([
+      '  Assets:Bank:Caixa:Checking   -15.50 EUR',
+      '  Expenses:Transportation:Fuel  15.50 EUR',
+    ]);
+  });
+
+  it('should share the amount column between transactions and balances', () => {
+    const balance: BeancountBalance = {
+      date: '2025-12-31',
+      account: 'Assets:Bank:Caixa:Checking',
+      amount: Money.of('84.50'),
+      currency: 'EUR',
+    };
+    const lines = BeancountWriter.formatEntries([purchase, balance]).split('\n');
+
+    expect(lines[lines.length - 1]).toBe(
+      '2025-12-31 balance Assets:Bank:Caixa:Checking  84.50 EUR'
+    );
+    expect(
+      new Set(
+        lines
+          .slice(1)
+          .filter(Boolean)
+          .map((line) => line.length)
+      ).size
+    ).toBe(1);
+  });
+
+  it('should reject invalid metadata keys', () => {
+    expect(() =>
+      BeancountWriter.formatTransaction({ ...purchase, metadata: { 'Bad Key': 'x' } })
+    ).toThrow(ValidationError);
+  });
+});
+
+describe('BeancountReader', () => {
+  it('should round-trip a simple transaction', () => {
+    const txn: BeancountTransaction = {
+      date: '2025-12-31',
+      flag: '*',
+      narration: 'CAFE',
+      postings: [
+        { account: 'Assets:Bank:Caixa:Checking', amount: Money.of(-2), currency: 'EUR' },
+        { account: 'Expenses:Food', amount: Money.of(2), currency: 'EUR' },
+      ],
+    };
+    expect(BeancountReader.parseTransaction(BeancountWriter.formatTransaction(txn))).toEqual(txn);
+  });
+
+  it('should round-trip every field', () => {
+    const txn: BeancountTransaction = {
+      date: '2025-06-02',
+      flag: '!',
+      payee: 'Broker "Example"',
+      narration: 'Buy \\ hold',
+      tags: ['investing'],
+      links: ['order-42'],
+      metadata: {
+        'import-id': 'abc',
+        reviewed: true,
+        fee: Money.of('1.25'),
+        settled: { amount: Money.of('1100'), currency: 'EUR' },
+        note: null,
+      },
+      postings: [
+        {
+          account: 'Assets:Broker:Shares',
+          amount: Money.of(10),
+          currency: 'ACME',
+          cost: { amount: Money.of(100), currency: 'USD', date: '2025-06-01', label: 'lot 1' },
+          price: { amount: Money.of('101.5'), currency: 'USD' },
+          metadata: { confirmation: 'C-1' },
+        },
+        { account: 'Assets:Cash', amount: Money.of(-1000), currency: 'USD', flag: '!' },
+      ],
+    };
+    expect(BeancountReader.parseTransaction(BeancountWriter.formatTransaction(txn))).toEqual(txn);
+  });
+
+  it('should report invalid postings with their line', () => {
+    try {
+      BeancountReader.parseTransaction('2025-01-01 * "X"\n  Assets:Cash abc EUR');
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(ParsingError);
+      expect((error as ParsingError).row).toBe(2);
+    }
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Categorizer } from '../src/categorizer.js';
+import { ConfigurationError } from '../src/errors.js';
+
+describe('Categorizer', () => {
+  const ledger = [
+    '2025-01-03 * "CAFE SOL - COMPRA CON TARJETA"',
+    '  Assets:Bank:Caixa:Checking  -3.00 EUR',
+    '  Expenses:Food:Coffee',
+    '',
+    '2025-01-04 * "Mercadona" "COMPRA CON TARJETA"',
+    '  Assets:Bank:Caixa:Checking  -30.00 EUR',
+    '  Expenses:Groceries  30.00 EUR',
+    '',
+    '2025-01-05 * "CAFÉ CENTRAL"',
+    '  Assets:Bank:Caixa:Checking  -2.00 EUR',
+    '  Expenses:Food:Coffee',
+    '',
+    '2025-01-06 * "MOVISTAR"',
+    '  Assets:Bank:Caixa:Checking  -40.00 EUR',
+    '  Expenses:Phone  20.00 EUR',
+    '  Assets:Receivables:Flatmate  20.00 EUR',
+    '',
+    '2025-01-07 * "Transfer to savings"',
+    '  Assets:Bank:Other  -100.00 EUR',
+    '  Assets:Bank:Savings  100.00 EUR',
+  ].join('\n');
+  const examples = Categorizer.examplesFromLedger(ledger, ['Assets:Bank:Caixa:Checking']);
+
+  it('should learn from transactions with a single counterpart account', () => {
+    expect(examples).toEqual([
+      { text: 'CAFE SOL - COMPRA CON TARJETA', account: 'Expenses:Food:Coffee' },
+      { text: 'Mercadona COMPRA CON TARJETA', account: 'Expenses:Groceries' },
+      { text: 'CAFÉ CENTRAL', account: 'Expenses:Food:Coffee' },
+    ]);
+  });
+
+  it('should not learn uncategorized or flagged transactions', () => {
+    const converted = [
+      '2025-01-08 * "KIOSK 24H - COMPRA CON TARJETA"',
+      '  Assets:Bank:Caixa:Checking  -4.00 EUR',
+      '  Expenses:Unknown  4.00 EUR',
+      '',
+      '2025-01-09 ! "CAFE NUEVO - COMPRA CON TARJETA"',
+      '  Assets:Bank:Caixa:Checking  -2.50 EUR',
+      '  Expenses:Groceries  2.50 EUR',
+      '',
+      '2025-01-10 * "KIOSK 24H - COMPRA CON TARJETA"',
+      '  Assets:Bank:Caixa:Checking  -4.00 EUR',
+      '  Expenses:Todo  4.00 EUR',
+    ].join('\n');
+    const sources = ['Assets:Bank:Caixa:Checking'];
+
+    expect(Categorizer.examplesFromLedger(`${ledger}\n\n${converted}`, sources)).toEqual([
+      ...examples,
+      { text: 'KIOSK 24H - COMPRA CON TARJETA', account: 'Expenses:Todo' },
+    ]);
+    expect(Categorizer.examplesFromLedger(converted, sources, 'Expenses:Todo')).toEqual([
+      { text: 'KIOSK 24H - COMPRA CON TARJETA', account: 'Expenses:Unknown' },
+    ]);
+  });
+
+  it('should predict the account of similar descriptions', () => {
+    const categorizer = Categorizer.train(examples);
+
+    const coffee = categorizer.predict('CAFE CENTRAL - COMPRA CON TARJETA');
+    expect(coffee?.account).toBe('Expenses:Food:Coffee');
+    expect(coffee?.confidence).toBeGreaterThan(0.5);
+    expect(categorizer.predict('MERCADONA')).toMatchObject({ account: 'Expenses:Groceries' });
+  });
+
+  it('should be less confident about ambiguous descriptions', () => {
+    const categorizer = Categorizer.train(examples);
+    const clear = categorizer.predict('cafe central')!.confidence;
+    const ambiguous = categorizer.predict('compra con tarjeta')!.confidence;
+    expect(ambiguous).toBeLessThan(clear);
+  });
+
+  it('should not guess when no word was seen during training', () => {
+    const categorizer = Categorizer.train(examples);
+    expect(categorizer.predict('IBERDROLA 2025')).toBeNull();
+    expect(categorizer.predict('constructor')).toBeNull();
+  });
+
+  it('should persist and reload the model', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'caixa2bean-'));
+    try {
+      const modelPath = path.join(dir, 'categorizer.json');
+      const categorizer = Categorizer.train(examples);
+      categorizer.save(modelPath);
+
+      const reloaded = Categorizer.load(modelPath);
+      expect(reloaded.documents).toBe(3);
+      expect(reloaded.predict('cafe sol')).toEqual(categorizer.predict('cafe sol'));
+
+      fs.writeFileSync(modelPath, '{"version": 2}');
+      expect(() => Categorizer.load(modelPath)).toThrow(ConfigurationError);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
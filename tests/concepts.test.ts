@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { ConceptTable, DEFAULT_TYPE_ACCOUNTS } from '../src/concepts.js';
+import { ConfigurationError } from '../src/errors.js';
+import { ExcelTransaction } from '../src/types.js';
+import { Money } from '../src/money.js';
+
+describe('ConceptTable', () => {
+  const base: ExcelTransaction = {
+    accountNumber: '2100 0904 78 0100394901',
+    branchCode: '9736',
+    currency: 'EUR',
+    transactionDate: '15/03/2025',
+    valueDate: '15/03/2025',
+    creditAmount: null,
+    debitAmount: Money.of(60),
+    balance: Money.of(500),
+    conceptoComun: '12',
+    conceptoPropio: '040',
+    referencia1: '000000000000',
+    referencia2: '',
+    conceptoComplementario1: '',
+    conceptoComplementario2: '',
+    conceptoComplementario3: '',
+    conceptoComplementario4: '',
+    conceptoComplementario5: '',
+    conceptoComplementario6: '',
+    conceptoComplementario7: '',
+    conceptoComplementario8: '',
+    conceptoComplementario9: '',
+    conceptoComplementario10: '',
+  };
+  const txn = (conceptoComun: string, conceptoPropio = '000'): ExcelTransaction => ({
+    ...base,
+    conceptoComun,
+    conceptoPropio,
+  });
+
+  it.each([
+    ['11', 'atm'],
+    ['12', 'card'],
+    ['1', 'cash'],
+    ['17', 'fee'],
+    ['15', 'payroll'],
+    ['42', 'other'],
+    ['', 'other'],
+  ])('should classify concepto comun "%s" as %s', (code, type) => {
+    expect(ConceptTable.DEFAULT.classify(txn(code))).toBe(type);
+  });
+
+  it('should prefer concepto propio overrides to concepto comun ones', () => {
+    const table = ConceptTable.compile({ '12/40': 'online', '04': 'savings' });
+
+    expect(table.classify(txn('12', '040'))).toBe('online');
+    expect(table.classify(txn('12', '001'))).toBe('card');
+    expect(table.classify(txn('4'))).toBe('savings');
+  });
+
+  it.each([
+    ['15', null, Money.of(1500), 'Income:Salary'],
+    ['15', Money.of(300), null, undefined],
+    ['17', Money.of(2), null, 'Expenses:Bank:Fees'],
+    ['17', null, Money.of(2), undefined],
+    ['16', Money.of(1), null, 'Expenses:Taxes'],
+    ['11', Money.of(60), null, 'Assets:Cash'],
+  ])('should give code %s the default account of its direction', (code, debit, credit, account) => {
+    const movement = { ...txn(code), debitAmount: debit, creditAmount: credit };
+    const type = ConceptTable.DEFAULT.classify(movement);
+    expect(ConceptTable.accountFor(DEFAULT_TYPE_ACCOUNTS, type, movement)).toBe(account);
+  });
+
+  it('should prefer a type account for the direction to one for both', () => {
+    const accounts = { payroll: 'Expenses:SocialSecurity', 'payroll/credit': 'Income:Salary' };
+    const charge = txn('15');
+
+    expect(ConceptTable.accountFor(accounts, 'payroll', charge)).toBe('Expenses:SocialSecurity');
+    expect(
+      ConceptTable.accountFor(accounts, 'payroll', { ...charge, creditAmount: Money.of(1500) })
+    ).toBe('Income:Salary');
+  });
+
+  it.each([
+    [{ atm: 'cash' }, 'Invalid concept code "atm"'],
+    [{ '123': 'cash' }, 'Invalid concept code "123"'],
+    [{ '11': 'Cash' }, 'Invalid type for concept code "11"'],
+  ])('should reject invalid overrides with a configuration error', (overrides, message) => {
+    const compile = () => ConceptTable.compile(overrides, 'config.json');
+    expect(compile).toThrow(ConfigurationError);
+    expect(compile).toThrow(message);
+  });
+});
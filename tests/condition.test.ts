@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import { ConditionParser } from '../src/condition.js';
+import { ParsingError } from '../src/errors.js';
+import { ExcelTransaction } from '../src/types.js';
+import { Money } from '../src/money.js';
+
+describe('ConditionParser', () => {
+  // Tuesday 30 December 2025
+  const purchase: ExcelTransaction = {
+    accountNumber: '2100 0904 78 0100394901',
+    branchCode: '9736',
+    currency: 'EUR',
+    transactionDate: '30/12/2025',
+    valueDate: '31/12/2025',
+    creditAmount: null,
+    debitAmount: Money.of('1.80'),
+    balance: Money.of('84.50'),
+    conceptoComun: '12',
+    conceptoPropio: '040',
+    referencia1: '000000000000',
+    referencia2: '1234567890123456',
+    conceptoComplementario1: 'SERUNION VENDING',
+    conceptoComplementario2: 'GIRONA',
+    conceptoComplementario3: '',
+    conceptoComplementario4: '',
+    conceptoComplementario5: '',
+    conceptoComplementario6: '',
+    conceptoComplementario7: '',
+    conceptoComplementario8: '',
+    conceptoComplementario9: 'COMPRA CON TARJETA',
+    conceptoComplementario10: '',
+  };
+  const salary: ExcelTransaction = {
+    ...purchase,
+    transactionDate: '03/01/2026',
+    creditAmount: Money.of(1500),
+    debitAmount: null,
+    conceptoComun: '02',
+    conceptoComplementario1: 'NOMINA EMPRESA',
+    conceptoComplementario9: '',
+  };
+
+  const matches = (condition: string, txn: ExcelTransaction = purchase) =>
+    ConditionParser.compile(condition)(txn);
+
+  it('should evaluate the documented vending machine rule', () => {
+    const rule = "amount <= 2.00 AND description CONTAINS 'compra con tarjeta'";
+    expect(matches(rule)).toBe(true);
+    expect(matches(rule, { ...purchase, debitAmount: Money.of('2.01') })).toBe(false);
+    expect(matches(rule, salary)).toBe(false);
+  });
+
+  it('should compare amounts numerically', () => {
+    expect(matches('debitAmount > 1.5')).toBe(true);
+    expect(matches('debitAmount = 1.80')).toBe(true);
+    expect(matches('signedAmount < 0')).toBe(true);
+    expect(matches('creditAmount > 0')).toBe(false);
+    expect(matches('creditAmount >= 1000', salary)).toBe(true);
+    expect(matches('amount BETWEEN 1 AND 2')).toBe(true);
+  });
+
+  it('should reference any transaction field', () => {
+    expect(matches("conceptoComun = '12' AND referencia2 STARTSWITH '1234'")).toBe(true);
+    expect(matches("conceptoComplementario2 = 'girona'")).toBe(true);
+    expect(matches("branchCode != '9736'")).toBe(false);
+    expect(matches("direction = 'credit'", salary)).toBe(true);
+  });
+
+  it('should support text operators', () => {
+    expect(matches("description CONTAINS 'vending'")).toBe(true);
+    expect(matches("description STARTSWITH 'serunion'")).toBe(true);
+    expect(matches("description ENDSWITH 'girona'")).toBe(true);
+    expect(matches("description MATCHES '^serunion\\\\s+vend'")).toBe(true);
+    expect(matches("description NOT CONTAINS 'nomina'")).toBe(true);
+  });
+
+  it('should combine with AND, OR, NOT and parentheses', () => {
+    expect(matches("NOT description CONTAINS 'nomina' AND amount < 2")).toBe(true);
+    expect(matches("description CONTAINS 'nomina' OR amount < 2")).toBe(true);
+    expect(matches("(description CONTAINS 'nomina' OR amount > 2) AND amount < 2")).toBe(false);
+    expect(matches("description CONTAINS 'nomina' OR (amount > 2 AND amount < 2)")).toBe(false);
+  });
+
+  it('should support date and weekday predicates', () => {
+    expect(matches("date = '2025-12-30'")).toBe(true);
+    expect(matches("transactionDate < '01/01/2026'")).toBe(true);
+    expect(matches('valueDate > transactionDate')).toBe(true);
+    expect(matches("date BETWEEN '2025-12-01' AND '2025-12-31'")).toBe(true);
+    expect(matches("weekday = 'tuesday'")).toBe(true);
+    expect(matches("weekday IN ('sat', 'sun')", salary)).toBe(true);
+    expect(matches('month = 12 AND day >= 30 AND year = 2025')).toBe(true);
+  });
+
+  it('should treat missing amounts as null', () => {
+    expect(matches('creditAmount IS NULL')).toBe(true);
+    expect(matches('debitAmount IS NOT NULL')).toBe(true);
+    expect(matches('creditAmount')).toBe(false);
+  });
+
+  it.each([
+    ['amount <=', 'Unexpected end of condition at position 10'],
+    ['amount <= 2.00 AND', 'Unexpected end of condition at position 19'],
+    ['amount <= AND x', 'Expected a field or value, found AND at position 11'],
+    ["descripton CONTAINS 'x'", "Unknown field 'descripton' at position 1"],
+    ['(amount < 2 OR amount > 5', "Expected ')', found end of condition at position 26"],
+    ["amount < 'abc'", "Invalid amount 'abc' at position 10"],
+    ["date > '2025-13-01'", "Invalid date '2025-13-01' at position 8"],
+    ["weekday = 'someday'", "Unknown weekday 'someday' at position 11"],
+    ["description MATCHES '('", 'Invalid regular expression'],
+    ["description CONTAINS 'x", 'Unterminated string at position 22'],
+    ['amount < 2 amount', "Expected end of condition, found 'amount' at position 12"],
+  ])('should reject %s', (condition, message) => {
+    expect(() => ConditionParser.compile(condition)).toThrow(ParsingError);
+    expect(() => ConditionParser.compile(condition)).toThrow(message);
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ConfigManager, DEFAULT_CONFIG } from '../src/config.js';
+import { ConfigurationError } from '../src/errors.js';
+
+describe('ConfigManager', () => {
+  const withConfig = async (text: string | null, test: (configPath: string) => Promise<void>) => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'caixa2bean-'));
+    try {
+      const configPath = path.join(dir, 'config.json');
+      if (text !== null) fs.writeFileSync(configPath, text);
+      await test(configPath);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  };
+
+  it('should complete each section of config.json from the defaults', async () => {
+    await withConfig('{"converter": {"defaultAccount": "Assets:Bank:Other"}}', async (file) => {
+      const config = await ConfigManager.loadConfig(file);
+
+      expect(config).toEqual(
+        ConfigManager.resolve({ converter: { defaultAccount: 'Assets:Bank:Other' } })
+      );
+      expect(config.converter.fallbackAccount).toBe(DEFAULT_CONFIG.converter.fallbackAccount);
+      expect(config.consolidator).toEqual(DEFAULT_CONFIG.consolidator);
+    });
+  });
+
+  it('should fall back to the defaults only when config.json is missing', async () => {
+    await withConfig(null, async (file) => {
+      const warnings: string[] = [];
+      const config = await ConfigManager.loadConfig(file, { warn: (w) => warnings.push(w) });
+
+      expect(config).toEqual(DEFAULT_CONFIG);
+      expect(warnings).toEqual(['config.json not found, using default configuration']);
+    });
+    await withConfig('{"converter": ', async (file) => {
+      await expect(ConfigManager.loadConfig(file)).rejects.toThrow(ConfigurationError);
+    });
+  });
+});
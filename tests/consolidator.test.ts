@@ -0,0 +1,253 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ConsolidationDetector,
+  HoldReleaseDetector,
+  TransactionConsolidator,
+} from '../src/consolidator.js';
+import { ExcelTransaction } from '../src/types.js';
+import { DEFAULT_CONFIG } from '../src/config.js';
+import { Money } from '../src/money.js';
+
+describe('TransactionConsolidator', () => {
+  const base: ExcelTransaction = {
+    accountNumber: '2100 0904 78 0100394901',
+    branchCode: '9736',
+    currency: 'EUR',
+    transactionDate: '15/03/2025',
+    valueDate: '15/03/2025',
+    creditAmount: null,
+    debitAmount: null,
+    balance: Money.of(500),
+    conceptoComun: '12',
+    conceptoPropio: '040',
+    referencia1: '000000000000',
+    referencia2: '4111111111111234',
+    conceptoComplementario1: '',
+    conceptoComplementario2: '',
+    conceptoComplementario3: '',
+    conceptoComplementario4: '',
+    conceptoComplementario5: '',
+    conceptoComplementario6: '',
+    conceptoComplementario7: '',
+    conceptoComplementario8: '',
+    conceptoComplementario9: 'COMPRA CON TARJETA',
+    conceptoComplementario10: '',
+  };
+  const charge = (merchant: string, amount: number, date = '15/03/2025'): ExcelTransaction => ({
+    ...base,
+    transactionDate: date,
+    conceptoComplementario1: merchant,
+    debitAmount: Money.of(amount),
+  });
+  const refund = (amount: number, date = '15/03/2025'): ExcelTransaction => ({
+    ...base,
+    transactionDate: date,
+    conceptoComplementario9: 'DEVOLUCION COMPRA',
+    creditAmount: Money.of(amount),
+  });
+
+  const defaults = { timeWindowHours: 24, requireRefund: true, strictMode: true };
+  const consolidator = TransactionConsolidator.compile(DEFAULT_CONFIG.consolidator);
+  const fuel = {
+    name: 'fuel',
+    release: "description CONTAINS 'devolucion'",
+    purchase: "description CONTAINS 'repsol'",
+    hold: 'amount >= 50',
+  };
+
+  it('should consolidate a vending machine hold into the real purchase', () => {
+    const purchase = charge('SERUNION VENDING', 0.5);
+    const { transactions: output } = consolidator.consolidate([
+      charge('SERUNION VENDING', 3),
+      purchase,
+      refund(3),
+    ]);
+
+    expect(output).toHaveLength(1);
+    expect(output[0].debitAmount).toEqual(Money.of(0.5));
+    expect(output[0].conceptoComplementario1).toBe('SERUNION VENDING - COMPRA CON TARJETA - Snack');
+    expect(consolidator.getConsolidation(output[0])).toEqual({
+      detector: 'vending',
+      account: 'Expenses:Food:Snacks',
+    });
+    expect(consolidator.getConsolidation(purchase)).toBeNull();
+  });
+
+  it('should leave holds of unknown merchants for manual review', () => {
+    const transactions = [charge('KIOSK', 3), charge('KIOSK', 1), refund(3)];
+    const { transactions: output, reviewCandidates } = consolidator.consolidate([...transactions]);
+
+    expect(output).toHaveLength(3);
+    expect(reviewCandidates).toMatchObject([
+      { detector: 'vending', confidence: 'medium', transactions },
+    ]);
+  });
+
+  it('should find configured patterns across days within their window', () => {
+    const detector = HoldReleaseDetector.compile(
+      {
+        name: 'fuel',
+        release: "description CONTAINS 'devolucion'",
+        purchase: "description CONTAINS 'repsol'",
+        hold: 'amount >= 50',
+        windowHours: 48,
+        account: 'Expenses:Transportation:Fuel',
+        narration: '{purchase} (hold released)',
+      },
+      defaults
+    );
+    const transactions = [
+      charge('REPSOL GIRONA', 100, '14/03/2025'),
+      charge('REPSOL GIRONA', 45.2, '14/03/2025'),
+      refund(100, '16/03/2025'),
+    ];
+
+    expect(detector.detect(transactions, 2)).toMatchObject({
+      detector: 'fuel',
+      confidence: 'high',
+      transactions: [transactions[0], transactions[1], transactions[2]],
+      consolidated: {
+        conceptoComplementario1: 'REPSOL GIRONA - COMPRA CON TARJETA (hold released)',
+        debitAmount: Money.of(45.2),
+      },
+      suggestedAccount: 'Expenses:Transportation:Fuel',
+    });
+    expect(detector.detect([...transactions.slice(0, 2), refund(100, '17/03/2025')], 2)).toBeNull();
+  });
+
+  it('should consolidate accepted candidates and drop rejected ones from review', () => {
+    const transactions = [charge('KIOSK', 3), charge('KIOSK', 1), refund(3)];
+    const [candidate] = consolidator.consolidate([...transactions]).reviewCandidates;
+    const id = TransactionConsolidator.getCandidateId(candidate);
+    expect(id).toMatch(/^[0-9a-f]{12}$/);
+
+    const accepted = consolidator.consolidate([...transactions], { [id]: 'accept' });
+    expect(accepted).toEqual({ transactions: [candidate.consolidated], reviewCandidates: [] });
+
+    const rejected = consolidator.consolidate([...transactions], { [id]: 'reject' });
+    expect(rejected.transactions).toHaveLength(3);
+    expect(rejected.reviewCandidates).toEqual([]);
+  });
+
+  it.each([
+    ['31/01/2025', '01/02/2025'],
+    ['31/12/2024', '01/01/2025'],
+    ['28/02/2024', '29/02/2024'],
+  ])('should match a hold on %s released on %s', (holdDate, refundDate) => {
+    const { transactions: output } = consolidator.consolidate([
+      refund(3, refundDate),
+      charge('SERUNION VENDING', 0.5, holdDate),
+      charge('SERUNION VENDING', 3, holdDate),
+    ]);
+
+    expect(output).toHaveLength(1);
+    expect(output[0].transactionDate).toBe(holdDate);
+  });
+
+  it('should not match a hold released after the time window', () => {
+    const { transactions: output } = consolidator.consolidate([
+      charge('SERUNION VENDING', 3, '30/12/2024'),
+      charge('SERUNION VENDING', 0.5, '30/12/2024'),
+      refund(3, '01/01/2025'),
+    ]);
+    expect(output).toHaveLength(3);
+  });
+
+  it('should order transactions by date rather than by day of month', () => {
+    const { transactions: output } = consolidator.consolidate([
+      charge('BAKERY', 2, '02/03/2025'),
+      charge('BOOKSHOP', 20, '15/02/2025'),
+      charge('CINEMA', 8, '01/01/2025'),
+    ]);
+    expect(output.map((txn) => txn.transactionDate)).toEqual([
+      '01/01/2025',
+      '15/02/2025',
+      '02/03/2025',
+    ]);
+  });
+
+  it('should keep the order of the day when the statement lists newest first', () => {
+    const { transactions: output } = consolidator.consolidate([
+      refund(3, '16/03/2025'),
+      charge('SERUNION VENDING', 0.5, '15/03/2025'),
+      charge('SERUNION VENDING', 3, '15/03/2025'),
+      charge('CINEMA', 8, '14/03/2025'),
+    ]);
+    expect(output.map((txn) => txn.conceptoComplementario1)).toEqual([
+      'CINEMA',
+      'SERUNION VENDING - COMPRA CON TARJETA - Snack',
+    ]);
+  });
+
+  it('should only pair transactions of the same card in strict mode', () => {
+    const transactions = [
+      charge('REPSOL GIRONA', 100),
+      { ...charge('REPSOL GIRONA', 45.2), referencia2: '4111111111119999' },
+      refund(100),
+    ];
+
+    expect(HoldReleaseDetector.compile(fuel, defaults).detect(transactions, 2)).toBeNull();
+    expect(
+      HoldReleaseDetector.compile(fuel, { ...defaults, strictMode: false }).detect(transactions, 2)
+    ).toMatchObject({ confidence: 'medium' });
+  });
+
+  it('should list unreleased holds for review when no refund is required', () => {
+    const transactions = [charge('REPSOL GIRONA', 100), charge('REPSOL GIRONA', 45.2)];
+
+    expect(HoldReleaseDetector.compile(fuel, defaults).detect(transactions, 1)).toBeNull();
+    expect(
+      HoldReleaseDetector.compile(fuel, { ...defaults, requireRefund: false }).detect(
+        transactions,
+        1
+      )
+    ).toMatchObject({
+      confidence: 'low',
+      transactions,
+      reasoning: expect.stringContaining('no refund yet'),
+    });
+  });
+
+  it.each([
+    [{ name: '', release: 'amount > 1', purchase: 'amount > 1' }, 'name must be set'],
+    [{ name: 'x', release: 'amount > 1' }, 'release and purchase conditions are required'],
+    [{ name: 'x', release: 'amount > 1', purchase: 'amount >' }, 'purchase: '],
+    [{ name: 'x', release: 'a', purchase: 'b', windowHours: -1 }, 'windowHours must be'],
+  ])('should reject invalid detectors', (config, message) => {
+    expect(() => HoldReleaseDetector.compile(config as never, defaults)).toThrow(message);
+  });
+
+  it('should run registered detectors', () => {
+    const atm: ConsolidationDetector = {
+      name: 'atm-fee',
+      detect: (transactions, index) => {
+        const fee = transactions[index];
+        const withdrawal = transactions[index - 1];
+        if (!withdrawal || fee.conceptoComplementario1 !== 'COMISION CAJERO') return null;
+        return {
+          detector: 'atm-fee',
+          transactions: [withdrawal, fee],
+          consolidated: {
+            ...withdrawal,
+            debitAmount: withdrawal.debitAmount!.plus(fee.debitAmount!),
+          },
+          confidence: 'high',
+          reasoning: 'Withdrawal and its fee',
+        };
+      },
+    };
+    const withAtm = TransactionConsolidator.compile(DEFAULT_CONFIG.consolidator, [atm]);
+    const transactions = [charge('CAJERO', 60), charge('COMISION CAJERO', 2)];
+
+    const { transactions: output } = withAtm.consolidate(transactions);
+    expect(output).toHaveLength(1);
+    expect(output[0].debitAmount).toEqual(Money.of(62));
+    expect(withAtm.getConsolidation(output[0])).toBeNull();
+
+    // Detectors belong to their consolidator
+    expect(consolidator.consolidate(transactions).transactions).toHaveLength(2);
+    const registered = TransactionConsolidator.compile(DEFAULT_CONFIG.consolidator);
+    registered.register(atm);
+    expect(registered.getDetectors().map(({ name }) => name)).toEqual(['vending', 'atm-fee']);
+  });
+});
@@ -1,6 +1,9 @@
 import { describe, it, expect } from 'vitest';
 import { BeancountConverter } from '../src/converter';
 import { ParsedExcelFile, ExcelTransaction } from '../src/types.js';
+import { Money } from '../src/money.js';
+import { Ledger } from '../src/ledger.js';
+import { DEFAULT_CONFIG } from '../src/config.js';
 
 describe('BeancountConverter', () => {
   const mockTransaction: ExcelTransaction = {
@@ -10,8 +13,8 @@ describe('BeancountConverter', () => {
     transactionDate: '31/12/2025',
     valueDate: '31/12/2025',
     creditAmount: null,
-    debitAmount: 15.5,
-    balance: 84.5,
+    debitAmount: Money.of(15.5),
+    balance: Money.of(84.5),
     conceptoComun: '12',
     conceptoPropio: '040',
     referencia1: '000000000000',
@@ -32,54 +35,279 @@ describe('BeancountConverter', () => {
     accountNumber: '2100 0904 78 0100394901',
     currency: 'EUR',
     period: { start: '01/01/2025', end: '31/12/2025' },
-    openingBalance: 84.54,
+    openingBalance: Money.of(84.54),
     transactions: [mockTransaction],
-    closingBalance: 76.84,
+    closingBalance: Money.of(76.84),
   };
 
-  it('should convert transaction date to Beancount format', async () => {
-    const beancountTxn = await BeancountConverter.convertTransaction(mockTransaction);
+  const converter = BeancountConverter.compile({ config: DEFAULT_CONFIG });
+  const convert = (...args: Parameters<BeancountConverter['convert']>) =>
+    converter.convert(...args).output;
+
+  it('should convert transaction date to Beancount format', () => {
+    const beancountTxn = converter.convertTransaction(mockTransaction);
     expect(beancountTxn.date).toBe('2025-12-31');
   });
 
-  it('should create correct postings for debit transaction', async () => {
-    const beancountTxn = await BeancountConverter.convertTransaction(mockTransaction);
+  it('should create correct postings for debit transaction', () => {
+    const beancountTxn = converter.convertTransaction(mockTransaction);
     expect(beancountTxn.postings).toHaveLength(2);
     expect(beancountTxn.postings[0].account).toBe('Assets:Bank:Caixa:Checking');
-    expect(beancountTxn.postings[0].amount).toBe(-15.5);
+    expect(beancountTxn.postings[0].amount).toEqual(Money.of(-15.5));
     expect(beancountTxn.postings[1].account).toBe('Expenses:Transportation:Fuel');
   });
 
-  it('should create correct postings for credit transaction', async () => {
-    const creditTxn = { ...mockTransaction, creditAmount: 50, debitAmount: null };
-    const beancountTxn = await BeancountConverter.convertTransaction(creditTxn);
-    expect(beancountTxn.postings[0].amount).toBe(50);
-    expect(beancountTxn.postings[1].amount).toBe(-50);
+  it('should create correct postings for credit transaction', () => {
+    const creditTxn = { ...mockTransaction, creditAmount: Money.of(50), debitAmount: null };
+    const beancountTxn = converter.convertTransaction(creditTxn);
+    expect(beancountTxn.postings[0].amount).toEqual(Money.of(50));
+    expect(beancountTxn.postings[1].amount).toEqual(Money.of(-50));
   });
 
-  it('should generate account opening directive', async () => {
-    const beancount = await BeancountConverter.convert(mockData);
+  it('should generate account opening directive', () => {
+    const beancount = convert(mockData);
     expect(beancount).toContain('2025-01-01 open Assets:Bank:Caixa:Checking EUR');
   });
 
-  it('should generate balance assertion', async () => {
-    const beancount = await BeancountConverter.convert(mockData);
-    expect(beancount).toContain('2025-12-31 balance Assets:Bank:Caixa:Checking   76.84 EUR');
+  it('should assert the closing balance after the movements of the last day', () => {
+    // mockData has a movement on 31/12/2025, its last day
+    const beancount = convert(mockData);
+    expect(beancount).toMatch(/^2026-01-01 balance Assets:Bank:Caixa:Checking +76\.84 EUR$/m);
+
+    const leapDay = convert({ ...mockData, period: { start: '01/02/2024', end: '28/02/2024' } });
+    expect(leapDay).toMatch(/^2024-02-29 balance /m);
   });
 
-  it('should include transaction in output', async () => {
-    const beancount = await BeancountConverter.convert(mockData);
+  it('should include transaction in output', () => {
+    const beancount = convert(mockData);
     expect(beancount).toContain('2025-12-31 * "GAS STATION EXAMPLE - COMPRA CON TARJETA"');
-    expect(beancount).toContain('Assets:Bank:Caixa:Checking         -15.50 EUR');
+    expect(beancount).toMatch(/^ {2}Assets:Bank:Caixa:Checking +-15\.50 EUR$/m);
   });
 
-  it('should normalize whitespace in transaction descriptions', async () => {
+  it('should align amounts on a single column', () => {
+    const beancount = convert(mockData);
+    const amountEnds = beancount
+      .split('\n')
+      .filter((line) => /\d EUR$/.test(line) && !line.includes(' open '))
+      .map((line) => line.length - ' EUR'.length);
+
+    expect(amountEnds.length).toBeGreaterThan(2);
+    expect(new Set(amountEnds).size).toBe(1);
+  });
+
+  it('should normalize whitespace in transaction descriptions', () => {
     // Test with normalized input (as it would come from parser)
     const txnWithNormalizedSpaces: ExcelTransaction = {
       ...mockTransaction,
       conceptoComplementario9: 'COMPRA CON TARJETA', // Already normalized
     };
-    const beancountTxn = await BeancountConverter.convertTransaction(txnWithNormalizedSpaces);
+    const beancountTxn = converter.convertTransaction(txnWithNormalizedSpaces);
     expect(beancountTxn.narration).toBe('GAS STATION EXAMPLE - COMPRA CON TARJETA');
   });
+
+  it('should tag each transaction with a stable import id', () => {
+    const beancountTxn = converter.convertTransaction(mockTransaction);
+    const importId = Ledger.importId(mockTransaction);
+
+    expect(beancountTxn.metadata).toEqual({ 'import-id': importId });
+    expect(convert(mockData)).toContain(`  import-id: "${importId}"`);
+  });
+
+  it('should record the matching rule as metadata when explaining', () => {
+    const beancountTxn = converter.convertTransaction(
+      mockTransaction,
+      'Assets:Bank:Caixa:Checking',
+      { explain: true }
+    );
+    expect(beancountTxn.metadata?.rule).toBe('rules[0] matched gas');
+
+    const output = convert(mockData, undefined, undefined, {
+      explain: true,
+    });
+    expect(output).toContain('  rule: "rules[0] matched gas"');
+  });
+
+  it('should explain the account choice of a transaction', () => {
+    const { match, checked } = converter.explain(mockTransaction);
+    expect(match?.account).toBe('Expenses:Transportation:Fuel');
+    expect(checked).toEqual([]);
+  });
+
+  it('should send ATM withdrawals no rule matches to the cash account', () => {
+    const withdrawal = {
+      ...mockTransaction,
+      conceptoComun: '11',
+      conceptoComplementario1: 'CAJERO CAIXABANK',
+      conceptoComplementario9: '',
+    };
+    const categorization = converter.categorize(withdrawal);
+    expect(categorization).toMatchObject({ account: 'Assets:Cash', type: 'atm', flag: '*' });
+    expect(BeancountConverter.describeCategorization(categorization)).toBe('type atm');
+  });
+
+  it('should only apply the payroll and fee accounts in their direction', () => {
+    const movement = (conceptoComun: string, credit: boolean): ExcelTransaction => ({
+      ...mockTransaction,
+      conceptoComun,
+      conceptoComplementario1: 'TGSS REGIMEN ESPECIAL',
+      conceptoComplementario9: '',
+      creditAmount: credit ? Money.of(300) : null,
+      debitAmount: credit ? null : Money.of(300),
+    });
+
+    expect(converter.categorize(movement('15', true)).account).toBe('Income:Salary');
+    expect(converter.categorize(movement('15', false))).toMatchObject({
+      account: 'Expenses:Unknown',
+      type: null,
+    });
+    expect(converter.categorize(movement('17', false)).account).toBe('Expenses:Bank:Fees');
+    expect(converter.categorize(movement('17', true)).account).toBe('Expenses:Unknown');
+  });
+
+  it('should book a refund to the account of its purchase and link both', () => {
+    const refund: ExcelTransaction = {
+      ...mockTransaction,
+      transactionDate: '05/01/2026',
+      valueDate: '05/01/2026',
+      creditAmount: Money.of(5),
+      debitAmount: null,
+      conceptoComplementario9: 'DEVOLUCION COMPRA',
+    };
+    const output = convert(
+      { ...mockData, transactions: [mockTransaction, refund] },
+      undefined,
+      undefined,
+      { explain: true }
+    );
+    const link = `^refund-${Ledger.importId(mockTransaction)}`;
+
+    expect(output).toContain(`2025-12-31 * "GAS STATION EXAMPLE - COMPRA CON TARJETA" ${link}`);
+    expect(output).toContain(`2026-01-05 * "GAS STATION EXAMPLE - DEVOLUCION COMPRA" ${link}`);
+    expect(output).toMatch(/rule: "refund of 2025-12-31 GAS STATION EXAMPLE/);
+    expect(output).toMatch(/Expenses:Transportation:Fuel +-5\.00 EUR/);
+  });
+
+  describe('Refunds across runs', () => {
+    const refund = (amount: number, date: string): ExcelTransaction => ({
+      ...mockTransaction,
+      transactionDate: date,
+      valueDate: date,
+      creditAmount: Money.of(amount),
+      debitAmount: null,
+      balance: Money.of(84.5 + amount),
+      conceptoComplementario9: 'DEVOLUCION COMPRA',
+    });
+    // The first run books fuel elsewhere than the default merchants would
+    const merchants = {
+      rules: [{ keywords: ['gas station'], account: 'Expenses:Car:Fuel' }],
+      patterns: [],
+    };
+    const custom = BeancountConverter.compile({ config: DEFAULT_CONFIG, merchants });
+
+    it('should book a later refund to the account of the purchase in the ledger', () => {
+      const first = custom.convert(mockData).output;
+      const second = converter.convert(
+        { ...mockData, transactions: [mockTransaction, refund(5, '05/01/2026')] },
+        undefined,
+        Ledger.parse(first),
+        { explain: true }
+      ).output;
+
+      expect(first).toMatch(/Expenses:Car:Fuel +15\.50 EUR/);
+      expect(second).not.toContain('* "GAS STATION EXAMPLE - COMPRA CON TARJETA"');
+      expect(second).toMatch(/Expenses:Car:Fuel +-5\.00 EUR/);
+      expect(second).toMatch(
+        /rule: "refund of 2025-12-31 GAS STATION EXAMPLE - COMPRA CON TARJETA"/
+      );
+      // The ledger purchase carries no link, so the refund gets none either
+      expect(second).not.toContain('^refund-');
+    });
+
+    it('should link a later refund when the ledger purchase carries the link', () => {
+      const link = `^refund-${Ledger.importId(mockTransaction)}`;
+      const first = custom.convert({
+        ...mockData,
+        transactions: [mockTransaction, refund(5, '05/01/2026')],
+      }).output;
+      const second = converter.convert(
+        { ...mockData, transactions: [refund(10.5, '10/01/2026'), refund(1, '11/01/2026')] },
+        undefined,
+        Ledger.parse(first)
+      ).output;
+
+      expect(first).toContain(`2025-12-31 * "GAS STATION EXAMPLE - COMPRA CON TARJETA" ${link}`);
+      expect(second).toContain(`2026-01-10 * "GAS STATION EXAMPLE - DEVOLUCION COMPRA" ${link}`);
+      // Nothing is left of the purchase for the second refund
+      expect(second).toContain('2026-01-11 * "GAS STATION EXAMPLE - DEVOLUCION COMPRA"\n');
+      expect(second).toMatch(/Expenses:Car:Fuel +-10\.50 EUR/);
+      expect(second).toMatch(/Expenses:Transportation:Fuel +-1\.00 EUR/);
+    });
+  });
+
+  it('should return the directives of the conversion', () => {
+    const conversion = converter.convert(mockData);
+
+    expect(conversion.open).toEqual({
+      date: '2025-01-01',
+      account: 'Assets:Bank:Caixa:Checking',
+      currency: 'EUR',
+    });
+    expect(conversion.transactions.map((txn) => txn.narration)).toEqual([
+      'Opening balance',
+      'GAS STATION EXAMPLE - COMPRA CON TARJETA',
+    ]);
+    expect(conversion.balance).toMatchObject({ date: '2026-01-01', amount: Money.of(76.84) });
+    expect(conversion).toMatchObject({ skipped: 0, reviewCandidates: [] });
+  });
+
+  it('should categorize with the merchants it was compiled with', () => {
+    const custom = BeancountConverter.compile({
+      config: DEFAULT_CONFIG,
+      merchants: {
+        rules: [{ keywords: ['gas station'], account: 'Expenses:Car:Fuel' }],
+        patterns: [],
+      },
+    });
+
+    expect(custom.categorize(mockTransaction).account).toBe('Expenses:Car:Fuel');
+    expect(converter.categorize(mockTransaction).account).toBe('Expenses:Transportation:Fuel');
+  });
+
+  describe('Incremental import', () => {
+    const secondTransaction: ExcelTransaction = {
+      ...mockTransaction,
+      debitAmount: Money.of(7.66),
+      balance: Money.of(76.84),
+      conceptoComplementario1: 'BAKERY',
+    };
+    const grownData: ParsedExcelFile = {
+      ...mockData,
+      transactions: [mockTransaction, secondTransaction],
+    };
+
+    it('should only emit transactions missing from the existing ledger', () => {
+      const ledger = Ledger.parse(convert(mockData));
+      const beancount = convert(grownData, undefined, ledger);
+
+      expect(beancount).not.toContain('GAS STATION EXAMPLE');
+      expect(beancount).toContain('"BAKERY - COMPRA CON TARJETA"');
+      expect(beancount).toContain('; Skipped 1 transactions already in the ledger');
+    });
+
+    it('should not reopen the account or repeat the opening balance', () => {
+      const ledger = Ledger.parse(convert(mockData));
+      const beancount = convert(grownData, undefined, ledger);
+
+      expect(beancount).not.toContain(' open ');
+      expect(beancount).not.toContain('Opening balance');
+      expect(beancount).not.toMatch(/balance Assets:Bank:Caixa:Checking +76\.84 EUR/);
+    });
+
+    it('should emit nothing new when re-running the same statement', () => {
+      const first = convert(mockData);
+      const second = convert(mockData, undefined, Ledger.parse(first));
+
+      expect(Ledger.parse(second).importIds.size).toBe(0);
+    });
+  });
 });
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { CsvParser } from '../src/csv.js';
+import { StatementParser } from '../src/statement.js';
+import { Money } from '../src/money.js';
+
+describe('CsvParser', () => {
+  const header =
+    'Número de cuenta;Oficina;Divisa;Fecha operación;Fecha valor;Importe ingreso;Importe gasto;Saldo;' +
+    'Concepto común;Concepto propio;Referencia 1;Referencia 2;Concepto complementario 1;' +
+    'Concepto complementario 2;Concepto complementario 3;Concepto complementario 4;' +
+    'Concepto complementario 5;Concepto complementario 6;Concepto complementario 7;' +
+    'Concepto complementario 8;Concepto complementario 9;Concepto complementario 10';
+
+  const semicolonCsv = [
+    'MOVIMIENTOS DESDE : 01/12/2025 HASTA: 31/12/2025',
+    header,
+    '1234 5678 90 1234567890;9999;EUR;31/12/2025;31/12/2025;;15.50;84.50;12;040;000000000000;' +
+      '1234567890123456;"SHELL; L\'EMPORDÀ";;;;;;;04000022SIO;COMPRA CON TARJETA;',
+  ].join('\r\n');
+
+  it('should parse the bundled sample statement', () => {
+    const parsed = StatementParser.parseFile('sample-statement.csv');
+
+    expect(parsed.accountNumber).toBe('1234 5678 90 1234567890');
+    expect(parsed.currency).toBe('EUR');
+    expect(parsed.period).toEqual({ start: '01/01/2025', end: '31/12/2025' });
+    expect(parsed.transactions.length).toBeGreaterThan(0);
+
+    // The export is newest-first, so the gas station purchase ends up last
+    const newest = parsed.transactions[parsed.transactions.length - 1];
+    expect(newest.transactionDate).toBe('31/12/2025');
+    expect(newest.debitAmount).toEqual(Money.of(15.5));
+    expect(newest.balance).toEqual(Money.of(84.5));
+    expect(newest.conceptoComun).toBe('12');
+    expect(newest.referencia2).toBe('1234567890123456');
+    expect(newest.conceptoComplementario1).toBe('GAS STATION EXAMPLE');
+    expect(newest.conceptoComplementario9).toBe('COMPRA CON TARJETA');
+  });
+
+  it('should detect semicolon delimiters and keep quoted fields intact', () => {
+    const parsed = CsvParser.parseText(semicolonCsv);
+
+    expect(parsed.period).toEqual({ start: '01/12/2025', end: '31/12/2025' });
+    expect(parsed.transactions).toHaveLength(1);
+    expect(parsed.transactions[0].conceptoComplementario1).toBe("SHELL; L'EMPORDÀ");
+    expect(parsed.transactions[0].conceptoComplementario8).toBe('04000022SIO');
+  });
+
+  it('should decode Latin-1 encoded files', () => {
+    const parsed = CsvParser.parseBuffer(Buffer.from(semicolonCsv, 'latin1'));
+    expect(parsed.transactions[0].conceptoComplementario1).toBe("SHELL; L'EMPORDÀ");
+  });
+
+  it('should decode UTF-8 files with a byte order mark', () => {
+    const parsed = CsvParser.parseBuffer(Buffer.from(`\uFEFF${semicolonCsv}`, 'utf8'));
+    expect(parsed.transactions[0].conceptoComplementario1).toBe("SHELL; L'EMPORDÀ");
+  });
+
+  it('should honour an explicit encoding', () => {
+    const parsed = CsvParser.parseBuffer(Buffer.from(semicolonCsv, 'latin1'), {
+      encoding: 'latin1',
+    });
+    expect(parsed.accountNumber).toBe('1234 5678 90 1234567890');
+  });
+
+  it('should map columns by header regardless of their order', () => {
+    const csv = [
+      'Fecha operación,Número de cuenta,Divisa,Importe ingreso,Importe gasto,Saldo,Concepto complementario 1',
+      '02/01/2025,1234 5678 90 1234567890,EUR,100.00,,200.00,"TRANSFER ""SAVINGS"""',
+    ].join('\n');
+    const parsed = CsvParser.parseText(csv);
+
+    const txn = parsed.transactions[0];
+    expect(txn.transactionDate).toBe('02/01/2025');
+    expect(txn.creditAmount).toEqual(Money.of(100));
+    expect(txn.balance).toEqual(Money.of(200));
+    expect(txn.conceptoComplementario1).toBe('TRANSFER "SAVINGS"');
+  });
+
+  it('should fall back to the default column order without a header', () => {
+    const csv =
+      '1234 5678 90 1234567890,9999,EUR,31/12/2025,31/12/2025,500.00,,584.50,01,050,' +
+      '000000000000,REF002,SALARY PAYMENT,,,,,,,,INGRESO NOMINA,';
+    const parsed = CsvParser.parseText(csv);
+
+    expect(parsed.transactions[0].creditAmount).toEqual(Money.of(500));
+    expect(parsed.transactions[0].conceptoComplementario9).toBe('INGRESO NOMINA');
+  });
+
+  it('should use column overrides to read renamed headers', () => {
+    const csv = [
+      'Cuenta,Fecha,Entrada,Salida,Saldo final',
+      '1234 5678 90 1234567890,02/01/2025,,30.00,170.00',
+    ].join('\n');
+    const parsed = CsvParser.parseText(csv, {
+      columns: {
+        transactionDate: 'Fecha',
+        creditAmount: ['Entrada'],
+        debitAmount: ['Salida'],
+        balance: ['Saldo final'],
+      },
+    });
+
+    expect(parsed.transactions[0].debitAmount).toEqual(Money.of(30));
+    expect(parsed.transactions[0].balance).toEqual(Money.of(170));
+  });
+
+  it('should keep line breaks inside quoted fields', () => {
+    expect(CsvParser.splitRecords('a,"b\nc"\r\nd')).toEqual(['a,"b\nc"', 'd']);
+  });
+
+  it('should throw for files without data lines', () => {
+    expect(() => CsvParser.parseText('; only a comment\n')).toThrow('CSV file appears to be empty');
+  });
+});
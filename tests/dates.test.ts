@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { StatementDate } from '../src/dates.js';
+
+describe('StatementDate', () => {
+  it('should key statement and ISO dates alike', () => {
+    expect(StatementDate.key('5/3/2025')).toBe('20250305');
+    expect(StatementDate.key('2025-03-05')).toBe('20250305');
+    expect(StatementDate.key('31/13/2025')).toBeNull();
+    expect(StatementDate.key('March 5')).toBeNull();
+  });
+
+  it('should convert between statement and ISO dates', () => {
+    expect(StatementDate.toIso('05/03/2025')).toBe('2025-03-05');
+    expect(StatementDate.toStatement('2025-03-05')).toBe('05/03/2025');
+    expect(StatementDate.toIso('not a date')).toBe('not a date');
+  });
+
+  it('should count days across month and year ends', () => {
+    expect(StatementDate.dayNumber('01/03/2024') - StatementDate.dayNumber('28/02/2024')).toBe(2);
+    expect(StatementDate.nextDay('31/12/2025')).toBe('2026-01-01');
+    expect(StatementDate.nextDay('28/02/2024')).toBe('2024-02-29');
+    expect(Number.isNaN(StatementDate.dayNumber(''))).toBe(true);
+  });
+});
@@ -0,0 +1,181 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ConsolidationReview, ReviewFile } from '../src/decisions.js';
+import { ConsolidationCandidate, TransactionConsolidator } from '../src/consolidator.js';
+import { ConfigurationError, ValidationError } from '../src/errors.js';
+import { Ledger } from '../src/ledger.js';
+import { PathValidator } from '../src/validation.js';
+import { ExcelTransaction } from '../src/types.js';
+import { Money } from '../src/money.js';
+
+describe('ConsolidationReview', () => {
+  const base: ExcelTransaction = {
+    accountNumber: '2100 0904 78 0100394901',
+    branchCode: '9736',
+    currency: 'EUR',
+    transactionDate: '15/03/2025',
+    valueDate: '15/03/2025',
+    creditAmount: null,
+    debitAmount: null,
+    balance: Money.of(500),
+    conceptoComun: '12',
+    conceptoPropio: '040',
+    referencia1: '000000000000',
+    referencia2: '4111111111111234',
+    conceptoComplementario1: 'KIOSK',
+    conceptoComplementario2: '',
+    conceptoComplementario3: '',
+    conceptoComplementario4: '',
+    conceptoComplementario5: '',
+    conceptoComplementario6: '',
+    conceptoComplementario7: '',
+    conceptoComplementario8: '',
+    conceptoComplementario9: 'COMPRA CON TARJETA',
+    conceptoComplementario10: '',
+  };
+  const candidate = (hold: number): ConsolidationCandidate => {
+    const transactions = [
+      { ...base, debitAmount: Money.of(hold) },
+      { ...base, debitAmount: Money.of(1) },
+      { ...base, conceptoComplementario9: 'DEVOLUCION COMPRA', creditAmount: Money.of(hold) },
+    ];
+    return {
+      detector: 'vending',
+      transactions,
+      consolidated: transactions[1],
+      confidence: 'medium',
+      reasoning: `Pre-auth of ${hold}`,
+    };
+  };
+  const source = { inputs: ['statement.csv'], output: 'ledger.beancount' };
+
+  let dir: string;
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'caixa2bean-review-'));
+  });
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should name the review file after the output ledger', () => {
+    expect(ConsolidationReview.pathFor('out/ledger.beancount')).toBe('out/ledger.review.json');
+  });
+
+  it('should describe each candidate with a stable id and its transactions', () => {
+    const entry = ConsolidationReview.toEntry(candidate(3));
+
+    expect(entry).toMatchObject({
+      id: TransactionConsolidator.getCandidateId(candidate(3)),
+      decision: 'pending',
+      detector: 'vending',
+      confidence: 'medium',
+      reasoning: 'Pre-auth of 3',
+    });
+    expect(entry.transactions.map(({ amount, description }) => [amount, description])).toEqual([
+      ['-3.00', 'KIOSK - COMPRA CON TARJETA'],
+      ['-1.00', 'KIOSK - COMPRA CON TARJETA'],
+      ['3.00', 'KIOSK - DEVOLUCION COMPRA'],
+    ]);
+    expect(entry.transactions[0].importId).toBe(Ledger.importId(candidate(3).transactions[0]));
+  });
+
+  it('should remember decisions and replace the candidates still pending', () => {
+    const first = ConsolidationReview.update(null, source, [candidate(3), candidate(4)]);
+    const [accepted, dropped] = first.candidates.map((entry) => entry.id);
+    ConsolidationReview.decide(first, [accepted], 'accept');
+
+    const second = ConsolidationReview.update(first, source, [candidate(5)]);
+
+    expect(second.candidates.map(({ id, decision }) => [id, decision])).toEqual([
+      [accepted, 'accept'],
+      [TransactionConsolidator.getCandidateId(candidate(5)), 'pending'],
+    ]);
+    expect(ConsolidationReview.decisions(second)).toEqual({ [accepted]: 'accept' });
+    expect(second.candidates.map((entry) => entry.id)).not.toContain(dropped);
+  });
+
+  it('should refuse decisions for candidates the file does not list', () => {
+    const review = ConsolidationReview.update(null, source, [candidate(3)]);
+    expect(() => ConsolidationReview.decide(review, ['nope'], 'reject')).toThrow(ValidationError);
+  });
+
+  it('should save and load review files', () => {
+    const filePath = path.join(dir, 'ledger.review.json');
+    const review = ConsolidationReview.update(null, source, [candidate(3)]);
+    ConsolidationReview.save(filePath, review);
+
+    expect(ConsolidationReview.load(filePath)).toEqual(review);
+  });
+
+  it('should store the source paths relative to the directory the conversion ran in', () => {
+    const project = path.join(dir, 'project');
+    const converted = {
+      inputs: ['statements/jan.csv', path.join(project, 'statements')],
+      output: 'books/ledger.beancount',
+      ledger: 'books/main.beancount',
+      account: 'Assets:Bank:Caixa:Checking',
+    };
+    const reviewPath = path.join(project, 'books', 'ledger.review.json');
+    const stored = ConsolidationReview.storeSource(converted, reviewPath, project);
+
+    expect(stored).toEqual({
+      ...converted,
+      inputs: ['statements/jan.csv', 'statements'],
+      root: '..',
+    });
+    expect(ConsolidationReview.resolveSource(stored, reviewPath)).toEqual({
+      ...converted,
+      inputs: [path.join(project, 'statements/jan.csv'), path.join(project, 'statements')],
+      output: path.join(project, 'books/ledger.beancount'),
+      ledger: path.join(project, 'books/main.beancount'),
+      root: project,
+    });
+  });
+
+  it('should resolve the source from a directory outside the conversion one', () => {
+    const project = path.join(dir, 'project');
+    const stored = ConsolidationReview.storeSource(
+      { inputs: ['statements/jan.csv'], output: 'books/ledger.beancount' },
+      path.join(project, 'books', 'ledger.review.json'),
+      project
+    );
+
+    // Applied from a sibling directory, then from inside books
+    for (const [cwd, reviewPath] of [
+      [path.join(dir, 'other'), '../project/books/ledger.review.json'],
+      [path.join(project, 'books'), 'ledger.review.json'],
+    ]) {
+      const resolved = ConsolidationReview.resolveSource(stored, reviewPath, cwd);
+
+      expect(resolved.root).toBe(project);
+      expect(resolved.inputs).toEqual([path.join(project, 'statements/jan.csv')]);
+      expect(() =>
+        [...resolved.inputs, resolved.output].forEach((file) =>
+          PathValidator.validateSafePath(file, resolved.root)
+        )
+      ).not.toThrow();
+    }
+    const escaping = { ...stored, inputs: ['../secrets/jan.csv'] };
+    const resolved = ConsolidationReview.resolveSource(
+      escaping,
+      path.join(project, 'books', 'ledger.review.json')
+    );
+    expect(() => PathValidator.validateSafePath(resolved.inputs[0], resolved.root)).toThrow(
+      ValidationError
+    );
+  });
+
+  it.each([
+    [{ candidates: [] }, 'must name its source'],
+    [{ source }, 'must list its candidates'],
+    [{ source, candidates: [{ id: 'a', decision: 'maybe' }] }, 'decision must be pending'],
+  ])('should reject invalid review files', (content, message) => {
+    const filePath = path.join(dir, 'ledger.review.json');
+    fs.writeFileSync(filePath, JSON.stringify(content as Partial<ReviewFile>));
+
+    expect(() => ConsolidationReview.load(filePath)).toThrow(ConfigurationError);
+    expect(() => ConsolidationReview.load(filePath)).toThrow(message);
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { RuleFixtures } from '../src/fixtures.js';
+import { MerchantConfig, RuleSet } from '../src/rules.js';
+import { ConfigurationError } from '../src/errors.js';
+import { ConceptTable, DEFAULT_TYPE_ACCOUNTS } from '../src/concepts.js';
+import { ExcelTransaction } from '../src/types.js';
+
+describe('RuleFixtures', () => {
+  const categorizeWith = (config: MerchantConfig) => {
+    const ruleSet = RuleSet.compile(config);
+    return (txn: ExcelTransaction) => ({
+      account:
+        ruleSet.match(txn)?.account ??
+        ConceptTable.accountFor(DEFAULT_TYPE_ACCOUNTS, ConceptTable.DEFAULT.classify(txn), txn) ??
+        'Expenses:Unknown',
+      flag: '*' as const,
+    });
+  };
+
+  it('should build the transaction a fixture describes', () => {
+    const txn = RuleFixtures.toTransaction({
+      description: 'SHELL GIRONA',
+      concept: 'COMPRA CON TARJETA',
+      amount: -45.2,
+      account: 'Expenses:Fuel',
+      date: '2025-03-15',
+      fields: { referencia2: '4111111111111234' },
+    });
+
+    expect(txn).toMatchObject({
+      transactionDate: '15/03/2025',
+      creditAmount: null,
+      conceptoComplementario1: 'SHELL GIRONA',
+      conceptoComplementario9: 'COMPRA CON TARJETA',
+      conceptoComplementario2: '',
+      referencia2: '4111111111111234',
+    });
+    expect(txn.debitAmount?.format()).toBe('45.20');
+  });
+
+  it('should report which fixtures get another account', () => {
+    const results = RuleFixtures.run(
+      [
+        { description: 'SHELL', amount: -40, account: 'Expenses:Fuel' },
+        { description: 'BIZUM DE ANA', amount: 20, account: 'Income:Bizum' },
+      ],
+      categorizeWith({
+        rules: [
+          { keywords: ['shell'], account: 'Expenses:Fuel' },
+          { keywords: ['bizum'], direction: 'debit', account: 'Expenses:Gifts' },
+        ],
+        patterns: [],
+      })
+    );
+
+    expect(results.map(({ passed, actual }) => [passed, actual])).toEqual([
+      [true, 'Expenses:Fuel'],
+      [false, 'Expenses:Unknown'],
+    ]);
+  });
+
+  it('should keep the example fixtures passing against the example rules', () => {
+    const config = JSON.parse(fs.readFileSync('example-merchants.json', 'utf8'));
+    const results = RuleFixtures.run(
+      RuleFixtures.load('example-merchants.test.json'),
+      categorizeWith(config)
+    );
+    expect(results.filter((result) => !result.passed)).toEqual([]);
+  });
+
+  it.each([
+    ['{}', 'must be an array'],
+    ['[{"description": "X", "amount": -1}]', 'Invalid fixture [0]: account must be a string'],
+    ['[{"description": "X", "amount": "lots", "account": "A"}]', 'amount must be a number'],
+    ['[{"description": "X", "amount": 1, "account": "A", "fields": {"memo": "x"}}]', 'memo'],
+  ])('should reject invalid fixtures files', (content, message) => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'caixa2bean-'));
+    try {
+      const fixturesPath = path.join(dir, 'fixtures.json');
+      fs.writeFileSync(fixturesPath, content);
+      expect(() => RuleFixtures.load(fixturesPath)).toThrow(ConfigurationError);
+      expect(() => RuleFixtures.load(fixturesPath)).toThrow(message);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,19 @@
+import { describe, it, expect } from 'vitest';
+import { FuzzyMatcher } from '../src/fuzzy.js';
+
+describe('FuzzyMatcher', () => {
+  it('should ignore case, accents and punctuation', () => {
+    expect(FuzzyMatcher.normalize('MERCADONA,S.A. 1234')).toBe('mercadona s a 1234');
+    expect(FuzzyMatcher.score('Café Sol', 'CAFE SOL GIRONA')).toBe(1);
+  });
+
+  it.each([
+    ['mercadona', 'MERCADONA SA', 1],
+    ['mercadona', 'MERCAD0NA', 0.89],
+    ['mercadona', 'MERCADON', 0.89],
+    ['mercadona', 'COMPRA MERCADNA BCN', 0.89],
+    ['mercadona', 'CARREFOUR', 0.22],
+  ])('should score "%s" against "%s"', (keyword, text, score) => {
+    expect(FuzzyMatcher.score(keyword, text)).toBeCloseTo(score, 2);
+  });
+});
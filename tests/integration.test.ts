@@ -1,8 +1,11 @@
 import { describe, it, expect, afterEach } from 'vitest';
 import * as fs from 'fs';
 import { BeancountConverter } from '../src/converter.js';
+import { Money } from '../src/money.js';
+import { DEFAULT_CONFIG } from '../src/config.js';
 
 describe('Integration Tests', () => {
+  const converter = BeancountConverter.compile({ config: DEFAULT_CONFIG });
   const testOutputFile = 'test-output.beancount';
 
   // Clean up after tests
@@ -17,7 +20,7 @@ describe('Integration Tests', () => {
     accountNumber: '1234 5678 90 1234567890',
     currency: 'EUR',
     period: { start: '01/01/2025', end: '31/12/2025' },
-    openingBalance: 100.0,
+    openingBalance: Money.of(100.0),
     transactions: [
       {
         accountNumber: '1234 5678 90 1234567890',
@@ -26,8 +29,8 @@ describe('Integration Tests', () => {
         transactionDate: '31/12/2025',
         valueDate: '31/12/2025',
         creditAmount: null,
-        debitAmount: 15.5,
-        balance: 84.5,
+        debitAmount: Money.of(15.5),
+        balance: Money.of(84.5),
         conceptoComun: '12',
         conceptoPropio: '040',
         referencia1: '000000000000',
@@ -44,10 +47,10 @@ describe('Integration Tests', () => {
         conceptoComplementario10: '',
       },
     ],
-    closingBalance: 84.5,
+    closingBalance: Money.of(84.5),
   };
 
-  it('should complete full conversion workflow', async () => {
+  it('should complete full conversion workflow', () => {
     // Use mock parsed data instead of parsing Excel file
     const parsedData = mockParsedData;
 
@@ -56,7 +59,7 @@ describe('Integration Tests', () => {
     expect(parsedData.accountNumber).toBeTruthy();
 
     // Convert to Beancount
-    const beancountOutput = await BeancountConverter.convert(parsedData);
+    const beancountOutput = converter.convert(parsedData).output;
 
     // Verify conversion output
     expect(beancountOutput).toContain('open Assets:Bank:Caixa:Checking EUR');
@@ -72,9 +75,9 @@ describe('Integration Tests', () => {
     expect(transactionLines.length).toBeGreaterThan(0);
   });
 
-  it('should write valid Beancount file', async () => {
+  it('should write valid Beancount file', () => {
     const parsedData = mockParsedData;
-    const beancountOutput = await BeancountConverter.convert(parsedData);
+    const beancountOutput = converter.convert(parsedData).output;
 
     // Write to file
     fs.writeFileSync(testOutputFile, beancountOutput, 'utf8');
@@ -89,18 +92,18 @@ describe('Integration Tests', () => {
     expect(fileContent).toContain('open Assets:Bank:Caixa:Checking EUR');
   });
 
-  it('should handle custom account name', async () => {
+  it('should handle custom account name', () => {
     const parsedData = mockParsedData;
     const customAccount = 'Assets:Bank:Spain:Caixa';
-    const beancountOutput = await BeancountConverter.convert(parsedData, customAccount);
+    const beancountOutput = converter.convert(parsedData, customAccount).output;
 
     expect(beancountOutput).toContain(`open ${customAccount} EUR`);
     expect(beancountOutput).toContain(`balance ${customAccount}`);
   });
 
-  it('should include manual review comments when consolidator flags transactions', async () => {
+  it('should include manual review comments when consolidator flags transactions', () => {
     const parsedData = mockParsedData;
-    const beancountOutput = await BeancountConverter.convert(parsedData);
+    const beancountOutput = converter.convert(parsedData).output;
 
     // The consolidator may or may not flag transactions depending on the data
     // Just check that the output doesn't crash and contains expected elements
@@ -108,27 +111,27 @@ describe('Integration Tests', () => {
     expect(typeof beancountOutput).toBe('string');
   });
 
-  it('should handle empty transaction list gracefully', async () => {
+  it('should handle empty transaction list gracefully', () => {
     const emptyData = {
       accountNumber: '123456789',
       currency: 'EUR',
       period: { start: '01/01/2025', end: '31/01/2025' },
-      openingBalance: 100,
+      openingBalance: Money.of(100),
       transactions: [],
-      closingBalance: 100,
+      closingBalance: Money.of(100),
     };
 
-    const beancountOutput = await BeancountConverter.convert(emptyData);
+    const beancountOutput = converter.convert(emptyData).output;
 
     expect(beancountOutput).toContain('open Assets:Bank:Caixa:Checking EUR');
-    expect(beancountOutput).toContain('balance Assets:Bank:Caixa:Checking   100.00 EUR');
+    expect(beancountOutput).toMatch(/balance Assets:Bank:Caixa:Checking +100\.00 EUR/);
     // Should have opening balance transaction
     expect(beancountOutput).toContain('2025-01-01 * "Opening balance"');
   });
 
-  it('should validate Beancount syntax structure', async () => {
+  it('should validate Beancount syntax structure', () => {
     const parsedData = mockParsedData;
-    const beancountOutput = await BeancountConverter.convert(parsedData);
+    const beancountOutput = converter.convert(parsedData).output;
 
     const lines = beancountOutput.split('\n').filter((line) => line.trim());
 
@@ -142,8 +145,10 @@ describe('Integration Tests', () => {
     // Check that postings follow transactions
     for (let i = 0; i < lines.length; i++) {
       if (/^\d{4}-\d{2}-\d{2} \*/.test(lines[i])) {
-        // Next lines should be postings (indented)
-        const nextLine = lines[i + 1];
+        // Next lines should be postings (indented), after any metadata
+        let next = i + 1;
+        while (lines[next] && /^ {2}[a-z][\w-]*: /.test(lines[next])) next++;
+        const nextLine = lines[next];
         if (nextLine) {
           expect(nextLine).toMatch(/^ {2}\S+.*\d+\.\d{2} \w+$/);
         }
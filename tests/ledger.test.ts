@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+import { Ledger } from '../src/ledger.js';
+import { ExcelTransaction } from '../src/types.js';
+import { Money } from '../src/money.js';
+
+describe('Ledger', () => {
+  const purchase: ExcelTransaction = {
+    accountNumber: '2100 0904 78 0100394901',
+    branchCode: '9736',
+    currency: 'EUR',
+    transactionDate: '05/01/2025',
+    valueDate: '05/01/2025',
+    creditAmount: null,
+    debitAmount: Money.of(2),
+    balance: Money.of(98),
+    conceptoComun: '12',
+    conceptoPropio: '040',
+    referencia1: '000000000000',
+    referencia2: '1234567890123456',
+    conceptoComplementario1: 'COFFEE SHOP',
+    conceptoComplementario2: '',
+    conceptoComplementario3: '',
+    conceptoComplementario4: '',
+    conceptoComplementario5: '',
+    conceptoComplementario6: '',
+    conceptoComplementario7: '',
+    conceptoComplementario8: '',
+    conceptoComplementario9: 'COMPRA CON TARJETA',
+    conceptoComplementario10: '',
+  };
+
+  it('should derive the same import id for the same movement', () => {
+    const reparsed = { ...purchase, debitAmount: Money.parse('2,00'), sourceRow: 42 };
+    expect(Ledger.importId(reparsed)).toBe(Ledger.importId(purchase));
+    expect(Ledger.importId(purchase)).toMatch(/^[0-9a-f]{16}$/);
+  });
+
+  it('should tell apart identical purchases by their running balance', () => {
+    const secondCoffee = { ...purchase, balance: Money.of(96) };
+    expect(Ledger.importId(secondCoffee)).not.toBe(Ledger.importId(purchase));
+  });
+
+  it('should index import ids, open accounts and balance assertions', () => {
+    const index = Ledger.parse(
+      [
+        '2025-01-01 open Assets:Bank:Caixa:Checking EUR',
+        '',
+        '2025-01-05 * "COFFEE SHOP - COMPRA CON TARJETA"',
+        '  import-id: "0123456789abcdef"',
+        '  Assets:Bank:Caixa:Checking         -2.00 EUR',
+        '  Expenses:Food:Snacks         2.00 EUR',
+        '',
+        '2025-01-31 balance Assets:Bank:Caixa:Checking   98.00 EUR',
+      ].join('\n')
+    );
+
+    expect([...index.importIds]).toEqual(['0123456789abcdef']);
+    expect(index.openAccounts.has('Assets:Bank:Caixa:Checking')).toBe(true);
+    expect(
+      index.balanceAssertions.has(
+        Ledger.balanceKey('2025-01-31', 'Assets:Bank:Caixa:Checking', '98.00')
+      )
+    ).toBe(true);
+  });
+
+  it('should list hand-written transactions with their posting accounts', () => {
+    const transactions = Ledger.transactions(
+      [
+        '2025-01-01 open Assets:Bank:Caixa:Checking EUR',
+        '',
+        '2025-01-05 * "Cafe \\"Sol\\"" "Breakfast" #food',
+        '  ; shared with Ana',
+        '  Assets:Bank:Caixa:Checking  -6.00 EUR',
+        '  Expenses:Food:Coffee',
+        '2025-01-06 txn "Rent"',
+        '  category: "home"',
+        '  ! Expenses:Home:Rent  500.00 EUR',
+        '  Assets:Bank:Caixa:Checking',
+        '2025-01-31 balance Assets:Bank:Caixa:Checking   -506.00 EUR',
+      ].join('\n')
+    );
+
+    expect(transactions).toEqual([
+      {
+        line: 3,
+        date: '2025-01-05',
+        flag: '*',
+        payee: 'Cafe "Sol"',
+        narration: 'Breakfast',
+        accounts: ['Assets:Bank:Caixa:Checking', 'Expenses:Food:Coffee'],
+        postingLines: [5, 6],
+      },
+      {
+        line: 7,
+        date: '2025-01-06',
+        flag: '*',
+        narration: 'Rent',
+        accounts: ['Expenses:Home:Rent', 'Assets:Bank:Caixa:Checking'],
+        postingLines: [9, 10],
+      },
+    ]);
+  });
+
+  it('should list the purchases of a bank account with what refunds left of them', () => {
+    const index = Ledger.parse(
+      [
+        '2025-03-01 * "AMAZON.ES - COMPRA CON TARJETA" ^refund-aaaa',
+        '  import-id: "aaaa"',
+        '  Assets:Bank:Caixa:Checking  -34.99 EUR',
+        '  Expenses:Shopping            34.99 EUR',
+        '',
+        '2025-03-02 * "MERCADONA - COMPRA CON TARJETA"',
+        '  import-id: "bbbb"',
+        '  Assets:Bank:Caixa:Checking  -50.00 EUR',
+        '  Expenses:Groceries           30.00 EUR',
+        '  Expenses:Household           20.00 EUR',
+        '',
+        '2025-03-20 * "AMAZON.ES - DEVOLUCION COMPRA" ^refund-aaaa',
+        '  import-id: "cccc"',
+        '  Assets:Bank:Caixa:Checking   10.00 EUR',
+        '  Expenses:Shopping           -10.00 EUR',
+      ].join('\n')
+    );
+
+    expect(Ledger.purchases(index, 'Assets:Bank:Caixa:Checking')).toEqual([
+      {
+        importId: 'aaaa',
+        date: '2025-03-01',
+        narration: 'AMAZON.ES - COMPRA CON TARJETA',
+        account: 'Expenses:Shopping',
+        amount: Money.of('24.99'),
+        links: ['refund-aaaa'],
+      },
+    ]);
+    expect(Ledger.purchases(index, 'Assets:Bank:Other')).toEqual([]);
+  });
+});
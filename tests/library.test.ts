@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as XLSX from 'xlsx';
+import { Caixa2Bean } from '../src/library.js';
+import { StatementParser } from '../src/statement.js';
+import { Money } from '../src/money.js';
+
+describe('Caixa2Bean', () => {
+  const header =
+    'Número de cuenta;Oficina;Divisa;Fecha operación;Fecha valor;Importe ingreso;Importe gasto;Saldo;' +
+    'Concepto común;Concepto propio;Referencia 1;Referencia 2;Concepto complementario 1;' +
+    'Concepto complementario 2;Concepto complementario 3;Concepto complementario 4;' +
+    'Concepto complementario 5;Concepto complementario 6;Concepto complementario 7;' +
+    'Concepto complementario 8;Concepto complementario 9;Concepto complementario 10';
+  const row = (date: string, debit: string, balance: string, merchant: string) =>
+    `1234 5678 90 1234567890;9999;EUR;${date};${date};;${debit};${balance};12;040;000000000000;` +
+    `1234567890123456;${merchant};;;;;;;;COMPRA CON TARJETA;`;
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should convert a statement file to text and directives', () => {
+    const result = new Caixa2Bean().convert('sample-statement.csv');
+
+    expect(result.statement.accountNumber).toBe('1234 5678 90 1234567890');
+    expect(result.open).toMatchObject({ account: 'Assets:Bank:Caixa:Checking', currency: 'EUR' });
+    expect(result.transactions.length).toBeGreaterThan(1);
+    expect(result.balance?.amount).toEqual(Money.of(84.5));
+    expect(result.output).toContain('2025-12-31 * "GAS STATION EXAMPLE - COMPRA CON TARJETA"');
+    expect(result.warnings).toEqual(result.balanceCheck.breaks.map(({ message }) => message));
+  });
+
+  it('should convert a statement buffer like the file it was read from', () => {
+    const caixa2bean = new Caixa2Bean();
+    const fromBuffer = caixa2bean.convert(fs.readFileSync('sample-statement.csv'));
+
+    expect(fromBuffer.output).toBe(caixa2bean.convert('sample-statement.csv').output);
+  });
+
+  it('should read Excel workbooks from a buffer', () => {
+    const sheet = XLSX.utils.aoa_to_sheet(
+      [header, row('31/12/2025', '15.50', '84.50', 'GAS STATION EXAMPLE')].map((line) =>
+        line.split(';')
+      )
+    );
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, sheet, 'Movimientos');
+    const buffer: Buffer = XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' });
+
+    expect(StatementParser.detectFormat(buffer)).toBe('excel');
+    const result = new Caixa2Bean().convert(buffer);
+    expect(result.statement.transactions).toHaveLength(1);
+    expect(result.transactions[result.transactions.length - 1].narration).toBe(
+      'GAS STATION EXAMPLE - COMPRA CON TARJETA'
+    );
+  });
+
+  it('should tell Norma 43 content from CSV', () => {
+    const norma43 = `11${'2100090401003949012512012512312'.padEnd(78, ' ')}\r\n`;
+
+    expect(StatementParser.detectFormat(Buffer.from(norma43, 'latin1'))).toBe('norma43');
+    expect(StatementParser.detectFormat(Buffer.from(`${header}\n`, 'utf8'))).toBe('csv');
+  });
+
+  it('should return warnings and pass them to the logger without printing', () => {
+    const consoleWarn = vi.spyOn(console, 'warn');
+    const consoleLog = vi.spyOn(console, 'log');
+    const logged: string[] = [];
+    const csv = [
+      header,
+      row('01/12/2025', '10.00', '90.00', 'BAKERY'),
+      row('02/12/2025', '5.00', '80.00', 'CINEMA'),
+    ].join('\n');
+
+    const result = new Caixa2Bean({ logger: { warn: (message) => logged.push(message) } }).convert(
+      Buffer.from(csv, 'utf8')
+    );
+
+    expect(result.balanceCheck.valid).toBe(false);
+    expect(result.warnings).toHaveLength(result.balanceCheck.breaks.length);
+    expect(logged).toEqual(result.warnings);
+    expect(consoleWarn).not.toHaveBeenCalled();
+    expect(consoleLog).not.toHaveBeenCalled();
+  });
+
+  it('should keep the config and merchants of each instance apart', () => {
+    const custom = new Caixa2Bean({
+      config: { converter: { defaultAccount: 'Assets:Bank:Other' } },
+      merchants: {
+        rules: [{ keywords: ['gas station'], account: 'Expenses:Car:Fuel' }],
+        patterns: [],
+      },
+    });
+    const plain = new Caixa2Bean();
+
+    const customOutput = custom.convert('sample-statement.csv').output;
+    const plainOutput = plain.convert('sample-statement.csv').output;
+    expect(custom.config.converter.fallbackAccount).toBe('Expenses:Unknown');
+    expect(customOutput).toContain(' open Assets:Bank:Other EUR');
+    expect(customOutput).toMatch(/Expenses:Car:Fuel +15\.50 EUR/);
+    expect(plainOutput).toContain(' open Assets:Bank:Caixa:Checking EUR');
+    expect(plainOutput).toMatch(/Expenses:Transportation:Fuel +15\.50 EUR/);
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { StatementMerger } from '../src/merge.js';
+import { BalanceVerifier } from '../src/balance.js';
+import { ValidationError } from '../src/errors.js';
+import { ExcelTransaction, ParsedExcelFile } from '../src/types.js';
+import { Money } from '../src/money.js';
+
+describe('StatementMerger', () => {
+  const baseTransaction: ExcelTransaction = {
+    accountNumber: '2100 0904 78 0100394901',
+    branchCode: '9736',
+    currency: 'EUR',
+    transactionDate: '01/01/2025',
+    valueDate: '01/01/2025',
+    creditAmount: null,
+    debitAmount: null,
+    balance: Money.of(0),
+    conceptoComun: '12',
+    conceptoPropio: '040',
+    referencia1: '000000000000',
+    referencia2: 'REF',
+    conceptoComplementario1: 'SHOP',
+    conceptoComplementario2: '',
+    conceptoComplementario3: '',
+    conceptoComplementario4: '',
+    conceptoComplementario5: '',
+    conceptoComplementario6: '',
+    conceptoComplementario7: '',
+    conceptoComplementario8: '',
+    conceptoComplementario9: 'COMPRA CON TARJETA',
+    conceptoComplementario10: '',
+  };
+
+  const debit = (date: string, amount: number, balance: number): ExcelTransaction => ({
+    ...baseTransaction,
+    transactionDate: date,
+    valueDate: date,
+    debitAmount: Money.of(amount),
+    balance: Money.of(balance),
+  });
+
+  const statement = (
+    start: string,
+    end: string,
+    openingBalance: number,
+    transactions: ExcelTransaction[]
+  ): ParsedExcelFile => ({
+    accountNumber: baseTransaction.accountNumber,
+    currency: 'EUR',
+    period: { start, end },
+    openingBalance: Money.of(openingBalance),
+    transactions,
+    closingBalance: transactions[transactions.length - 1].balance,
+  });
+
+  const january = statement('01/01/2025', '31/01/2025', 100, [
+    debit('05/01/2025', 10, 90),
+    debit('20/01/2025', 5, 85),
+    debit('30/01/2025', 15, 70),
+  ]);
+
+  // Downloaded mid-month, so it repeats the end of January
+  const february = statement('20/01/2025', '28/02/2025', 90, [
+    debit('20/01/2025', 5, 85),
+    debit('30/01/2025', 15, 70),
+    debit('10/02/2025', 20, 50),
+  ]);
+
+  it('should drop transactions that appear in overlapping statements', () => {
+    const { statement: merged, duplicates } = StatementMerger.merge([january, february]);
+
+    expect(merged.transactions.map((txn) => txn.balance)).toEqual([
+      Money.of(90),
+      Money.of(85),
+      Money.of(70),
+      Money.of(50),
+    ]);
+    expect(duplicates).toHaveLength(2);
+    expect(BalanceVerifier.verify(merged).valid).toBe(true);
+  });
+
+  it('should take the opening balance from the earliest statement and the closing from the latest', () => {
+    const { statement: merged } = StatementMerger.merge([february, january]);
+
+    expect(merged.period).toEqual({ start: '01/01/2025', end: '28/02/2025' });
+    expect(merged.openingBalance).toEqual(Money.of(100));
+    expect(merged.closingBalance).toEqual(Money.of(50));
+  });
+
+  it('should keep identical movements told apart by the running balance', () => {
+    const coffees = statement('01/01/2025', '31/01/2025', 100, [
+      debit('05/01/2025', 2, 98),
+      debit('05/01/2025', 2, 96),
+    ]);
+    const later = statement('05/01/2025', '31/01/2025', 98, [
+      debit('05/01/2025', 2, 96),
+      debit('06/01/2025', 2, 94),
+    ]);
+
+    const { statement: merged, duplicates } = StatementMerger.merge([coffees, later]);
+    expect(merged.transactions).toHaveLength(3);
+    expect(duplicates).toHaveLength(1);
+  });
+
+  it('should keep repeated rows within one statement', () => {
+    const repeated = debit('05/01/2025', 2, 98);
+    const single = statement('01/01/2025', '31/01/2025', 100, [repeated]);
+    const double = statement('01/01/2025', '31/01/2025', 100, [repeated, { ...repeated }]);
+
+    expect(StatementMerger.merge([single, double]).statement.transactions).toHaveLength(2);
+  });
+
+  it('should refuse statements of different accounts', () => {
+    const other = { ...february, accountNumber: '2100 0000 00 0000000000' };
+    expect(() => StatementMerger.merge([january, other])).toThrow(ValidationError);
+    expect(() => StatementMerger.merge([january, other])).toThrow(
+      'Cannot merge statements of different accounts'
+    );
+  });
+
+  it('should refuse an empty batch', () => {
+    expect(() => StatementMerger.merge([])).toThrow('No statements to merge');
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { Money } from '../src/money.js';
+import { ParsingError } from '../src/errors.js';
+
+describe('Money', () => {
+  it('should parse plain decimal notation', () => {
+    expect(Money.parse('1234.56').toString()).toBe('1234.56');
+    expect(Money.parse('-15.50').toString()).toBe('-15.5');
+    expect(Money.parse('+3').toString()).toBe('3');
+  });
+
+  it('should parse Spanish notation', () => {
+    expect(Money.parse('1.234,56').toString()).toBe('1234.56');
+    expect(Money.parse('-12,5').toString()).toBe('-12.5');
+    expect(Money.parse('1.234.567').toString()).toBe('1234567');
+    expect(Money.parse('1 234,56 €').toString()).toBe('1234.56');
+    expect(Money.parse('1.234').toString()).toBe('1234');
+    expect(Money.parse('-12.345').toString()).toBe('-12345');
+  });
+
+  it('should reject a single dot followed by more than three digits as ambiguous', () => {
+    expect(() => Money.parse('1.2345')).toThrow(ParsingError);
+    expect(() => Money.parse('1.2345')).toThrow('Ambiguous amount: 1.2345');
+  });
+
+  it('should read numbers and plain strings from code as decimals', () => {
+    expect(Money.of(1.234).toString()).toBe('1.234');
+    expect(Money.of('1.234').toString()).toBe('1.234');
+    expect(Money.of('1.234,5').toString()).toBe('1234.5');
+    expect(Money.parseDecimal('-0.125').toString()).toBe('-0.125');
+    expect(() => Money.parseDecimal('1,5')).toThrow(ParsingError);
+  });
+
+  it('should parse English thousands separators', () => {
+    expect(Money.parse('1,234.56').toString()).toBe('1234.56');
+    expect(Money.parse('1,234,567').toString()).toBe('1234567');
+  });
+
+  it('should reject text that is not an amount', () => {
+    expect(() => Money.parse('not-a-number')).toThrow(ParsingError);
+    expect(() => Money.parse('')).toThrow(ParsingError);
+    expect(() => Money.of(NaN)).toThrow(ParsingError);
+  });
+
+  it('should add without floating point drift', () => {
+    expect(Money.of(0.1).plus(0.2).equals('0.3')).toBe(true);
+    expect(Money.sum([Money.of('84.54'), Money.of('-7.70'), Money.of('0.01')])).toEqual(
+      Money.of('76.85')
+    );
+  });
+
+  it('should treat equal amounts as structurally equal', () => {
+    expect(Money.parse('15.50')).toEqual(Money.of(15.5));
+    expect(Money.parse('2,00')).toEqual(Money.of(2));
+  });
+
+  it('should compare amounts', () => {
+    expect(Money.of('2.00').lessThanOrEqual(2)).toBe(true);
+    expect(Money.of('2.01').greaterThan('2')).toBe(true);
+    expect(Money.of('-1').isNegative()).toBe(true);
+    expect(Money.ZERO.isZero()).toBe(true);
+  });
+
+  it('should round half away from zero', () => {
+    expect(Money.of('1.005').round(2).toString()).toBe('1.01');
+    expect(Money.of('-1.005').round(2).toString()).toBe('-1.01');
+    expect(Money.of('1.004').round(2).toString()).toBe('1');
+  });
+
+  it('should format with a minimum number of decimals', () => {
+    expect(Money.of(5).format()).toBe('5.00');
+    expect(Money.of('-0.5').format()).toBe('-0.50');
+    expect(Money.of('1.2345').format()).toBe('1.2345');
+    expect(Money.of('1.2345').toFixed(2)).toBe('1.23');
+  });
+
+  it('should multiply exactly', () => {
+    expect(Money.of('19.99').times('0.5').toString()).toBe('9.995');
+    expect(Money.of('3').times(-1)).toEqual(Money.of(-3));
+  });
+
+  it('should serialize to JSON as a string', () => {
+    expect(JSON.stringify({ amount: Money.of('15.50') })).toBe('{"amount":"15.5"}');
+  });
+});
@@ -0,0 +1,182 @@
+import { describe, it, expect } from 'vitest';
+import { Norma43Parser } from '../src/norma43.js';
+import { ParsingError } from '../src/errors.js';
+import { Money } from '../src/money.js';
+
+// Builds an 80-character record from [1-based start position, value] pairs
+function record(...fields: [number, string][]): string {
+  const chars = new Array(80).fill(' ');
+  for (const [start, value] of fields) {
+    value.split('').forEach((char, i) => (chars[start - 1 + i] = char));
+  }
+  return chars.join('');
+}
+
+const amount = (cents: number) => cents.toString().padStart(14, '0');
+
+const header = record(
+  [1, '11'],
+  [3, '2100'],
+  [7, '0904'],
+  [11, '0100394901'],
+  [21, '251201'],
+  [27, '251231'],
+  [33, '2'],
+  [34, amount(10000)],
+  [48, '978'],
+  [51, '3'],
+  [52, 'TITULAR EJEMPLO']
+);
+
+const fuelPurchase = record(
+  [1, '22'],
+  [7, '9736'],
+  [11, '251230'],
+  [17, '251230'],
+  [23, '12'],
+  [25, '040'],
+  [28, '1'],
+  [29, amount(1550)],
+  [43, '0000000000'],
+  [53, '000000000000'],
+  [65, '1234567890123456']
+);
+
+const fuelConcepts = record([1, '23'], [3, '01'], [5, 'GAS STATION EXAMPLE'], [43, 'GIRONA']);
+const fuelConcepts5 = record([1, '23'], [3, '05'], [5, '04000022SIO'], [43, 'COMPRA CON TARJETA']);
+
+const salary = record(
+  [1, '22'],
+  [7, '9736'],
+  [11, '251231'],
+  [17, '251231'],
+  [23, '02'],
+  [25, '050'],
+  [28, '2'],
+  [29, amount(50000)],
+  [53, '000000000000'],
+  [65, 'REF002']
+);
+
+const footer = record(
+  [1, '33'],
+  [3, '2100'],
+  [7, '0904'],
+  [11, '0100394901'],
+  [21, '00001'],
+  [26, amount(1550)],
+  [40, '00001'],
+  [45, amount(50000)],
+  [59, '2'],
+  [60, amount(58450)],
+  [74, '978']
+);
+
+const end = record([1, '88'], [3, '999999999999999999'], [21, '000006']);
+
+const file = [header, fuelPurchase, fuelConcepts, fuelConcepts5, salary, footer, end].join('\r\n');
+
+describe('Norma43Parser', () => {
+  it('should take period and balances from the header and footer records', () => {
+    const parsed = Norma43Parser.parseText(file);
+
+    expect(parsed.accountNumber).toBe('2100 0904 78 0100394901');
+    expect(parsed.currency).toBe('EUR');
+    expect(parsed.period).toEqual({ start: '01/12/2025', end: '31/12/2025' });
+    expect(parsed.openingBalance).toEqual(Money.of(100));
+    expect(parsed.closingBalance).toEqual(Money.of(584.5));
+  });
+
+  it('should parse movement records', () => {
+    const [purchase, income] = Norma43Parser.parseText(file).transactions;
+
+    expect(purchase.transactionDate).toBe('30/12/2025');
+    expect(purchase.valueDate).toBe('30/12/2025');
+    expect(purchase.branchCode).toBe('9736');
+    expect(purchase.debitAmount).toEqual(Money.of(15.5));
+    expect(purchase.creditAmount).toBeNull();
+    expect(purchase.conceptoComun).toBe('12');
+    expect(purchase.conceptoPropio).toBe('040');
+    expect(purchase.referencia1).toBe('000000000000');
+    expect(purchase.referencia2).toBe('1234567890123456');
+
+    expect(income.creditAmount).toEqual(Money.of(500));
+    expect(income.debitAmount).toBeNull();
+    expect(income.referencia2).toBe('REF002');
+  });
+
+  it('should compute the running balance from the opening balance', () => {
+    const [purchase, income] = Norma43Parser.parseText(file).transactions;
+    expect(purchase.balance).toEqual(Money.of(84.5));
+    expect(income.balance).toEqual(Money.of(584.5));
+  });
+
+  it('should map complementary concept records to conceptoComplementario fields', () => {
+    const [purchase] = Norma43Parser.parseText(file).transactions;
+
+    expect(purchase.conceptoComplementario1).toBe('GAS STATION EXAMPLE');
+    expect(purchase.conceptoComplementario2).toBe('GIRONA');
+    expect(purchase.conceptoComplementario9).toBe('04000022SIO');
+    expect(purchase.conceptoComplementario10).toBe('COMPRA CON TARJETA');
+    expect(purchase.conceptoComplementario3).toBe('');
+  });
+
+  it('should accept records with trailing spaces trimmed', () => {
+    const trimmed = file
+      .split('\r\n')
+      .map((line) => line.trimEnd())
+      .join('\n');
+    expect(Norma43Parser.parseText(trimmed).transactions).toHaveLength(2);
+  });
+
+  it('should return one statement per account', () => {
+    const emptyFooter = record(
+      [1, '33'],
+      [3, '2100'],
+      [7, '0904'],
+      [11, '0100394901'],
+      [21, '00000'],
+      [26, amount(0)],
+      [40, '00000'],
+      [45, amount(0)],
+      [59, '2'],
+      [60, amount(10000)],
+      [74, '978']
+    );
+    const twoAccounts = [header, emptyFooter, header, emptyFooter, end].join('\n');
+
+    expect(Norma43Parser.parseStatements(twoAccounts)).toHaveLength(2);
+    expect(() => Norma43Parser.parseText(twoAccounts)).toThrow(
+      'Norma 43 file contains 2 accounts, expected a single account'
+    );
+  });
+
+  it('should reject footers that do not match the movements', () => {
+    const truncated = [header, fuelPurchase, fuelConcepts, footer, end].join('\n');
+    expect(() => Norma43Parser.parseText(truncated)).toThrow(
+      'Footer record 33 announces 1 debits and 1 credits, found 1 and 0'
+    );
+  });
+
+  it('should reject unknown record types with the offending row', () => {
+    try {
+      Norma43Parser.parseText([header, record([1, '99']), footer].join('\n'));
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(ParsingError);
+      expect((error as ParsingError).row).toBe(2);
+    }
+  });
+
+  it('should reject files without a closing footer', () => {
+    expect(() => Norma43Parser.parseText([header, fuelPurchase].join('\n'))).toThrow(
+      'Norma 43 file ended without account footer record 33'
+    );
+  });
+
+  it('should compute the CCC control digits', () => {
+    expect(Norma43Parser.formatAccountNumber('2100', '0904', '0100394901')).toBe(
+      '2100 0904 78 0100394901'
+    );
+  });
+});
@@ -1,6 +1,8 @@
 import { describe, it, expect } from 'vitest';
 import { ExcelParser } from '../src/parser';
 import { ParsedExcelFile, ExcelTransaction } from '../src/types.js';
+import { ConfigurationError } from '../src/errors.js';
+import { Money } from '../src/money.js';
 
 describe('ExcelParser', () => {
   // Mock sample transaction data for testing
@@ -12,8 +14,8 @@ describe('ExcelParser', () => {
       transactionDate: '31/12/2025',
       valueDate: '31/12/2025',
       creditAmount: null,
-      debitAmount: 15.5,
-      balance: 84.5,
+      debitAmount: Money.of(15.5),
+      balance: Money.of(84.5),
       conceptoComun: '12',
       conceptoPropio: '040',
       referencia1: '000000000000',
@@ -35,9 +37,9 @@ describe('ExcelParser', () => {
       currency: 'EUR',
       transactionDate: '30/12/2025',
       valueDate: '30/12/2025',
-      creditAmount: 50.0,
+      creditAmount: Money.of(50.0),
       debitAmount: null,
-      balance: 84.54,
+      balance: Money.of(84.54),
       conceptoComun: '01',
       conceptoPropio: '050',
       referencia1: '000000000000',
@@ -59,9 +61,9 @@ describe('ExcelParser', () => {
     accountNumber: '1234 5678 90 1234567890',
     currency: 'EUR',
     period: { start: '01/01/2025', end: '31/12/2025' },
-    openingBalance: 100.0,
+    openingBalance: Money.of(100.0),
     transactions: mockTransactions,
-    closingBalance: 84.5,
+    closingBalance: Money.of(84.5),
   };
 
   it('should parse account number correctly', () => {
@@ -84,20 +86,20 @@ describe('ExcelParser', () => {
   it('should have sample transaction data', () => {
     const firstTransaction = parsedData.transactions[0];
     expect(firstTransaction.transactionDate).toBe('31/12/2025');
-    expect(firstTransaction.debitAmount).toBe(15.5);
-    expect(firstTransaction.balance).toBe(84.5);
+    expect(firstTransaction.debitAmount).toEqual(Money.of(15.5));
+    expect(firstTransaction.balance).toEqual(Money.of(84.5));
     expect(firstTransaction.conceptoComplementario1.trim()).toContain('GAS STATION');
   });
 
   it('should calculate opening balance correctly', () => {
-    expect(parsedData.openingBalance).toBe(100.0);
+    expect(parsedData.openingBalance).toEqual(Money.of(100.0));
   });
 
   it('should have valid amounts', () => {
     for (const txn of parsedData.transactions) {
-      expect(typeof txn.balance).toBe('number');
-      if (txn.creditAmount) expect(typeof txn.creditAmount).toBe('number');
-      if (txn.debitAmount) expect(typeof txn.debitAmount).toBe('number');
+      expect(txn.balance).toBeInstanceOf(Money);
+      if (txn.creditAmount) expect(txn.creditAmount).toBeInstanceOf(Money);
+      if (txn.debitAmount) expect(txn.debitAmount).toBeInstanceOf(Money);
     }
   });
 
@@ -119,7 +121,7 @@ describe('ExcelParser - Mock Data Tests', () => {
     accountNumber: '1234 5678 90 1234567890',
     currency: 'EUR',
     period: { start: '01/01/2025', end: '31/12/2025' },
-    openingBalance: 100.0,
+    openingBalance: Money.of(100.0),
     transactions: [
       {
         accountNumber: '1234 5678 90 1234567890',
@@ -128,8 +130,8 @@ describe('ExcelParser - Mock Data Tests', () => {
         transactionDate: '31/12/2025',
         valueDate: '31/12/2025',
         creditAmount: null,
-        debitAmount: 15.5,
-        balance: 84.5,
+        debitAmount: Money.of(15.5),
+        balance: Money.of(84.5),
         conceptoComun: '12',
         conceptoPropio: '040',
         referencia1: '000000000000',
@@ -146,7 +148,7 @@ describe('ExcelParser - Mock Data Tests', () => {
         conceptoComplementario10: '',
       },
     ],
-    closingBalance: 84.5,
+    closingBalance: Money.of(84.5),
   };
 
   it('should parse mock data successfully', () => {
@@ -159,8 +161,8 @@ describe('ExcelParser - Mock Data Tests', () => {
     expect(parsedData.transactions.length).toBeGreaterThan(0);
     expect(parsedData.period.start).toMatch(/^\d{2}\/\d{2}\/\d{4}$/);
     expect(parsedData.period.end).toMatch(/^\d{2}\/\d{2}\/\d{4}$/);
-    expect(typeof parsedData.openingBalance).toBe('number');
-    expect(typeof parsedData.closingBalance).toBe('number');
+    expect(parsedData.openingBalance).toBeInstanceOf(Money);
+    expect(parsedData.closingBalance).toBeInstanceOf(Money);
   });
 
   it('should parse transactions with valid amounts', () => {
@@ -168,14 +170,14 @@ describe('ExcelParser - Mock Data Tests', () => {
 
     for (const txn of parsedData.transactions) {
       // Each transaction should have either credit or debit, not both
-      const hasCredit = txn.creditAmount !== null && txn.creditAmount > 0;
-      const hasDebit = txn.debitAmount !== null && txn.debitAmount > 0;
+      const hasCredit = txn.creditAmount !== null && txn.creditAmount.isPositive();
+      const hasDebit = txn.debitAmount !== null && txn.debitAmount.isPositive();
 
       expect(hasCredit || hasDebit).toBe(true);
       expect(hasCredit && hasDebit).toBe(false); // Not both
 
       // Balance should be a number
-      expect(typeof txn.balance).toBe('number');
+      expect(txn.balance).toBeInstanceOf(Money);
 
       // Dates should be in DD/MM/YYYY format
       expect(txn.transactionDate).toMatch(/^\d{2}\/\d{2}\/\d{4}$/);
@@ -231,7 +233,7 @@ describe('ExcelParser - Edge Cases', () => {
     expect(parsedRow).toBeTruthy();
     expect(parsedRow?.creditAmount).toBeNull();
     expect(parsedRow?.debitAmount).toBeNull();
-    expect(parsedRow?.balance).toBe(76.84);
+    expect(parsedRow?.balance).toEqual(Money.of(76.84));
   });
 
   it('should handle invalid numeric values in Excel rows', () => {
@@ -250,13 +252,33 @@ describe('ExcelParser - Edge Cases', () => {
     row[12] = 'REF002';
     row[13] = 'TEST';
 
+    // Invalid numbers are reported instead of silently becoming NaN
+    expect(() => ExcelParser.parseTransactionRow(row)).toThrow(
+      'Invalid amount in creditAmount column: not-a-number'
+    );
+  });
+
+  it('should parse Spanish and plain decimal notations', () => {
+    const row = new Array(25).fill('');
+    row[1] = '2100 0904 78 0100394901';
+    row[4] = '31/12/2025';
+    row[6] = '1.234,56';
+    row[8] = '2345.60';
+
     const parsedRow = ExcelParser.parseTransactionRow(row);
 
-    // Should still parse but with NaN for invalid numbers
-    expect(parsedRow).toBeTruthy();
-    expect(isNaN(parsedRow!.creditAmount!)).toBe(true);
-    expect(isNaN(parsedRow!.debitAmount!)).toBe(true);
-    expect(isNaN(parsedRow!.balance!)).toBe(true);
+    expect(parsedRow?.creditAmount).toEqual(Money.of('1234.56'));
+    expect(parsedRow?.balance).toEqual(Money.of('2345.6'));
+  });
+
+  it('should report the source row of invalid amounts', () => {
+    expect(() =>
+      ExcelParser.parseRows([
+        ['Número de cuenta', 'Fecha operación', 'Importe ingreso', 'Importe gasto', 'Saldo'],
+        ['2100 0904 78 0100394901', '31/12/2025', '', '12,50', '87,50'],
+        ['2100 0904 78 0100394901', '31/12/2025', '', 'doce', '75,00'],
+      ])
+    ).toThrow(expect.objectContaining({ row: 3, column: 4 }));
   });
 
   it('should normalize spaces in various combinations', () => {
@@ -267,3 +289,168 @@ describe('ExcelParser - Edge Cases', () => {
     expect(ExcelParser.normalizeSpaces('trailing  ')).toBe('trailing');
   });
 });
+
+describe('ExcelParser - Header Mapping', () => {
+  const header = [
+    '',
+    'Número de cuenta',
+    'Oficina',
+    'Divisa',
+    'Fecha operación',
+    'Fecha valor',
+    'Importe ingreso',
+    'Importe gasto',
+    'Saldo +',
+    'Saldo -',
+    'Concepto común',
+    'Concepto propio',
+    'Referencia 1',
+    'Referencia 2',
+    'Concepto complementario 1',
+  ];
+
+  it('should locate the header row below the title rows', () => {
+    const data = [['', 'Extracto'], [], header];
+    expect(ExcelParser.findHeaderRow(data)).toBe(2);
+  });
+
+  it('should return -1 instead of guessing when no header row exists', () => {
+    expect(
+      ExcelParser.findHeaderRow([
+        ['', 'Extracto'],
+        ['a', 'b'],
+      ])
+    ).toBe(-1);
+  });
+
+  it('should match headers regardless of case, accents and spacing', () => {
+    const columns = ExcelParser.resolveColumns([
+      'FECHA  OPERACION',
+      'numero de cuenta',
+      'Importe Ingreso',
+      'IMPORTE GASTO',
+      'Saldo',
+    ]);
+    expect(columns.transactionDate).toBe(0);
+    expect(columns.accountNumber).toBe(1);
+    expect(columns.balance).toBe(4);
+  });
+
+  it('should list every missing required column', () => {
+    expect(() => ExcelParser.resolveColumns(['Número de cuenta', 'Fecha operación'])).toThrow(
+      'Missing required columns: "Importe ingreso" (creditAmount), "Importe gasto" (debitAmount), "Saldo" (balance)'
+    );
+  });
+
+  it('should read columns from their header position when they are reordered', () => {
+    const reordered = [...header.slice(1), 'Nueva columna'];
+    const row = [
+      '2100 0904 78 0100394901',
+      '9736',
+      'EUR',
+      '31/12/2025',
+      '31/12/2025',
+      '',
+      '15.50',
+      '',
+      '12.00',
+      '12',
+      '040',
+      '000000000000',
+      '1234567890123456',
+      'GAS STATION EXAMPLE',
+      'extra',
+    ];
+    const parsed = ExcelParser.parseRows([
+      ['', 'MOVIMIENTOS DESDE : 01/12/2025 HASTA: 31/12/2025'],
+      reordered,
+      row,
+    ]);
+
+    expect(parsed.period).toEqual({ start: '01/12/2025', end: '31/12/2025' });
+    expect(parsed.transactions).toHaveLength(1);
+    expect(parsed.transactions[0].debitAmount).toEqual(Money.of(15.5));
+    expect(parsed.transactions[0].balance).toEqual(Money.of(-12));
+    expect(parsed.transactions[0].conceptoComplementario1).toBe('GAS STATION EXAMPLE');
+  });
+
+  it('should let configured labels replace the default ones', () => {
+    const schema = ExcelParser.buildColumnSchema({ balance: 'Saldo disponible' });
+    expect(schema.balance).toEqual(['Saldo disponible']);
+    expect(schema.debitAmount).toContain('Importe gasto');
+  });
+
+  it('should reject unknown columns in the schema overrides', () => {
+    expect(() =>
+      ExcelParser.buildColumnSchema({ foo: ['Foo'] } as unknown as Record<string, string[]>)
+    ).toThrow(ConfigurationError);
+  });
+});
+
+describe('ExcelParser - Statement Ordering', () => {
+  const header = [
+    'Número de cuenta',
+    'Fecha operación',
+    'Importe ingreso',
+    'Importe gasto',
+    'Saldo',
+    'Concepto complementario 1',
+  ];
+  const account = '2100 0904 78 0100394901';
+
+  it('should put newest-first statements in chronological order', () => {
+    const parsed = ExcelParser.parseRows([
+      header,
+      [account, '02/01/2026', '', '20.00', '130.00', 'THIRD'],
+      [account, '31/12/2025', '100.00', '', '150.00', 'SECOND'],
+      [account, '30/12/2025', '', '25.00', '50.00', 'FIRST'],
+    ]);
+
+    expect(parsed.transactions.map((txn) => txn.conceptoComplementario1)).toEqual([
+      'FIRST',
+      'SECOND',
+      'THIRD',
+    ]);
+    expect(parsed.openingBalance).toEqual(Money.of(75));
+    expect(parsed.closingBalance).toEqual(Money.of(130));
+  });
+
+  it('should keep oldest-first statements as they are', () => {
+    const parsed = ExcelParser.parseRows([
+      header,
+      [account, '30/12/2025', '', '25.00', '50.00', 'FIRST'],
+      [account, '31/12/2025', '100.00', '', '150.00', 'SECOND'],
+    ]);
+
+    expect(parsed.transactions[0].conceptoComplementario1).toBe('FIRST');
+    expect(parsed.openingBalance).toEqual(Money.of(75));
+    expect(parsed.closingBalance).toEqual(Money.of(150));
+  });
+
+  it('should use the running balance when all rows share a date', () => {
+    const rows = [
+      [account, '31/12/2025', '', '1.00', '97.00', 'THIRD'],
+      [account, '31/12/2025', '', '2.00', '98.00', 'SECOND'],
+      [account, '31/12/2025', '', '0.50', '100.00', 'FIRST'],
+    ];
+    const parsed = ExcelParser.parseRows([header, ...rows]);
+
+    expect(parsed.transactions.map((txn) => txn.conceptoComplementario1)).toEqual([
+      'FIRST',
+      'SECOND',
+      'THIRD',
+    ]);
+    expect(parsed.openingBalance).toEqual(Money.of(100.5));
+    expect(parsed.closingBalance).toEqual(Money.of(97));
+  });
+
+  it('should fall back to the transaction date range without a period row', () => {
+    const parsed = ExcelParser.parseRows([
+      header,
+      [account, '15/01/2026', '', '20.00', '130.00', 'LATER'],
+      [account, '03/01/2026', '', '25.00', '150.00', 'EARLIER'],
+    ]);
+
+    expect(parsed.period).toEqual({ start: '03/01/2026', end: '15/01/2026' });
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import { RefundMatcher } from '../src/refunds.js';
+import { Ledger, LedgerPurchase } from '../src/ledger.js';
+import { ConfigurationError } from '../src/errors.js';
+import { ExcelTransaction } from '../src/types.js';
+import { Money } from '../src/money.js';
+
+describe('RefundMatcher', () => {
+  const base: ExcelTransaction = {
+    accountNumber: '2100 0904 78 0100394901',
+    branchCode: '9736',
+    currency: 'EUR',
+    transactionDate: '01/03/2025',
+    valueDate: '01/03/2025',
+    creditAmount: null,
+    debitAmount: null,
+    balance: Money.of(500),
+    conceptoComun: '12',
+    conceptoPropio: '040',
+    referencia1: '000000000000',
+    referencia2: '4111111111111234',
+    conceptoComplementario1: '',
+    conceptoComplementario2: '',
+    conceptoComplementario3: '',
+    conceptoComplementario4: '',
+    conceptoComplementario5: '',
+    conceptoComplementario6: '',
+    conceptoComplementario7: '',
+    conceptoComplementario8: '',
+    conceptoComplementario9: '',
+    conceptoComplementario10: '',
+  };
+  const purchase = (merchant: string, amount: number, date: string): ExcelTransaction => ({
+    ...base,
+    transactionDate: date,
+    conceptoComplementario1: merchant,
+    conceptoComplementario9: 'COMPRA CON TARJETA',
+    debitAmount: Money.of(amount),
+  });
+  const refund = (merchant: string, amount: number, date: string): ExcelTransaction => ({
+    ...base,
+    transactionDate: date,
+    conceptoComplementario1: merchant,
+    conceptoComplementario9: 'DEVOLUCION COMPRA',
+    creditAmount: Money.of(amount),
+  });
+  const pairs = (transactions: ExcelTransaction[], matcher = RefundMatcher.compile()) =>
+    matcher
+      .pair(transactions)
+      .map((link) => [
+        transactions.indexOf(link.refund),
+        transactions.indexOf(link.purchase as ExcelTransaction),
+      ]);
+
+  it('should link a refund to the purchase it returns', () => {
+    const order = purchase('AMAZON.ES XXXX5678', 34.99, '01/03/2025');
+    const [link] = RefundMatcher.compile().pair([
+      order,
+      purchase('MERCADONA', 34.99, '02/03/2025'),
+      refund('AMAZON.ES', 34.99, '20/03/2025'),
+    ]);
+
+    expect(link.purchase).toBe(order);
+    expect(link.similarity).toBe(1);
+    expect(link.link).toBe(`refund-${Ledger.importId(order)}`);
+  });
+
+  it('should only link purchases on the same card, before the refund and within the window', () => {
+    expect(
+      pairs([
+        { ...purchase('ZARA', 40, '01/03/2025'), referencia2: '4111111111119999' },
+        purchase('ZARA', 40, '01/01/2025'),
+        purchase('ZARA', 40, '25/03/2025'),
+        refund('ZARA', 40, '20/03/2025'),
+      ])
+    ).toEqual([]);
+    expect(
+      pairs(
+        [purchase('ZARA', 40, '01/01/2025'), refund('ZARA', 40, '20/03/2025')],
+        RefundMatcher.compile({ windowDays: 90 })
+      )
+    ).toEqual([[1, 0]]);
+  });
+
+  it('should not link refunds larger than what is left of the purchase', () => {
+    expect(
+      pairs([
+        purchase('ZARA', 60, '01/03/2025'),
+        refund('ZARA', 25, '05/03/2025'),
+        refund('ZARA', 35, '06/03/2025'),
+        refund('ZARA', 10, '07/03/2025'),
+      ])
+    ).toEqual([
+      [1, 0],
+      [2, 0],
+    ]);
+  });
+
+  it('should prefer the most similar merchant, then the exact amount, then the latest', () => {
+    expect(
+      pairs([
+        purchase('DECATHLON', 50, '01/03/2025'),
+        purchase('DECATHLON', 30, '02/03/2025'),
+        purchase('DECATHLON', 45, '03/03/2025'),
+        purchase('PRIMARK', 30, '04/03/2025'),
+        refund('DECATHLON', 30, '10/03/2025'),
+        refund('DECATHLON', 20, '11/03/2025'),
+      ])
+    ).toEqual([
+      [4, 1],
+      [5, 2],
+    ]);
+  });
+
+  it.each([
+    [{ windowDays: -1 }, 'windowDays must be'],
+    [{ minSimilarity: 2 }, 'minSimilarity must be between 0 and 1'],
+    [{ condition: 'amount >' }, 'Invalid converter.refunds: condition:'],
+  ])('should reject invalid settings with a configuration error', (config, message) => {
+    expect(() => RefundMatcher.compile(config)).toThrow(ConfigurationError);
+    expect(() => RefundMatcher.compile(config)).toThrow(message);
+  });
+
+  it('should link refunds to ledger purchases on any card, only with the link they carry', () => {
+    const stored: LedgerPurchase = {
+      importId: 'aaaa',
+      date: '2025-03-01',
+      narration: 'AMAZON.ES - COMPRA CON TARJETA',
+      account: 'Expenses:Shopping',
+      amount: Money.of(20),
+      links: [],
+    };
+    const returned = { ...refund('AMAZON.ES', 20, '20/03/2025'), referencia2: '4111111111119999' };
+    const matcher = RefundMatcher.compile();
+
+    expect(matcher.pair([returned], [stored])).toMatchObject([{ purchase: stored, link: null }]);
+    expect(matcher.pair([returned], [{ ...stored, links: ['refund-aaaa'] }])[0].link).toBe(
+      'refund-aaaa'
+    );
+    expect(matcher.pair([refund('AMAZON.ES', 25, '20/03/2025')], [stored])).toEqual([]);
+  });
+});
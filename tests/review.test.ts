@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { LedgerReview, ReviewPrompt, ReviewSession } from '../src/review.js';
+import { Categorizer } from '../src/categorizer.js';
+import { ConfigurationError } from '../src/errors.js';
+import { DEFAULT_MERCHANT_CONFIG } from '../src/rules.js';
+
+describe('Review', () => {
+  const ledger = [
+    '2025-01-01 open Assets:Bank:Caixa:Checking EUR',
+    '',
+    '2025-01-03 * "CAFE SOL - COMPRA CON TARJETA"',
+    '  import-id: "0000000000000001"',
+    '  Assets:Bank:Caixa:Checking          -3.00 EUR',
+    '  Expenses:Unknown                     3.00 EUR',
+    '',
+    '2025-01-04 ! "MERCADONA - COMPRA CON TARJETA"',
+    '  Assets:Bank:Caixa:Checking         -30.00 EUR',
+    '  Expenses:Food:Coffee                30.00 EUR',
+    '',
+    '2025-01-05 * "CAFE SOL - COMPRA CON TARJETA"',
+    '  Assets:Bank:Caixa:Checking          -2.00 EUR',
+    '  Expenses:Unknown                     2.00 EUR',
+    '',
+    '2025-01-06 * "NOMINA"',
+    '  Assets:Bank:Caixa:Checking        1000.00 EUR',
+    '  Income:Salary                    -1000.00 EUR',
+  ].join('\n');
+
+  let dir: string;
+  let merchantsPath: string;
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'caixa2bean-'));
+    merchantsPath = path.join(dir, 'merchants.json');
+  });
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const scripted = (answers: string[]): ReviewPrompt & { output: string[] } => {
+    const output: string[] = [];
+    return {
+      output,
+      ask: async (question) => {
+        output.push(question);
+        return answers.shift() ?? null;
+      },
+      print: (text) => output.push(text),
+    };
+  };
+
+  it('should pick unknown and flagged transactions', () => {
+    expect(LedgerReview.candidates(ledger)).toEqual([
+      {
+        line: 3,
+        postingLine: 6,
+        date: '2025-01-03',
+        narration: 'CAFE SOL - COMPRA CON TARJETA',
+        account: 'Expenses:Unknown',
+        amount: '3.00 EUR',
+        flag: '*',
+      },
+      expect.objectContaining({ line: 8, account: 'Expenses:Food:Coffee', flag: '!' }),
+      expect.objectContaining({ line: 12, account: 'Expenses:Unknown' }),
+    ]);
+  });
+
+  it('should recategorize a posting, keep the amount column and clear the flag', () => {
+    const [, flagged] = LedgerReview.candidates(ledger);
+    const lines = LedgerReview.recategorize(ledger, flagged, 'Expenses:Groceries').split('\n');
+
+    expect(lines[7]).toBe('2025-01-04 * "MERCADONA - COMPRA CON TARJETA"');
+    expect(lines[9]).toBe('  Expenses:Groceries                  30.00 EUR');
+  });
+
+  it('should list the accounts the ledger uses', () => {
+    expect(LedgerReview.knownAccounts(ledger)).toEqual([
+      'Assets:Bank:Caixa:Checking',
+      'Expenses:Food:Coffee',
+      'Expenses:Unknown',
+      'Income:Salary',
+    ]);
+  });
+
+  it('should accept, change and skip transactions', async () => {
+    const categorizer = Categorizer.train([
+      { text: 'MERCADONA', account: 'Expenses:Groceries' },
+      { text: 'CAFE', account: 'Expenses:Food:Coffee' },
+    ]);
+    const prompt = scripted(['c', 'Expenses:Food:Cafe', '1', 's']);
+    const session = new ReviewSession(prompt, merchantsPath, categorizer);
+
+    const summary = await session.run(ledger, LedgerReview.candidates(ledger));
+
+    expect(summary).toMatchObject({ changed: 2, skipped: 1, rulesAdded: [] });
+    expect(prompt.output).toContain('   1) Expenses:Groceries (learned 0.67)');
+    expect(prompt.output).toContain('   2) Expenses:Food:Coffee (current)');
+    const lines = summary.text.split('\n');
+    expect(lines[5]).toBe('  Expenses:Food:Cafe                   3.00 EUR');
+    expect(lines[9]).toBe('  Expenses:Groceries                  30.00 EUR');
+    expect(lines[13]).toBe('  Expenses:Unknown                     2.00 EUR');
+    expect(fs.existsSync(merchantsPath)).toBe(false);
+  });
+
+  it('should add a merchant rule and apply it to the same merchant', async () => {
+    const prompt = scripted(['l', 'Expenses:Food:Coffee', '', 's']);
+    const session = new ReviewSession(prompt, merchantsPath);
+
+    const summary = await session.run(ledger, LedgerReview.candidates(ledger));
+
+    expect(summary.changed).toBe(2);
+    expect(summary.skipped).toBe(1);
+    expect(summary.text.split('\n')[13]).toBe('  Expenses:Food:Coffee                 2.00 EUR');
+
+    // The built-in rules are kept when merchants.json did not exist yet
+    const config = JSON.parse(fs.readFileSync(merchantsPath, 'utf8'));
+    expect(config.rules).toEqual([
+      ...DEFAULT_MERCHANT_CONFIG.rules,
+      { keywords: ['cafe sol'], account: 'Expenses:Food:Coffee' },
+    ]);
+  });
+
+  it('should ask again for invalid account names and stop when the input closes', async () => {
+    const prompt = scripted(['c', 'groceries']);
+    const summary = await new ReviewSession(prompt, merchantsPath).run(
+      ledger,
+      LedgerReview.candidates(ledger)
+    );
+
+    expect(prompt.output).toContain('   "groceries" is not a valid Beancount account name');
+    expect(summary).toMatchObject({ changed: 0, skipped: 3, text: ledger });
+  });
+
+  it('should refuse to append to an invalid merchants.json', () => {
+    fs.writeFileSync(merchantsPath, '{ not json');
+    expect(() =>
+      LedgerReview.appendRule(merchantsPath, { keywords: ['x'], account: 'Expenses:X' })
+    ).toThrow(ConfigurationError);
+  });
+});
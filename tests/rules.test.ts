@@ -0,0 +1,248 @@
+import { describe, it, expect } from 'vitest';
+import { MerchantConfig, RuleSet } from '../src/rules.js';
+import { ConfigurationError } from '../src/errors.js';
+import { ConceptTable } from '../src/concepts.js';
+import { ExcelTransaction } from '../src/types.js';
+import { Money } from '../src/money.js';
+
+describe('RuleSet', () => {
+  const base: ExcelTransaction = {
+    accountNumber: '2100 0904 78 0100394901',
+    branchCode: '9736',
+    currency: 'EUR',
+    transactionDate: '15/03/2025',
+    valueDate: '15/03/2025',
+    creditAmount: null,
+    debitAmount: Money.of(25),
+    balance: Money.of(500),
+    conceptoComun: '12',
+    conceptoPropio: '040',
+    referencia1: '000000000000',
+    referencia2: '4111111111111234',
+    conceptoComplementario1: '',
+    conceptoComplementario2: '',
+    conceptoComplementario3: '',
+    conceptoComplementario4: '',
+    conceptoComplementario5: '',
+    conceptoComplementario6: '',
+    conceptoComplementario7: '',
+    conceptoComplementario8: '',
+    conceptoComplementario9: 'COMPRA CON TARJETA',
+    conceptoComplementario10: '',
+  };
+  const txn = (overrides: Partial<ExcelTransaction>): ExcelTransaction => ({
+    ...base,
+    ...overrides,
+  });
+  const received = (text: string, amount: number) =>
+    txn({
+      conceptoComplementario1: text,
+      creditAmount: Money.of(amount),
+      debitAmount: null,
+    });
+  const account = (config: Partial<MerchantConfig>, transaction: ExcelTransaction) =>
+    RuleSet.compile({ rules: [], patterns: [], ...config }).match(transaction)?.account;
+
+  it('should keep matching plain keywords anywhere in the description', () => {
+    const config = { rules: [{ keywords: ['Shell'], account: 'Expenses:Fuel' }] };
+    expect(account(config, txn({ conceptoComplementario1: 'SHELL GIRONA' }))).toBe('Expenses:Fuel');
+  });
+
+  it('should restrict rules by direction', () => {
+    const config = {
+      rules: [
+        { keywords: ['bizum'], direction: 'credit' as const, account: 'Income:Bizum' },
+        { keywords: ['bizum'], direction: 'debit' as const, account: 'Expenses:Bizum' },
+      ],
+    };
+    expect(account(config, received('BIZUM DE ANA', 20))).toBe('Income:Bizum');
+    expect(account(config, txn({ conceptoComplementario1: 'BIZUM A ANA' }))).toBe('Expenses:Bizum');
+  });
+
+  it('should match whole words only when asked', () => {
+    const config = { rules: [{ keywords: ['gas'], wholeWord: true, account: 'Expenses:Fuel' }] };
+    expect(account(config, txn({ conceptoComplementario1: 'LAS VEGAS CASINO' }))).toBeUndefined();
+    expect(account(config, txn({ conceptoComplementario1: 'GAS NATURAL' }))).toBe('Expenses:Fuel');
+  });
+
+  it('should restrict rules by amount range', () => {
+    const config = {
+      rules: [
+        { keywords: ['mercadona'], maxAmount: '10.00', account: 'Expenses:Snacks' },
+        { keywords: ['mercadona'], minAmount: 10.01, account: 'Expenses:Groceries' },
+      ],
+    };
+    const shop = (amount: string) =>
+      txn({ conceptoComplementario1: 'MERCADONA', debitAmount: Money.of(amount) });
+    expect(account(config, shop('10.00'))).toBe('Expenses:Snacks');
+    expect(account(config, shop('10.01'))).toBe('Expenses:Groceries');
+  });
+
+  it('should restrict rules by card, concepto comun and date range', () => {
+    const config = {
+      rules: [
+        {
+          keywords: ['amazon'],
+          card: '1234',
+          conceptoComun: '12',
+          dateFrom: '2025-03-01',
+          dateTo: '31/03/2025',
+          account: 'Expenses:Work',
+        },
+        { keywords: ['amazon'], account: 'Expenses:Shopping' },
+      ],
+    };
+    const amazon = txn({ conceptoComplementario1: 'AMAZON EU' });
+    expect(account(config, amazon)).toBe('Expenses:Work');
+    expect(account(config, { ...amazon, referencia2: '4111111111119999' })).toBe(
+      'Expenses:Shopping'
+    );
+    expect(account(config, { ...amazon, conceptoComun: '02' })).toBe('Expenses:Shopping');
+    expect(account(config, { ...amazon, transactionDate: '01/04/2025' })).toBe('Expenses:Shopping');
+  });
+
+  it('should restrict rules and conditions by transaction type', () => {
+    const atm = txn({ conceptoComun: '11', conceptoComplementario1: 'CAJERO CAIXABANK' });
+    const card = txn({ conceptoComplementario1: 'CAJERO CAIXABANK' });
+    const rules = { rules: [{ keywords: ['cajero'], type: 'atm', account: 'Assets:Cash' }] };
+    const fallbacks = { fallbacks: [{ condition: "type = 'atm'", account: 'Assets:Cash' }] };
+
+    expect(account(rules, atm)).toBe('Assets:Cash');
+    expect(account(rules, card)).toBeUndefined();
+    expect(account(fallbacks, atm)).toBe('Assets:Cash');
+    expect(account(fallbacks, card)).toBeUndefined();
+    expect(
+      RuleSet.compile({ rules: [], patterns: [], ...rules }).explain(card).checked
+    ).toMatchObject([{ reason: 'type card is not atm' }]);
+  });
+
+  it('should classify types with the configured concept codes', () => {
+    const ruleSet = RuleSet.compile(
+      { rules: [{ keywords: ['cajero'], type: 'atm', account: 'Assets:Cash' }], patterns: [] },
+      undefined,
+      ConceptTable.compile({ '12/040': 'atm' })
+    );
+    expect(ruleSet.match(txn({ conceptoComplementario1: 'CAJERO' }))?.account).toBe('Assets:Cash');
+  });
+
+  it('should match keywords and patterns against the chosen fields', () => {
+    const config = {
+      rules: [
+        {
+          keywords: ['0400'],
+          fields: ['conceptoPropio' as const, 'conceptoComplementario8' as const],
+          account: 'Expenses:Tolls',
+        },
+      ],
+      patterns: [{ regex: '^06', fields: ['conceptoComun' as const], account: 'Expenses:Fees' }],
+    };
+    expect(account(config, txn({ conceptoComplementario8: '04000022SIO' }))).toBe('Expenses:Tolls');
+    expect(account(config, txn({ conceptoComun: '06' }))).toBe('Expenses:Fees');
+  });
+
+  it('should honour explicit priorities across rule kinds', () => {
+    const config = {
+      rules: [{ keywords: ['compra'], account: 'Expenses:Shopping' }],
+      fallbacks: [{ condition: 'amount > 20', priority: 10, account: 'Expenses:Large' }],
+    };
+    expect(account(config, txn({}))).toBe('Expenses:Large');
+    expect(account(config, txn({ debitAmount: Money.of(5) }))).toBe('Expenses:Shopping');
+  });
+
+  it('should keep rules, patterns, fallbacks order between equal priorities', () => {
+    const match = RuleSet.compile({
+      rules: [{ keywords: ['tarjeta'], account: 'A' }],
+      patterns: [{ regex: 'compra', account: 'B' }],
+      fallbacks: [{ condition: 'amount > 0', account: 'C' }],
+    }).match(base);
+    expect(match).toMatchObject({ account: 'A', kind: 'rules', index: 0, matchedText: 'tarjeta' });
+  });
+
+  it('should match misspelt and truncated keywords in fuzzy mode', () => {
+    const rules = RuleSet.compile({
+      rules: [{ keywords: ['mercadona'], fuzzy: true, account: 'Expenses:Groceries' }],
+      patterns: [],
+    });
+
+    expect(rules.match(txn({ conceptoComplementario1: 'MERCADONA,S.A. 1234' }))).toMatchObject({
+      account: 'Expenses:Groceries',
+      score: 1,
+    });
+    const misspelt = rules.match(txn({ conceptoComplementario1: 'MERCAD0NA' }));
+    expect(misspelt?.matchedText).toBe('mercadona');
+    expect(misspelt?.score).toBeCloseTo(0.89, 2);
+    expect(rules.match(txn({ conceptoComplementario1: 'MERCAT' }))).toBeNull();
+    expect(rules.explain(txn({ conceptoComplementario1: 'MERCAT' })).checked[0].reason).toBe(
+      'closest keyword "mercadona" scored 0.56 in "mercat compra con tarjeta"'
+    );
+  });
+
+  it('should honour a custom fuzzy threshold and keep exact matching by default', () => {
+    const config = (fuzzy?: number) => ({
+      rules: [{ keywords: ['mercadona'], fuzzy, account: 'Expenses:Groceries' }],
+    });
+    const misspelt = txn({ conceptoComplementario1: 'MERCAD0NA' });
+
+    expect(account(config(), misspelt)).toBeUndefined();
+    expect(account(config(0.95), misspelt)).toBeUndefined();
+    expect(account(config(0.85), misspelt)).toBe('Expenses:Groceries');
+  });
+
+  it('should explain why earlier rules did not match', () => {
+    const { match, checked } = RuleSet.compile({
+      rules: [
+        { keywords: ['bizum'], direction: 'credit', account: 'Income:Bizum' },
+        { keywords: ['shell'], maxAmount: 10, account: 'Expenses:Fuel:Small' },
+        { keywords: ['repsol'], account: 'Expenses:Fuel' },
+      ],
+      patterns: [
+        { regex: 'shell\\s+\\w+', description: 'Shell stations', account: 'Expenses:Fuel' },
+      ],
+      fallbacks: [{ condition: 'amount > 100', account: 'Expenses:Large' }],
+    }).explain(txn({ conceptoComplementario1: 'SHELL GIRONA' }));
+
+    expect(checked.map((check) => check.reason)).toEqual([
+      'direction is debit, rule wants credit',
+      'amount 25.00 above maxAmount 10.00',
+      'no keyword found in "shell girona compra con tarjeta"',
+    ]);
+    expect(match).toMatchObject({
+      kind: 'patterns',
+      index: 0,
+      text: 'shell girona compra con tarjeta',
+      matchedText: 'shell girona',
+    });
+    expect(RuleSet.label(match!.kind, match!.index, match!.rule)).toBe(
+      'patterns[0] "Shell stations"'
+    );
+  });
+
+  it('should explain a transaction no rule matches', () => {
+    const { match, checked } = RuleSet.compile({
+      rules: [],
+      patterns: [],
+      fallbacks: [{ condition: 'amount > 100', account: 'Expenses:Large' }],
+    }).explain(base);
+
+    expect(match).toBeNull();
+    expect(checked).toMatchObject([
+      { kind: 'fallbacks', index: 0, reason: 'condition is false: amount > 100' },
+    ]);
+  });
+
+  it.each([
+    [{ rules: [{ keywords: [], account: 'X' }] }, 'Invalid rules[0] (X): keywords must be'],
+    [{ rules: [{ keywords: ['a'], direction: 'in', account: 'X' }] }, 'direction must be'],
+    [{ rules: [{ keywords: ['a'], fields: ['nope'], account: 'X' }] }, 'unknown fields: nope'],
+    [{ rules: [{ keywords: ['a'], minAmount: 'lots', account: 'X' }] }, 'minAmount must be'],
+    [{ rules: [{ keywords: ['a'], dateFrom: '2025-13-01', account: 'X' }] }, 'dateFrom must be'],
+    [{ rules: [{ keywords: ['a'], fuzzy: 2, account: 'X' }] }, 'fuzzy must be true or a score'],
+    [{ patterns: [{ regex: '(', account: 'X' }] }, 'Invalid patterns[0] (X): invalid regex'],
+    [{ fallbacks: [{ condition: 'amount <', account: 'X' }] }, 'Invalid fallbacks[0] (X):'],
+  ])('should reject invalid rules with a configuration error', (config, message) => {
+    const compile = () =>
+      RuleSet.compile({ rules: [], patterns: [], ...config } as unknown as MerchantConfig);
+    expect(compile).toThrow(ConfigurationError);
+    expect(compile).toThrow(message);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { PostingSplitter, SplitShare } from '../src/split.js';
+import { RuleSet } from '../src/rules.js';
+import { ConfigurationError, ValidationError } from '../src/errors.js';
+import { Money } from '../src/money.js';
+
+describe('PostingSplitter', () => {
+  const allocate = (total: number | string, shares: SplitShare[]) =>
+    PostingSplitter.allocate(Money.of(total), shares, 'Expenses:Phone').map(
+      ({ account, amount }) => [account, amount.format()]
+    );
+
+  it('should split percentages and give the rounding to the last share', () => {
+    const shares = [{ percent: 50, account: 'Assets:Receivables:Flatmate' }, { percent: 50 }];
+    expect(allocate('45.01', shares)).toEqual([
+      ['Assets:Receivables:Flatmate', '22.51'],
+      ['Expenses:Phone', '22.50'],
+    ]);
+  });
+
+  it('should give what fixed amounts and percentages leave to the remainder', () => {
+    const shares = [
+      { amount: 10, account: 'Expenses:Internet' },
+      { percent: 33.33, account: 'Expenses:Business' },
+      { remainder: true },
+    ];
+    const allocations = PostingSplitter.allocate(Money.of('-100.00'), shares, 'Expenses:Phone');
+
+    expect(allocations.map(({ amount }) => amount.format())).toEqual([
+      '-10.00',
+      '-33.33',
+      '-56.67',
+    ]);
+    expect(Money.sum(allocations.map(({ amount }) => amount)).equals('-100.00')).toBe(true);
+  });
+
+  it('should always balance exactly', () => {
+    const shares = [{ percent: 33.33 }, { percent: 33.33 }, { percent: 33.34 }];
+    for (const total of ['0.01', '0.10', '1.00', '99.99', '-12.35', '1000000.07']) {
+      const allocations = PostingSplitter.allocate(Money.of(total), shares, 'Expenses:X');
+      expect(Money.sum(allocations.map(({ amount }) => amount)).equals(total)).toBe(true);
+    }
+  });
+
+  it('should refuse fixed shares larger than the transaction', () => {
+    const shares = [{ amount: 80 }, { amount: 50 }, { remainder: true }];
+    expect(() => allocate('-100.00', shares)).toThrow(ValidationError);
+    expect(() => allocate('-100.00', shares)).toThrow(
+      'split shares add up to 130.00, more than the transaction total 100.00'
+    );
+    expect(() =>
+      allocate('100.00', [{ amount: 120 }, { percent: 10 }, { remainder: true }])
+    ).toThrow(ValidationError);
+    expect(allocate('-130.00', shares)).toEqual([
+      ['Expenses:Phone', '-80.00'],
+      ['Expenses:Phone', '-50.00'],
+      ['Expenses:Phone', '0.00'],
+    ]);
+  });
+
+  it.each([
+    [[], 'non-empty array'],
+    [[{ percent: 50, remainder: true }], 'exactly one of amount, percent or remainder'],
+    [[{ remainder: true }, { remainder: true }], 'only one remainder'],
+    [[{ amount: 5 }, { percent: 50 }], 'needs a remainder share'],
+    [[{ percent: 60 }, { percent: 30 }], 'must add up to 100'],
+    [[{ percent: 80 }, { percent: 30 }, { remainder: true }], 'more than 100'],
+    [[{ amount: -5 }, { remainder: true }], 'must be positive'],
+  ] as [SplitShare[], string][])('should reject invalid splits', (shares, message) => {
+    expect(() => PostingSplitter.validate(shares)).toThrow(ValidationError);
+    expect(() => PostingSplitter.validate(shares)).toThrow(message);
+  });
+
+  it('should reject rules with an invalid split at compile time', () => {
+    const compile = () =>
+      RuleSet.compile({
+        rules: [{ keywords: ['movistar'], account: 'Expenses:Phone', split: [{ percent: 50 }] }],
+        patterns: [],
+      });
+    expect(compile).toThrow(ConfigurationError);
+    expect(compile).toThrow('Invalid rules[0] (Expenses:Phone): split percentages');
+  });
+});
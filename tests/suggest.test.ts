@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { RuleSuggester } from '../src/suggest.js';
+import { RuleSet } from '../src/rules.js';
+import { ExcelTransaction } from '../src/types.js';
+import { Money } from '../src/money.js';
+
+describe('RuleSuggester', () => {
+  const base: ExcelTransaction = {
+    accountNumber: '2100 0904 78 0100394901',
+    branchCode: '9736',
+    currency: 'EUR',
+    transactionDate: '15/03/2025',
+    valueDate: '15/03/2025',
+    creditAmount: null,
+    debitAmount: Money.of(10),
+    balance: Money.of(500),
+    conceptoComun: '12',
+    conceptoPropio: '040',
+    referencia1: '000000000000',
+    referencia2: '4111111111111234',
+    conceptoComplementario1: '',
+    conceptoComplementario2: '',
+    conceptoComplementario3: '',
+    conceptoComplementario4: '',
+    conceptoComplementario5: '',
+    conceptoComplementario6: '',
+    conceptoComplementario7: '',
+    conceptoComplementario8: '',
+    conceptoComplementario9: 'COMPRA CON TARJETA',
+    conceptoComplementario10: '',
+  };
+  const txn = (merchant: string, amount: number, city = ''): ExcelTransaction => ({
+    ...base,
+    conceptoComplementario1: merchant,
+    conceptoComplementario2: city,
+    debitAmount: Money.of(amount),
+  });
+
+  it.each([
+    ['SHELL GIRONA 12/03 *1234', 'shell'],
+    ['MERCADONA 04000022SIO BARCELONA ES', 'mercadona'],
+    ['CAFÈ DEL MAR SANT CUGAT', 'cafe del mar'],
+    ['AMAZON.ES XXXX5678 2025-03-15', 'amazon'],
+    ['LAS VEGAS CASINO', 'las vegas casino'],
+    ['MADRID', 'madrid'],
+  ])('should normalize "%s" to "%s"', (text, merchant) => {
+    expect(RuleSuggester.normalizeMerchant(text)).toBe(merchant);
+  });
+
+  it('should group by merchant and rank by frequency, then total', () => {
+    const groups = RuleSuggester.group([
+      txn('BAKERY', 2),
+      txn('SHELL', 40, 'GIRONA'),
+      txn('SHELL 01/03', 35, 'BARCELONA'),
+      txn('BOOKSHOP', 30),
+      txn('BAKERY', 3),
+    ]);
+
+    expect(groups.map(({ merchant, count }) => [merchant, count])).toEqual([
+      ['shell', 2],
+      ['bakery', 2],
+      ['bookshop', 1],
+    ]);
+    expect(groups[0].total.format()).toBe('75.00');
+    expect(groups[0].samples).toEqual(['SHELL GIRONA', 'SHELL 01/03 BARCELONA']);
+  });
+
+  it('should turn a group into a ready-to-paste rule', () => {
+    const [group] = RuleSuggester.group([txn('SHELL', 40), txn('SHELL', 35)]);
+    expect(RuleSuggester.toRule(group)).toEqual({
+      keywords: ['shell'],
+      account: 'Expenses:FIXME',
+      description: '2 unmatched, 75.00 EUR: SHELL',
+      direction: 'debit',
+    });
+  });
+
+  it('should report rules that never selected a transaction', () => {
+    const ruleSet = RuleSet.compile({
+      rules: [
+        { keywords: ['shell'], account: 'Expenses:Fuel' },
+        { keywords: ['repsol'], account: 'Expenses:Fuel' },
+      ],
+      patterns: [{ regex: 'shel+', account: 'Expenses:Shadowed' }],
+    });
+    const matches = [txn('SHELL', 40), txn('BAKERY', 2)]
+      .map((transaction) => ruleSet.match(transaction))
+      .filter((match) => match !== null);
+
+    expect(
+      RuleSuggester.unusedRules(ruleSet, matches).map(({ kind, index }) => `${kind}[${index}]`)
+    ).toEqual(['rules[1]', 'patterns[0]']);
+  });
+});